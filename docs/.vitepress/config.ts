@@ -75,7 +75,10 @@ export default defineConfig({
               text: 'useLocalStorage',
               link: '/api/state-hooks#uselocalstorage',
             },
-            { text: 'useSessionStorage', link: '/api/state-hooks#usesessionstorage' },
+            {
+              text: 'useSessionStorage',
+              link: '/api/state-hooks#usesessionstorage',
+            },
             { text: 'useToggle', link: '/api/state-hooks#usetoggle' },
           ],
         },
@@ -103,7 +106,32 @@ export default defineConfig({
           text: 'Async Hooks',
           items: [
             { text: 'useAsync', link: '/api/async-hooks#useasync' },
+            { text: 'useAsyncQueue', link: '/api/async-hooks#useasyncqueue' },
             { text: 'useFetch', link: '/api/async-hooks#usefetch' },
+            { text: 'useFetchAll', link: '/api/async-hooks#usefetchall' },
+            {
+              text: 'useInfiniteFetch',
+              link: '/api/async-hooks#useinfinitefetch',
+            },
+            { text: 'usePagination', link: '/api/async-hooks#usepagination' },
+            {
+              text: 'useEventSource',
+              link: '/api/async-hooks#useeventsource',
+            },
+            { text: 'useWebSocket', link: '/api/async-hooks#usewebsocket' },
+            { text: 'useGraphQL', link: '/api/async-hooks#usegraphql' },
+            { text: 'useMutation', link: '/api/async-hooks#usemutation' },
+            { text: '离线队列', link: '/api/async-hooks#离线队列' },
+            {
+              text: 'createFetchClient',
+              link: '/api/async-hooks#createfetchclient',
+            },
+            { text: 'defineApi', link: '/api/async-hooks#defineapi' },
+            {
+              text: 'createMockTransport',
+              link: '/api/async-hooks#createmocktransport',
+            },
+            { text: '服务端渲染', link: '/api/async-hooks#服务端渲染' },
           ],
         },
         {
@@ -121,6 +149,7 @@ export default defineConfig({
           text: 'Form Hooks',
           items: [
             { text: 'useForm', link: '/api/form-hooks#useform' },
+            { text: 'useFieldArray', link: '/api/form-hooks#usefieldarray' },
             { text: 'useValidation', link: '/api/form-hooks#usevalidation' },
           ],
         },
@@ -0,0 +1,22 @@
+const { TestEnvironment } = require('jest-environment-jsdom');
+
+/**
+ * jsdom测试环境，补充jsdom缺少、Node已经提供的Fetch API，
+ * 使Hook测试可以使用真实的Response和createMockTransport
+ */
+class JsdomFetchEnvironment extends TestEnvironment {
+  async setup() {
+    await super.setup();
+    Object.assign(this.global, {
+      fetch,
+      Headers,
+      Request,
+      Response,
+      ReadableStream,
+      TextEncoder,
+      TextDecoder,
+    });
+  }
+}
+
+module.exports = JsdomFetchEnvironment;
@@ -0,0 +1,53 @@
+import { AbortError } from './errors';
+
+/**
+ * 判断错误是否由取消操作引起，包括AbortError和原生fetch抛出的取消错误
+ * @param error - 错误对象
+ * @returns 是否为取消错误
+ */
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 让Promise在信号取消时立即以取消错误结束
+ * @param promise - 原始Promise
+ * @param signal - 取消信号
+ * @returns 与取消信号竞争的Promise
+ */
+function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const handleAbort = () => reject(new AbortError());
+    signal.addEventListener('abort', handleAbort);
+
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+}
+
+/**
+ * 等待指定时间，信号取消时提前以取消错误结束
+ * @param ms - 等待时间（毫秒）
+ * @param signal - 取消信号
+ * @returns Promise
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timeoutId: ReturnType<typeof setTimeout>;
+  const timer = new Promise<void>(resolve => {
+    timeoutId = setTimeout(resolve, ms);
+  });
+
+  return raceWithSignal(timer, signal).finally(() => clearTimeout(timeoutId));
+}
+
+export { isAbortError, raceWithSignal, sleep };
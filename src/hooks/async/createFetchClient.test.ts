@@ -0,0 +1,137 @@
+import { createFetchClient } from './createFetchClient';
+import { createMockTransport } from './mockTransport';
+import { HttpError, AbortError } from './errors';
+
+describe('createFetchClient', () => {
+  it('合并baseURL、默认请求头和单次请求的请求头', async () => {
+    const transport = createMockTransport().get('/api/users', { body: [] });
+    const client = createFetchClient({
+      baseURL: 'https://example.com/api',
+      headers: { 'X-Client': 'web', 'X-Version': '1' },
+      transport,
+    });
+
+    await client.request('/users', { headers: { 'X-Version': '2' } });
+
+    expect(transport.lastCall()).toMatchObject({
+      url: 'https://example.com/api/users',
+      headers: {
+        'content-type': 'application/json',
+        'x-client': 'web',
+        'x-version': '2',
+      },
+    });
+  });
+
+  it('按顺序执行请求拦截器，支持异步拦截器', async () => {
+    const transport = createMockTransport().get('/api/me', { body: {} });
+    const order: string[] = [];
+    const client = createFetchClient({
+      transport,
+      interceptors: {
+        request: [
+          async config => {
+            order.push('auth');
+            return {
+              ...config,
+              headers: { ...config.headers, Authorization: 'Bearer token' },
+            };
+          },
+          config => {
+            order.push('trace');
+            return { ...config, params: { trace: '1' } };
+          },
+        ],
+      },
+    });
+
+    await client.request('/api/me');
+
+    expect(order).toEqual(['auth', 'trace']);
+    expect(transport.lastCall()).toMatchObject({
+      query: { trace: '1' },
+      headers: { authorization: 'Bearer token' },
+    });
+  });
+
+  it('响应拦截器可以刷新令牌后重新发送请求，重新发送的请求会再次经过请求拦截器', async () => {
+    let token = 'expired';
+    const transport = createMockTransport().get('/api/me', request =>
+      request.headers.authorization === 'Bearer fresh'
+        ? { body: { name: 'Alice' } }
+        : { status: 401 }
+    );
+    const client = createFetchClient({
+      transport,
+      interceptors: {
+        request: [
+          config => ({
+            ...config,
+            headers: { ...config.headers, Authorization: `Bearer ${token}` },
+          }),
+        ],
+        response: [
+          {
+            onResponse: (response, { retry }) => {
+              if (response.status !== 401) {
+                return response;
+              }
+              token = 'fresh';
+              return retry();
+            },
+          },
+        ],
+      },
+    });
+
+    await expect(client.request('/api/me')).resolves.toEqual({
+      name: 'Alice',
+    });
+    expect(transport.getCalls()).toHaveLength(2);
+  });
+
+  it('数据拦截器转换解析后的数据，错误拦截器可以替换抛出的错误', async () => {
+    const transport = createMockTransport()
+      .get('/api/users', { body: { items: [1, 2] } })
+      .get('/api/broken', { status: 500 });
+    const client = createFetchClient({
+      transport,
+      interceptors: {
+        response: [
+          { onData: data => data.items },
+          {
+            onError: error =>
+              error instanceof HttpError
+                ? new Error(`Request failed with ${error.status}`)
+                : error,
+          },
+        ],
+      },
+    });
+
+    await expect(client.request('/api/users')).resolves.toEqual([1, 2]);
+    await expect(client.request('/api/broken')).rejects.toThrow(
+      'Request failed with 500'
+    );
+  });
+
+  it('取消的请求不经过错误拦截器', async () => {
+    const transport = createMockTransport().get(
+      '/api/slow',
+      { body: {} },
+      { delay: 1000 }
+    );
+    const onError = jest.fn((error: Error) => error);
+    const client = createFetchClient({
+      transport,
+      interceptors: { response: [{ onError }] },
+    });
+    const controller = new AbortController();
+
+    const promise = client.request('/api/slow', {}, controller.signal);
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  useClientFetch,
+  UseFetchReturn,
+  UseSuspenseFetchReturn,
+} from './useFetch';
+import {
+  useClientFetchAll,
+  FetchAllRequest,
+  UseFetchAllReturn,
+} from './useFetchAll';
+import {
+  useClientInfiniteFetch,
+  UseInfiniteFetchOptions,
+  UseInfiniteFetchReturn,
+} from './useInfiniteFetch';
+import {
+  useClientPagination,
+  UsePaginationOptions,
+  UsePaginationReturn,
+} from './usePagination';
+import {
+  useClientEventSource,
+  UseEventSourceOptions,
+  UseEventSourceReturn,
+} from './useEventSource';
+import {
+  useClientGraphQL,
+  UseGraphQLOptions,
+  UseGraphQLReturn,
+} from './useGraphQL';
+import { createPrefetch, PrefetchFunction } from './hydration';
+import {
+  FetchOptions,
+  FetchClientConfig,
+  RequestFunction,
+  createRequest,
+} from './request';
+
+/**
+ * 请求客户端
+ */
+export interface FetchClient {
+  /** 客户端配置 */
+  config: FetchClientConfig;
+  /** 直接发送请求，不经过React状态管理 */
+  request: RequestFunction;
+  /** 预取请求到客户端使用的查询缓存 */
+  prefetch: PrefetchFunction;
+  /** 绑定了客户端配置的useFetch */
+  useFetch: <T = any, TSelected = T>(
+    initialUrl?: string,
+    initialOptions?: FetchOptions<T, TSelected>,
+    immediate?: boolean
+  ) => UseFetchReturn<TSelected>;
+  /** 绑定了客户端配置的useSuspenseFetch */
+  useSuspenseFetch: <T = any, TSelected = T>(
+    url: string,
+    options?: FetchOptions<T, TSelected>
+  ) => UseSuspenseFetchReturn<TSelected>;
+  /** 绑定了客户端配置的useFetchAll */
+  useFetchAll: <T = any>(
+    requests: FetchAllRequest<T>[]
+  ) => UseFetchAllReturn<T>;
+  /** 绑定了客户端配置的useInfiniteFetch */
+  useInfiniteFetch: <TPage = any, TPageParam = any>(
+    url: string,
+    options: UseInfiniteFetchOptions<TPage, TPageParam>
+  ) => UseInfiniteFetchReturn<TPage, TPageParam>;
+  /** 绑定了客户端配置的usePagination */
+  usePagination: <T = any>(
+    url: string,
+    options?: UsePaginationOptions<T>
+  ) => UsePaginationReturn<T>;
+  /** 绑定了客户端配置的useEventSource，fetch传输方式下会执行请求拦截器 */
+  useEventSource: <TEvents extends Record<string, any> = Record<string, any>>(
+    url: string,
+    options?: UseEventSourceOptions<TEvents>
+  ) => UseEventSourceReturn<TEvents>;
+  /** 绑定了客户端配置的useGraphQL */
+  useGraphQL: <
+    TData = any,
+    TVariables extends Record<string, any> = Record<string, any>,
+    TSelected = TData,
+  >(
+    query: string,
+    variables?: TVariables,
+    options?: UseGraphQLOptions<TData, TSelected>
+  ) => UseGraphQLReturn<TSelected, TVariables>;
+}
+
+/**
+ * 创建请求客户端
+ * @param config - 客户端配置
+ * @returns 包含请求函数和绑定了配置的Hooks的客户端
+ */
+function createFetchClient(config: FetchClientConfig = {}): FetchClient {
+  const request = createRequest(config);
+
+  function useFetch<T = any, TSelected = T>(
+    initialUrl?: string,
+    initialOptions?: FetchOptions<T, TSelected>,
+    immediate = false
+  ): UseFetchReturn<TSelected> {
+    return useClientFetch<T, TSelected>(
+      request,
+      config,
+      initialUrl,
+      initialOptions,
+      immediate
+    );
+  }
+
+  function useSuspenseFetch<T = any, TSelected = T>(
+    url: string,
+    options?: FetchOptions<T, TSelected>
+  ): UseSuspenseFetchReturn<TSelected> {
+    return useClientFetch<T, TSelected>(request, config, url, {
+      ...options,
+      suspense: true,
+    }) as UseSuspenseFetchReturn<TSelected>;
+  }
+
+  function useFetchAll<T = any>(
+    requests: FetchAllRequest<T>[]
+  ): UseFetchAllReturn<T> {
+    return useClientFetchAll<T>(request, config, requests);
+  }
+
+  function useInfiniteFetch<TPage = any, TPageParam = any>(
+    url: string,
+    options: UseInfiniteFetchOptions<TPage, TPageParam>
+  ): UseInfiniteFetchReturn<TPage, TPageParam> {
+    return useClientInfiniteFetch<TPage, TPageParam>(request, url, options);
+  }
+
+  function usePagination<T = any>(
+    url: string,
+    options?: UsePaginationOptions<T>
+  ): UsePaginationReturn<T> {
+    return useClientPagination<T>(request, config, url, options);
+  }
+
+  function useEventSource<
+    TEvents extends Record<string, any> = Record<string, any>,
+  >(
+    url: string,
+    options?: UseEventSourceOptions<TEvents>
+  ): UseEventSourceReturn<TEvents> {
+    return useClientEventSource<TEvents>(config, url, options);
+  }
+
+  function useGraphQL<
+    TData = any,
+    TVariables extends Record<string, any> = Record<string, any>,
+    TSelected = TData,
+  >(
+    query: string,
+    variables?: TVariables,
+    options?: UseGraphQLOptions<TData, TSelected>
+  ): UseGraphQLReturn<TSelected, TVariables> {
+    return useClientGraphQL<TData, TVariables, TSelected>(
+      request,
+      config,
+      query,
+      variables,
+      options
+    );
+  }
+
+  return {
+    config,
+    request,
+    prefetch: createPrefetch(request, config),
+    useFetch,
+    useSuspenseFetch,
+    useFetchAll,
+    useInfiniteFetch,
+    usePagination,
+    useEventSource,
+    useGraphQL,
+  };
+}
+
+export { createFetchClient };
@@ -0,0 +1,104 @@
+/**
+ * defineApi的类型测试，由type-check检查，不会被Jest执行
+ */
+import { defineApi, typed } from './defineApi';
+
+/**
+ * 两个类型完全相同时为true
+ */
+type Equal<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+    ? true
+    : false;
+
+/**
+ * 类型断言，类型参数不为true时type-check报错
+ */
+function expectType<T extends true>(): T | void {}
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const api = defineApi({
+  getUser: { path: '/users/:id', response: typed<User>() },
+  listUsers: {
+    path: '/users',
+    params: typed<{ page: number }>(),
+    response: typed<User[]>(),
+  },
+  getSettings: {
+    path: '/settings',
+    response: (data: unknown) => data as { theme: string },
+  },
+  updateUser: {
+    method: 'PUT',
+    path: '/users/:id',
+    data: typed<Partial<User>>(),
+    response: typed<User>(),
+  },
+});
+
+function useFetchTypes(userId?: number) {
+  const user = api.getUser.useFetch({ id: 1 });
+  expectType<Equal<typeof user.data, User | null>>();
+
+  const name = api.getUser.useFetch({ id: 1 }, { select: data => data.name });
+  expectType<Equal<typeof name.data, string | null>>();
+
+  // 可以传入enabled和其他useFetch选项
+  api.getUser.useFetch(
+    { id: userId! },
+    {
+      enabled: userId !== undefined,
+      staleTime: 1000,
+      refetchOnWindowFocus: true,
+    }
+  );
+
+  const settings = api.getSettings.useFetch();
+  expectType<Equal<typeof settings.data, { theme: string } | null>>();
+
+  const list = api.listUsers.useFetch({ params: { page: 1 } }, { retry: 2 });
+  expectType<Equal<typeof list.data, User[] | null>>();
+
+  const suspense = api.getUser.useSuspenseFetch({ id: 1 });
+  expectType<Equal<typeof suspense.data, User>>();
+
+  // @ts-expect-error 缺少路径参数
+  api.getUser.useFetch({});
+  // @ts-expect-error 缺少必填的查询参数
+  api.listUsers.useFetch();
+  // @ts-expect-error 方法由接口定义决定
+  api.getUser.useFetch({ id: 1 }, { method: 'POST' });
+  // @ts-expect-error 响应数据类型不匹配
+  api.getUser.useFetch({ id: 1 }, { select: (data: string) => data });
+}
+
+function useMutationTypes() {
+  const { mutate, data } = api.updateUser.useMutation({
+    onSuccess: user => {
+      expectType<Equal<typeof user, User>>();
+    },
+  });
+  expectType<Equal<typeof data, User | null>>();
+
+  mutate({ id: 1, data: { name: 'New name' } });
+  // @ts-expect-error 缺少请求体
+  mutate({ id: 1 });
+}
+
+async function requestTypes() {
+  const user = await api.getUser.request({ id: 1 }, { timeout: 1000 });
+  expectType<Equal<typeof user, User>>();
+  expectType<Equal<ReturnType<typeof api.getUser.url>, string>>();
+
+  await api.listUsers.prefetch({ params: { page: 1 } });
+  // @ts-expect-error 查询参数类型不匹配
+  await api.listUsers.prefetch({ params: { page: '1' } });
+  // @ts-expect-error 接口名称不存在
+  await api.getUsers.request();
+}
+
+export { useFetchTypes, useMutationTypes, requestTypes };
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment ./jest.jsdom-environment.cjs
+ */
+import { renderHook, act, waitFor, cleanup } from '@testing-library/react';
+import { defineApi, typed, ApiClient } from './defineApi';
+import { createQueryCache, QueryCache } from './queryCache';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+describe('defineApi', () => {
+  let queryCache: QueryCache;
+  let client: ApiClient & { request: jest.Mock };
+
+  beforeEach(() => {
+    queryCache = createQueryCache();
+    client = {
+      config: { queryCache },
+      request: jest.fn(async (url: string) => ({ id: 1, name: url })),
+    };
+  });
+
+  // 先卸载组件再清空缓存，避免清空时更新已结束测试的组件
+  afterEach(() => {
+    cleanup();
+    queryCache.clear();
+  });
+
+  /**
+   * 创建测试用的类型化客户端
+   */
+  function createApi() {
+    return defineApi(
+      {
+        getUser: { path: '/users/:id', response: typed<User>() },
+        listUsers: {
+          path: '/users',
+          params: typed<{ page: number }>(),
+          response: typed<User[]>(),
+        },
+        updateUser: {
+          method: 'PUT',
+          path: '/users/:id',
+          data: typed<Partial<User>>(),
+          response: typed<User>(),
+        },
+      },
+      client
+    );
+  }
+
+  it('替换并编码路径参数，缺少路径参数时抛出错误', () => {
+    const api = createApi();
+
+    expect(api.getUser.url({ id: 'a/b' })).toBe('/users/a%2Fb');
+    expect(() => api.getUser.url({} as any)).toThrow(
+      'Missing path parameter "id" for /users/:id'
+    );
+  });
+
+  it('生成的useFetch挂载后立即请求，并传入查询参数和请求选项', async () => {
+    const api = createApi();
+    const { result } = renderHook(() =>
+      api.listUsers.useFetch(
+        { params: { page: 2 } },
+        { headers: { 'X-Test': '1' } }
+      )
+    );
+
+    await waitFor(() => expect(result.current.status).toBe('success'));
+    expect(client.request).toHaveBeenCalledTimes(1);
+    expect(client.request).toHaveBeenCalledWith(
+      '/users',
+      expect.objectContaining({
+        method: 'GET',
+        params: { page: 2 },
+        headers: { 'X-Test': '1' },
+      }),
+      expect.anything()
+    );
+  });
+
+  it('enabled为false时不请求，路径参数未就绪也不会抛出错误', async () => {
+    const api = createApi();
+    const { result, rerender } = renderHook(
+      ({ id }: { id?: number }) =>
+        api.getUser.useFetch({ id: id! }, { enabled: id !== undefined }),
+      { initialProps: {} as { id?: number } }
+    );
+
+    await act(() => Promise.resolve());
+    expect(result.current.status).toBe('idle');
+    expect(client.request).not.toHaveBeenCalled();
+
+    rerender({ id: 7 });
+
+    await waitFor(() => expect(result.current.status).toBe('success'));
+    expect(client.request).toHaveBeenCalledTimes(1);
+    expect(client.request.mock.calls[0][0]).toBe('/users/7');
+    expect(result.current.data).toEqual({ id: 1, name: '/users/7' });
+  });
+
+  it('启用时缺少路径参数仍然抛出错误', () => {
+    const api = createApi();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      renderHook(() => api.getUser.useFetch({} as { id: number }))
+    ).toThrow('Missing path parameter "id" for /users/:id');
+
+    jest.restoreAllMocks();
+  });
+
+  it('使用校验器校验响应，校验失败的错误作为请求错误', async () => {
+    const parse = jest.fn((data: any) => {
+      if (typeof data.id !== 'number') {
+        throw new Error('Invalid user');
+      }
+      return { ...data, validated: true };
+    });
+    const api = defineApi(
+      { getUser: { path: '/users/:id', response: parse } },
+      client
+    );
+
+    await expect(api.getUser.request({ id: 1 })).resolves.toEqual({
+      id: 1,
+      name: '/users/1',
+      validated: true,
+    });
+
+    client.request.mockResolvedValueOnce({ id: 'x' });
+    const { result } = renderHook(() => api.getUser.useFetch({ id: 2 }));
+
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    expect(result.current.error?.message).toBe('Invalid user');
+    expect(
+      queryCache.getQueryData(JSON.stringify(['GET', '/users/2', []]))
+    ).toBeNull();
+  });
+
+  it('生成的useMutation以变量对象发送请求体', async () => {
+    const api = createApi();
+    const onSuccess = jest.fn();
+    const { result } = renderHook(() =>
+      api.updateUser.useMutation({ onSuccess })
+    );
+
+    await act(() =>
+      result.current.mutateAsync({ id: 3, data: { name: 'New name' } })
+    );
+
+    expect(client.request).toHaveBeenCalledWith(
+      '/users/3',
+      expect.objectContaining({ method: 'PUT', data: { name: 'New name' } }),
+      expect.anything()
+    );
+    expect(onSuccess).toHaveBeenCalledWith(
+      { id: 1, name: '/users/3' },
+      { id: 3, data: { name: 'New name' } },
+      undefined
+    );
+  });
+});
@@ -0,0 +1,355 @@
+import {
+  useClientFetch,
+  UseFetchReturn,
+  UseSuspenseFetchReturn,
+  defaultRequest,
+  DEFAULT_CLIENT_CONFIG,
+} from './useFetch';
+import {
+  useMutation as useBaseMutation,
+  UseMutationOptions,
+  UseMutationReturn,
+} from './useMutation';
+import { createPrefetch, PrefetchOptions } from './hydration';
+import {
+  HttpMethod,
+  FetchOptions,
+  FetchClientConfig,
+  RequestFunction,
+} from './request';
+
+declare const typeMarker: unique symbol;
+
+/**
+ * 只在类型层面声明数据类型的标记，由typed创建
+ */
+export interface TypeMarker<T> {
+  readonly [typeMarker]?: T;
+}
+
+/**
+ * 响应校验器：校验函数或带parse方法的对象（例如zod模式），校验失败时应抛出错误
+ */
+export type ResponseValidator<T> =
+  ((data: unknown) => T) | { parse: (data: unknown) => T };
+
+/**
+ * 接口定义
+ */
+export interface RouteDefinition {
+  /** HTTP方法，默认为GET */
+  method?: HttpMethod;
+  /** 请求路径，以冒号开头的片段为路径参数，例如/users/:id */
+  path: string;
+  /** 查询参数的类型 */
+  params?: TypeMarker<unknown>;
+  /** 请求体的类型 */
+  data?: TypeMarker<unknown>;
+  /** 响应数据的类型或校验器，传入校验器时会在运行时校验响应 */
+  response?: TypeMarker<unknown> | ResponseValidator<unknown>;
+}
+
+/**
+ * 从路径中提取路径参数名称
+ */
+type PathParamNames<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<`/${Rest}`>
+    : TPath extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+/**
+ * 路径参数
+ */
+export type PathParams<TPath extends string> = {
+  [K in PathParamNames<TPath>]: string | number;
+};
+
+/**
+ * 接口的响应数据类型，未声明时为unknown
+ */
+export type ApiResponse<TRoute extends RouteDefinition> = TRoute extends {
+  response: infer TSchema;
+}
+  ? TSchema extends (data: unknown) => infer T
+    ? T
+    : TSchema extends { parse: (data: unknown) => infer T }
+      ? T
+      : TSchema extends TypeMarker<infer T>
+        ? T
+        : unknown
+  : unknown;
+
+/**
+ * 调用接口的变量：路径参数与params、data放在同一个对象中
+ */
+export type ApiVariables<TRoute extends RouteDefinition> = PathParams<
+  TRoute['path']
+> &
+  (TRoute extends { params: TypeMarker<infer TParams> }
+    ? { params: TParams }
+    : { params?: FetchOptions['params'] }) &
+  (TRoute extends { data: TypeMarker<infer TData> }
+    ? { data: TData }
+    : unknown);
+
+/**
+ * 变量参数，没有必填字段时可以省略
+ */
+type VariablesArgs<TRoute extends RouteDefinition> =
+  {} extends ApiVariables<TRoute>
+    ? [variables?: ApiVariables<TRoute>]
+    : [variables: ApiVariables<TRoute>];
+
+/**
+ * 接口调用的参数
+ */
+type ApiArgs<TRoute extends RouteDefinition, TOptions> =
+  {} extends ApiVariables<TRoute>
+    ? [variables?: ApiVariables<TRoute>, options?: TOptions]
+    : [variables: ApiVariables<TRoute>, options?: TOptions];
+
+/**
+ * 调用接口时的请求选项，方法、查询参数和请求体由接口定义和变量决定
+ */
+export type ApiRequestOptions<TData = any, TSelected = TData> = Omit<
+  FetchOptions<TData, TSelected>,
+  'method' | 'params' | 'data'
+>;
+
+/**
+ * 预取接口时的选项，可以指定写入的查询缓存
+ */
+export type ApiPrefetchOptions = ApiRequestOptions &
+  Pick<PrefetchOptions, 'queryCache'>;
+
+/**
+ * 由接口定义生成的类型化接口
+ */
+export interface ApiEndpoint<TRoute extends RouteDefinition> {
+  /** 接口定义 */
+  route: TRoute;
+  /** 替换路径参数后的URL */
+  url: (...args: VariablesArgs<TRoute>) => string;
+  /** 直接发送请求，不经过React状态管理 */
+  request: (
+    ...args: ApiArgs<TRoute, ApiRequestOptions>
+  ) => Promise<ApiResponse<TRoute>>;
+  /** 预取请求到查询缓存，失败时不会抛出 */
+  prefetch: (...args: ApiArgs<TRoute, ApiPrefetchOptions>) => Promise<void>;
+  /** 挂载和变量变化时自动请求的useFetch */
+  useFetch: <TSelected = ApiResponse<TRoute>>(
+    ...args: ApiArgs<TRoute, ApiRequestOptions<ApiResponse<TRoute>, TSelected>>
+  ) => UseFetchReturn<TSelected>;
+  /** 配合Suspense使用的useFetch */
+  useSuspenseFetch: <TSelected = ApiResponse<TRoute>>(
+    ...args: ApiArgs<TRoute, ApiRequestOptions<ApiResponse<TRoute>, TSelected>>
+  ) => UseSuspenseFetchReturn<TSelected>;
+  /** 以变量作为参数的useMutation，适用于写操作 */
+  useMutation: <TContext = unknown>(
+    options?: UseMutationOptions<
+      ApiResponse<TRoute>,
+      ApiVariables<TRoute>,
+      TContext
+    >
+  ) => UseMutationReturn<ApiResponse<TRoute>, ApiVariables<TRoute>>;
+}
+
+/**
+ * 由接口定义映射生成的类型化客户端
+ */
+export type Api<TRoutes extends Record<string, RouteDefinition>> = {
+  [K in keyof TRoutes]: ApiEndpoint<TRoutes[K]>;
+};
+
+/**
+ * defineApi使用的请求客户端，可以直接传入createFetchClient创建的客户端
+ */
+export interface ApiClient {
+  /** 客户端配置 */
+  config: FetchClientConfig;
+  /** 请求函数 */
+  request: RequestFunction;
+}
+
+/**
+ * 声明数据类型，只用于类型推导，运行时不做校验
+ * @returns 类型标记
+ */
+function typed<T>(): TypeMarker<T> {
+  return {};
+}
+
+/**
+ * 替换路径中的路径参数
+ * @param path - 请求路径
+ * @param variables - 变量
+ * @returns 替换后的路径
+ */
+function buildPath(path: string, variables: Record<string, any> = {}): string {
+  return path.replace(/:([A-Za-z_$][\w$]*)/g, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * 替换路径中的路径参数，缺少路径参数时返回undefined
+ * @param path - 请求路径
+ * @param variables - 变量
+ * @returns 替换后的路径
+ */
+function tryBuildPath(
+  path: string,
+  variables?: Record<string, any>
+): string | undefined {
+  try {
+    return buildPath(path, variables);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 使用校验器校验响应数据，未设置校验器时原样返回
+ * @param response - 接口定义中的响应类型或校验器
+ * @param data - 响应数据
+ * @returns 校验后的数据
+ */
+function validateResponse(
+  response: RouteDefinition['response'],
+  data: unknown
+): unknown {
+  if (typeof response === 'function') {
+    return response(data);
+  }
+  if (response && 'parse' in response && typeof response.parse === 'function') {
+    return response.parse(data);
+  }
+  return data;
+}
+
+/**
+ * 根据接口定义创建类型化接口
+ * @param route - 接口定义
+ * @param client - 请求客户端
+ * @returns 类型化接口
+ */
+function createEndpoint<TRoute extends RouteDefinition>(
+  route: TRoute,
+  client: ApiClient
+): ApiEndpoint<TRoute> {
+  type TResponse = ApiResponse<TRoute>;
+  const { method = 'GET', path, response } = route;
+  const { config } = client;
+
+  // 校验后的数据才会写入缓存
+  const request: RequestFunction = async <T = any>(
+    url: string,
+    options?: FetchOptions,
+    signal?: AbortSignal
+  ): Promise<T> =>
+    validateResponse(response, await client.request(url, options, signal)) as T;
+  const prefetchUrl = createPrefetch(request, config);
+
+  // 将变量和调用选项合并为请求选项，方法、查询参数和请求体由接口定义和变量决定
+  const toFetchOptions = <TOptions extends object>(
+    variables: Partial<Record<string, any>> = {},
+    options?: TOptions
+  ) => ({
+    ...options,
+    method,
+    params: variables.params,
+    data: variables.data,
+  });
+
+  // 禁用时路径参数可能尚未就绪，缺少路径参数时不生成URL，重新启用后再请求
+  function useFetch<TSelected = TResponse>(
+    ...[variables, options]: ApiArgs<
+      TRoute,
+      ApiRequestOptions<TResponse, TSelected>
+    >
+  ): UseFetchReturn<TSelected> {
+    const url =
+      options?.enabled === false
+        ? tryBuildPath(path, variables)
+        : buildPath(path, variables);
+    return useClientFetch<TResponse, TSelected>(
+      request,
+      config,
+      url,
+      toFetchOptions(variables, options),
+      true
+    );
+  }
+
+  function useSuspenseFetch<TSelected = TResponse>(
+    ...[variables, options]: ApiArgs<
+      TRoute,
+      ApiRequestOptions<TResponse, TSelected>
+    >
+  ): UseSuspenseFetchReturn<TSelected> {
+    return useClientFetch<TResponse, TSelected>(
+      request,
+      config,
+      buildPath(path, variables),
+      { ...toFetchOptions(variables, options), suspense: true }
+    ) as UseSuspenseFetchReturn<TSelected>;
+  }
+
+  function useMutation<TContext = unknown>(
+    options?: UseMutationOptions<TResponse, ApiVariables<TRoute>, TContext>
+  ): UseMutationReturn<TResponse, ApiVariables<TRoute>> {
+    return useBaseMutation(
+      (variables, { signal }) =>
+        request<TResponse>(
+          buildPath(path, variables),
+          toFetchOptions(variables),
+          signal
+        ),
+      options
+    );
+  }
+
+  const endpoint: ApiEndpoint<TRoute> = {
+    route,
+    url: (...[variables]) => buildPath(path, variables),
+    request: (...[variables, options]) =>
+      request<TResponse>(
+        buildPath(path, variables),
+        toFetchOptions(variables, options)
+      ),
+    prefetch: (...[variables, options]) =>
+      prefetchUrl(
+        buildPath(path, variables),
+        toFetchOptions(variables, options)
+      ),
+    useFetch,
+    useSuspenseFetch,
+    useMutation,
+  };
+  return endpoint;
+}
+
+/**
+ * 根据接口定义映射创建类型化客户端，URL、参数和响应类型都由定义推导
+ * @param routes - 接口名称到接口定义的映射
+ * @param client - 请求客户端，默认使用全局配置
+ * @returns 类型化客户端
+ */
+function defineApi<const TRoutes extends Record<string, RouteDefinition>>(
+  routes: TRoutes,
+  client: ApiClient = { config: DEFAULT_CLIENT_CONFIG, request: defaultRequest }
+): Api<TRoutes> {
+  const api = {} as Api<TRoutes>;
+  (Object.keys(routes) as Array<keyof TRoutes>).forEach(name => {
+    api[name] = createEndpoint(routes[name], client);
+  });
+  return api;
+}
+
+export { defineApi, typed };
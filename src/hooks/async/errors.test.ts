@@ -0,0 +1,89 @@
+import { createFetchClient } from './createFetchClient';
+import { createMockTransport } from './mockTransport';
+import { HttpError, TimeoutError, AbortError } from './errors';
+
+describe('请求错误', () => {
+  it('非2xx响应抛出带有状态码、响应头、URL和请求方法的HttpError', async () => {
+    const transport = createMockTransport().put('/api/users/:id', {
+      status: 409,
+      headers: { 'X-Request-Id': 'abc' },
+      body: { code: 'CONFLICT' },
+    });
+    const client = createFetchClient({
+      baseURL: 'https://example.com',
+      transport,
+    });
+
+    const error = await client
+      .request('/api/users/1', { method: 'PUT', params: { force: 'no' } })
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      name: 'HttpError',
+      message: 'HTTP Error: 409 ',
+      status: 409,
+      url: 'https://example.com/api/users/1?force=no',
+      method: 'PUT',
+    });
+    expect(error.headers.get('x-request-id')).toBe('abc');
+    expect(await error.body).toEqual({ code: 'CONFLICT' });
+  });
+
+  it('HttpError的响应体只解析一次，非JSON响应为文本', async () => {
+    const transport = createMockTransport()
+      .get('/api/text', { status: 500, body: 'Internal error' })
+      .get('/api/broken', {
+        status: 502,
+        headers: { 'Content-Type': 'application/json' },
+        body: '<html>',
+      });
+    const client = createFetchClient({ transport });
+
+    const text = await client.request('/api/text').catch(err => err);
+    const broken = await client.request('/api/broken').catch(err => err);
+
+    expect(await text.body).toBe('Internal error');
+    expect(text.body).toBe(text.body);
+    expect(await broken.body).toBe('<html>');
+  });
+
+  it('超时抛出带有超时时间、URL和请求方法的TimeoutError', async () => {
+    const transport = createMockTransport().post(
+      '/api/slow',
+      { body: {} },
+      { delay: 1000 }
+    );
+    const client = createFetchClient({ transport, timeout: 10 });
+
+    const error = await client
+      .request('/api/slow', { method: 'POST', data: {} })
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({
+      name: 'TimeoutError',
+      timeout: 10,
+      url: '/api/slow',
+      method: 'POST',
+    });
+  });
+
+  it('取消的请求抛出AbortError', async () => {
+    const transport = createMockTransport().get(
+      '/api/slow',
+      { body: {} },
+      { delay: 1000 }
+    );
+    const client = createFetchClient({ transport });
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await client
+      .request('/api/slow', {}, controller.signal)
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.name).toBe('AbortError');
+  });
+});
@@ -0,0 +1,141 @@
+import { HttpMethod } from './request';
+
+/**
+ * 响应状态码不在2xx范围内时抛出的错误
+ */
+class HttpError extends Error {
+  /** 响应状态码 */
+  readonly status: number;
+  /** 响应状态文本 */
+  readonly statusText: string;
+  /** 响应头 */
+  readonly headers: Headers;
+  /** 请求的完整URL */
+  readonly url: string;
+  /** 请求方法 */
+  readonly method: HttpMethod;
+  /** 原始响应 */
+  readonly response: Response;
+
+  private bodyPromise: Promise<any> | null = null;
+
+  constructor(response: Response, url: string, method: HttpMethod) {
+    super(`HTTP Error: ${response.status} ${response.statusText}`);
+    this.name = 'HttpError';
+    this.status = response.status;
+    this.statusText = response.statusText;
+    this.headers = response.headers;
+    this.url = url;
+    this.method = method;
+    this.response = response;
+  }
+
+  /**
+   * 响应体，首次访问时解析：JSON响应解析为对象，其他响应为文本，无法读取时为null
+   */
+  get body(): Promise<any> {
+    if (!this.bodyPromise) {
+      const contentType = this.headers.get('content-type');
+      const isJson = !!contentType && contentType.includes('application/json');
+      this.bodyPromise = this.response
+        .text()
+        .then(text => {
+          if (isJson && text) {
+            try {
+              return JSON.parse(text);
+            } catch {
+              return text;
+            }
+          }
+          return text;
+        })
+        .catch(() => null);
+    }
+    return this.bodyPromise;
+  }
+}
+
+/**
+ * 请求超时抛出的错误
+ */
+class TimeoutError extends Error {
+  /** 超时时间（毫秒） */
+  readonly timeout: number;
+  /** 请求的完整URL */
+  readonly url?: string;
+  /** 请求方法 */
+  readonly method?: HttpMethod;
+
+  constructor(timeout: number, url?: string, method?: HttpMethod) {
+    super(`Request timeout after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+    this.url = url;
+    this.method = method;
+  }
+}
+
+/**
+ * GraphQL响应中的单个错误
+ */
+export interface GraphQLErrorItem {
+  /** 错误信息 */
+  message: string;
+  /** 出错位置在查询语句中的行列 */
+  locations?: { line: number; column: number }[];
+  /** 出错字段在响应数据中的路径 */
+  path?: (string | number)[];
+  /** 服务端附加的错误信息，例如错误码 */
+  extensions?: Record<string, any>;
+}
+
+/**
+ * GraphQL响应包含errors时抛出的错误
+ */
+class GraphQLError<TData = any> extends Error {
+  /** 响应中的所有错误 */
+  readonly errors: GraphQLErrorItem[];
+  /** 出错时服务端返回的部分数据，没有时为null */
+  readonly data: TData | null;
+  /** 操作名称 */
+  readonly operationName?: string;
+  /** 请求方法，由发送操作的请求决定 */
+  readonly method?: HttpMethod;
+  /** 响应状态码，服务端以非2xx状态返回错误时存在 */
+  readonly status?: number;
+  /** 原始响应，服务端以非2xx状态返回错误时存在 */
+  readonly response?: Response;
+
+  constructor(
+    errors: GraphQLErrorItem[],
+    data: TData | null = null,
+    operationName?: string,
+    response?: Response,
+    method?: HttpMethod
+  ) {
+    super(
+      errors.length > 0
+        ? `GraphQL Error: ${errors.map(error => error.message).join('; ')}`
+        : 'GraphQL Error'
+    );
+    this.name = 'GraphQLError';
+    this.errors = errors;
+    this.data = data;
+    this.operationName = operationName;
+    this.method = method;
+    this.status = response?.status;
+    this.response = response;
+  }
+}
+
+/**
+ * 操作被取消时抛出的错误
+ */
+class AbortError extends Error {
+  constructor(message = 'The operation was aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+export { HttpError, TimeoutError, GraphQLError, AbortError };
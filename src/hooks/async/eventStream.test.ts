@@ -0,0 +1,87 @@
+import {
+  createEventStreamParser,
+  readEventStream,
+  RawStreamEvent,
+} from './eventStream';
+
+/**
+ * 创建解析器并收集解析出的事件
+ */
+function setup() {
+  const events: RawStreamEvent[] = [];
+  const retries: number[] = [];
+  const parse = createEventStreamParser({
+    onEvent: event => events.push(event),
+    onRetry: delay => retries.push(delay),
+  });
+  return { parse, events, retries };
+}
+
+describe('createEventStreamParser', () => {
+  it('解析事件名称、数据和ID', () => {
+    const { parse, events } = setup();
+    parse('event: update\nid: 42\ndata: {"a":1}\n\ndata: plain\n\n');
+
+    expect(events).toEqual([
+      { event: 'update', data: '{"a":1}', id: '42' },
+      { event: 'message', data: 'plain', id: undefined },
+    ]);
+  });
+
+  it('多行data以换行符连接', () => {
+    const { parse, events } = setup();
+    parse('data: first\ndata: second\ndata\n\n');
+
+    expect(events[0].data).toBe('first\nsecond\n');
+  });
+
+  it('忽略注释、未知字段和没有数据的事件', () => {
+    const { parse, events } = setup();
+    parse(': keep-alive\nfoo: bar\n\nevent: ping\n\ndata:no-space\n\n');
+
+    expect(events).toEqual([
+      { event: 'message', data: 'no-space', id: undefined },
+    ]);
+  });
+
+  it('片段可以在任意位置截断，包括\\r\\n之间', () => {
+    const { parse, events } = setup();
+    const stream = 'event: a\r\ndata: 1\r\n\r\ndata: 2\r\r';
+    for (const char of stream) {
+      parse(char);
+    }
+    parse('\n');
+
+    expect(events).toEqual([
+      { event: 'a', data: '1', id: undefined },
+      { event: 'message', data: '2', id: undefined },
+    ]);
+  });
+
+  it('只接受数字形式的retry，忽略包含空字符的id', () => {
+    const { parse, events, retries } = setup();
+    parse('retry: 3000\nretry: soon\nid: a\0b\ndata: x\n\n');
+
+    expect(retries).toEqual([3000]);
+    expect(events[0].id).toBeUndefined();
+  });
+});
+
+describe('readEventStream', () => {
+  it('逐块解码响应流，正确处理跨片段的多字节字符', async () => {
+    const bytes = new TextEncoder().encode('data: 你好\n\n');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // 在“你”的UTF-8编码中间截断
+        controller.enqueue(bytes.slice(0, 7));
+        controller.enqueue(bytes.slice(7));
+        controller.close();
+      },
+    });
+    const { parse, events } = setup();
+
+    await readEventStream(new Response(body), parse);
+
+    expect(events).toEqual([{ event: 'message', data: '你好', id: undefined }]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * 从事件流中解析出的原始事件
+ */
+export interface RawStreamEvent {
+  /** 事件名称，未指定时为message */
+  event: string;
+  /** 事件数据，多行data以换行符连接 */
+  data: string;
+  /** 事件ID，事件未携带id字段时为undefined */
+  id: string | undefined;
+}
+
+/**
+ * 事件流解析器的回调
+ */
+interface EventStreamHandlers {
+  /** 解析出完整事件时调用 */
+  onEvent: (event: RawStreamEvent) => void;
+  /** 服务端通过retry字段指定重连间隔时调用 */
+  onRetry?: (delay: number) => void;
+}
+
+/**
+ * 创建text/event-stream格式的增量解析器
+ * @param handlers - 解析回调
+ * @returns 接收文本片段的函数，片段可以在任意位置截断
+ */
+function createEventStreamParser(
+  handlers: EventStreamHandlers
+): (chunk: string) => void {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+  let eventId: string | undefined;
+
+  // 空行表示一个事件结束
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      handlers.onEvent({
+        event: eventName || 'message',
+        data: dataLines.join('\n'),
+        id: eventId,
+      });
+    }
+    eventName = '';
+    dataLines = [];
+    eventId = undefined;
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    // 冒号开头的行是注释，常用于保持连接
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        eventName = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          eventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          handlers.onRetry?.(Number(value));
+        }
+        break;
+    }
+  };
+
+  return chunk => {
+    buffer += chunk;
+
+    // 按\r\n、\n或\r分行，末尾不完整的行留到下一次
+    let match: RegExpExecArray | null;
+    const lineBreak = /\r\n|\n|\r/g;
+    let start = 0;
+    while ((match = lineBreak.exec(buffer)) !== null) {
+      // 末尾的\r可能是\r\n的一半，等待下一个片段
+      if (match[0] === '\r' && match.index === buffer.length - 1) {
+        break;
+      }
+      processLine(buffer.slice(start, match.index));
+      start = match.index + match[0].length;
+    }
+    buffer = buffer.slice(start);
+  };
+}
+
+/**
+ * 读取响应流并交给解析器，直到流结束或被取消
+ * @param response - text/event-stream响应
+ * @param onChunk - 接收解码后文本片段的函数
+ * @returns 流结束时完成的Promise
+ */
+async function readEventStream(
+  response: Response,
+  onChunk: (chunk: string) => void
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      onChunk(decoder.decode());
+      return;
+    }
+    onChunk(decoder.decode(value, { stream: true }));
+  }
+}
+
+export { createEventStreamParser, readEventStream };
@@ -0,0 +1,140 @@
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { createQueryCache, QueryCache } from './queryCache';
+import { QueryCacheProvider } from './queryCacheContext';
+import { createFetchClient } from './createFetchClient';
+import { createMockTransport } from './mockTransport';
+import { prefetch, dehydrate, hydrate } from './hydration';
+
+describe('服务端渲染', () => {
+  let queryCache: QueryCache;
+
+  beforeEach(() => {
+    queryCache = createQueryCache();
+  });
+
+  afterEach(() => {
+    queryCache.clear();
+  });
+
+  /**
+   * 创建返回固定用户的客户端和渲染用户名的组件
+   */
+  function createApp() {
+    const transport = createMockTransport().get('/api/me', {
+      body: { name: 'Alice' },
+    });
+    const client = createFetchClient({ transport });
+    const Profile = () => {
+      const { data, status } = client.useFetch<{ name: string }>(
+        '/api/me',
+        {},
+        true
+      );
+      return createElement('div', null, data ? data.name : status);
+    };
+    return { client, transport, Profile };
+  }
+
+  it('没有提供查询缓存时请求Hook照常渲染，不发送请求', () => {
+    const { transport, Profile } = createApp();
+
+    expect(renderToString(createElement(Profile))).toBe('<div>idle</div>');
+    expect(transport.getCalls()).toHaveLength(0);
+  });
+
+  it('没有提供查询缓存时Suspense请求不会挂起', () => {
+    const transport = createMockTransport().get('/api/me', { body: {} });
+    const client = createFetchClient({ transport });
+    const Profile = () => {
+      const { status } = client.useSuspenseFetch('/api/me');
+      return createElement('div', null, status);
+    };
+
+    expect(renderToString(createElement(Profile))).toBe('<div>idle</div>');
+    expect(transport.getCalls()).toHaveLength(0);
+  });
+
+  it('通过QueryCacheProvider渲染预取到当前请求缓存中的数据', async () => {
+    const { client, Profile } = createApp();
+
+    await client.prefetch('/api/me', { queryCache });
+    const html = renderToString(
+      createElement(QueryCacheProvider, {
+        cache: queryCache,
+        children: createElement(Profile),
+      })
+    );
+
+    expect(html).toBe('<div>Alice</div>');
+    expect(dehydrate(undefined, queryCache).queries).toEqual([
+      expect.objectContaining({ data: { name: 'Alice' } }),
+    ]);
+  });
+
+  it('不同请求的缓存互不影响', async () => {
+    const { client, Profile } = createApp();
+    const otherCache = createQueryCache();
+
+    await client.prefetch('/api/me', { queryCache });
+    const html = renderToString(
+      createElement(QueryCacheProvider, {
+        cache: otherCache,
+        children: createElement(Profile),
+      })
+    );
+
+    expect(html).toBe('<div>idle</div>');
+  });
+
+  it('服务端预取和导出必须指定查询缓存', async () => {
+    await expect(prefetch('/api/me')).rejects.toThrow(
+      'A per-request query cache is required on the server'
+    );
+    expect(() => dehydrate()).toThrow(
+      'A per-request query cache is required on the server'
+    );
+  });
+
+  it('预取失败不会抛出也不会导出，水合的数据在客户端首轮请求中直接使用', async () => {
+    const transport = createMockTransport()
+      .get('/api/me', { body: { name: 'Alice' } })
+      .get('/api/broken', { status: 500 });
+    const client = createFetchClient({ transport });
+
+    await client.prefetch('/api/me', { queryCache });
+    await expect(
+      client.prefetch('/api/broken', { queryCache })
+    ).resolves.toBeUndefined();
+    const state = JSON.parse(JSON.stringify(dehydrate(undefined, queryCache)));
+    expect(state.queries).toHaveLength(1);
+
+    const clientCache = createQueryCache();
+    hydrate(state, clientCache);
+    const fetcher = jest.fn(async () => ({ name: 'Bob' }));
+
+    await expect(
+      clientCache.fetchQuery(state.queries[0].key, fetcher)
+    ).resolves.toEqual({ name: 'Alice' });
+    expect(fetcher).not.toHaveBeenCalled();
+    clientCache.clear();
+  });
+
+  it('hydrate写入指定的缓存，不覆盖更新的数据', () => {
+    queryCache.setQueryData('a', 'fresh');
+    const { updatedAt } = queryCache.getQueryState('a');
+
+    hydrate(
+      {
+        queries: [
+          { key: 'a', data: 'stale', updatedAt: updatedAt - 1 },
+          { key: 'b', data: 'hydrated', updatedAt },
+        ],
+      },
+      queryCache
+    );
+
+    expect(queryCache.getQueryData('a')).toBe('fresh');
+    expect(queryCache.getQueryData('b')).toBe('hydrated');
+  });
+});
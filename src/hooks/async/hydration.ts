@@ -0,0 +1,92 @@
+import {
+  QueryCache,
+  QueryFilter,
+  DehydratedState,
+  resolveQueryCache,
+  requireQueryCache,
+} from './queryCache';
+import {
+  FetchOptions,
+  FetchClientConfig,
+  RequestFunction,
+  getQueryKey,
+} from './request';
+import { defaultRequest, DEFAULT_CLIENT_CONFIG } from './useFetch';
+
+/**
+ * 预取请求的选项
+ */
+export interface PrefetchOptions extends FetchOptions {
+  /** 写入的查询缓存，默认为客户端配置的缓存；服务端没有配置缓存时必须为每个请求指定 */
+  queryCache?: QueryCache;
+}
+
+/**
+ * 预取请求的函数
+ */
+export type PrefetchFunction = (
+  url: string,
+  options?: PrefetchOptions
+) => Promise<void>;
+
+/**
+ * 创建预取函数，请求结果写入指定的或客户端使用的查询缓存
+ * @param request - 请求函数
+ * @param clientConfig - 客户端配置
+ * @returns 预取函数
+ */
+function createPrefetch(
+  request: RequestFunction,
+  clientConfig: FetchClientConfig
+): PrefetchFunction {
+  return async (url, options = {}) => {
+    const { queryCache: cache, ...fetchOptions } = options;
+    const queryCache = requireQueryCache(cache ?? clientConfig.queryCache);
+    const key = getQueryKey(url, {
+      baseURL: clientConfig.baseURL,
+      ...fetchOptions,
+    });
+    if (!key) {
+      throw new Error('prefetch requires a cacheable request');
+    }
+
+    await queryCache
+      .fetchQuery(key, signal => request(url, fetchOptions, signal), {
+        staleTime: fetchOptions.staleTime,
+        cacheTime: fetchOptions.cacheTime,
+      })
+      .catch(() => {
+        // 错误已写入缓存状态，不会被导出
+      });
+  };
+}
+
+/**
+ * 预取请求到查询缓存，通常在服务端渲染前调用，失败时不会抛出；
+ * 服务端必须通过queryCache选项传入为当前请求创建的缓存
+ */
+const prefetch = createPrefetch(defaultRequest, DEFAULT_CLIENT_CONFIG);
+
+/**
+ * 导出缓存中已加载的数据，结果可以序列化为JSON后嵌入页面
+ * @param filter - 匹配条件，默认导出全部
+ * @param queryCache - 查询缓存，浏览器中默认为全局缓存，服务端必须指定
+ * @returns 可序列化的缓存数据
+ */
+function dehydrate(
+  filter?: QueryFilter,
+  queryCache?: QueryCache
+): DehydratedState {
+  return requireQueryCache(queryCache).dehydrate(filter);
+}
+
+/**
+ * 将导出的数据写入缓存，应在客户端首次渲染前调用
+ * @param state - dehydrate导出的数据
+ * @param queryCache - 查询缓存，默认为全局缓存
+ */
+function hydrate(state: DehydratedState, queryCache?: QueryCache) {
+  resolveQueryCache(queryCache).hydrate(state);
+}
+
+export { createPrefetch, prefetch, dehydrate, hydrate };
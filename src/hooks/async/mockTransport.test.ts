@@ -0,0 +1,118 @@
+import { createMockTransport } from './mockTransport';
+import { createFetchClient } from './createFetchClient';
+import { HttpError } from './errors';
+
+describe('createMockTransport', () => {
+  it('按方法和路径模板匹配路由，并记录请求', async () => {
+    const transport = createMockTransport().get('/api/users/:id', request => ({
+      body: { id: request.params.id, tab: request.query.tab },
+    }));
+
+    const response = await transport('/api/users/7?tab=posts');
+
+    expect(await response.json()).toEqual({ id: '7', tab: 'posts' });
+    expect(transport.lastCall('GET', '/api/users/:id')).toMatchObject({
+      path: '/api/users/7',
+      params: { id: '7' },
+    });
+  });
+
+  it('解析JSON请求体', async () => {
+    const transport = createMockTransport().post('/api/users', { status: 201 });
+
+    const response = await transport('/api/users', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Alice' }),
+    });
+
+    expect(response.status).toBe(201);
+    expect(transport.lastCall()?.body).toEqual({ name: 'Alice' });
+  });
+
+  it('后注册的路由优先，times用完后回落到之前的路由', async () => {
+    const transport = createMockTransport()
+      .put('/api/users/:id', { body: 'saved' })
+      .put('/api/users/:id', { status: 409 }, { times: 1 });
+
+    const first = await transport('/api/users/1', { method: 'PUT' });
+    const second = await transport('/api/users/1', { method: 'PUT' });
+
+    expect(first.status).toBe(409);
+    expect(await second.text()).toBe('saved');
+    expect(transport.getCalls('PUT')).toHaveLength(2);
+  });
+
+  it('没有匹配的路由时以错误结束', async () => {
+    const transport = createMockTransport();
+
+    await expect(transport('/missing')).rejects.toThrow(
+      'No mock route matches GET /missing'
+    );
+  });
+
+  it('静态Response每次返回新的副本，响应体可以重复读取', async () => {
+    const transport = createMockTransport().get(
+      '/api/config',
+      new Response('{"a":1}', {
+        headers: { 'content-type': 'application/json' },
+      })
+    );
+
+    const first = await transport('/api/config');
+    const second = await transport('/api/config');
+
+    expect(await first.json()).toEqual({ a: 1 });
+    expect(await second.json()).toEqual({ a: 1 });
+  });
+
+  it('静态Error每次抛出新的副本，保留类型和附加字段', async () => {
+    const error = Object.assign(new TypeError('Failed to fetch'), {
+      code: 'ECONNRESET',
+    });
+    const transport = createMockTransport().get('/api/data', error);
+    const client = createFetchClient({ transport });
+
+    const errors = await Promise.all([
+      client.request('/api/data').catch(err => err),
+      client.request('/api/data', { method: 'GET' }).catch(err => err),
+    ]);
+
+    expect(errors[0]).not.toBe(errors[1]);
+    expect(errors[0]).not.toBe(error);
+    errors.forEach(thrown => {
+      expect(thrown).toBeInstanceOf(TypeError);
+      expect(thrown).toMatchObject({
+        message: 'Failed to fetch',
+        code: 'ECONNRESET',
+        method: 'GET',
+      });
+    });
+    expect(error).not.toHaveProperty('method');
+  });
+
+  it('配合请求客户端返回HTTP错误', async () => {
+    const transport = createMockTransport().get('/api/secret', {
+      status: 403,
+      body: { message: 'forbidden' },
+    });
+    const client = createFetchClient({ transport });
+
+    const error = await client.request('/api/secret').catch(err => err);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(403);
+    expect(await error.body).toEqual({ message: 'forbidden' });
+  });
+
+  it('请求被取消时以AbortError结束', async () => {
+    const transport = createMockTransport({ delay: 1000 }).get('/api/slow', {
+      body: 'late',
+    });
+    const controller = new AbortController();
+
+    const pending = transport('/api/slow', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
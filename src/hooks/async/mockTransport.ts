@@ -0,0 +1,413 @@
+import { HttpMethod, FetchTransport } from './request';
+import { sleep } from './abort';
+import { AbortError } from './errors';
+
+/**
+ * 传输层收到的请求
+ */
+export interface MockRequest {
+  /** 请求方法 */
+  method: HttpMethod;
+  /** 完整的请求URL */
+  url: string;
+  /** 不含查询字符串的路径 */
+  path: string;
+  /** 路由中以冒号开头的路径参数 */
+  params: Record<string, string>;
+  /** 查询参数 */
+  query: Record<string, string>;
+  /** 请求头 */
+  headers: Record<string, string>;
+  /** 请求体，JSON会被解析，其他数据原样保留 */
+  body: any;
+}
+
+/**
+ * 模拟的响应
+ */
+export interface MockResponseInit {
+  /** 状态码，默认为200 */
+  status?: number;
+  /** 响应头 */
+  headers?: Record<string, string>;
+  /** 响应体，字符串和二进制数据原样返回，其他数据序列化为JSON */
+  body?: any;
+  /** 额外的响应延迟（毫秒） */
+  delay?: number;
+}
+
+/**
+ * 路由的处理方式：模拟的响应、Response对象、模拟网络错误的Error对象，或根据请求动态返回它们的函数
+ */
+export type MockHandler =
+  | MockResponseInit
+  | Response
+  | Error
+  | ((
+      request: MockRequest
+    ) => MockResponseInit | Response | Promise<MockResponseInit | Response>);
+
+/**
+ * 路由匹配规则：路径模板（支持:param和*）、完整URL模板或正则表达式，正则表达式的捕获组按序号作为路径参数
+ */
+export type MockPattern = string | RegExp;
+
+/**
+ * 注册路由时的选项
+ */
+export interface MockRouteOptions {
+  /** 该路由的响应延迟（毫秒），覆盖默认延迟 */
+  delay?: number;
+  /** 匹配的次数，用完后不再匹配，默认不限 */
+  times?: number;
+}
+
+/**
+ * 模拟传输层的配置选项
+ */
+export interface MockTransportOptions {
+  /** 所有响应的默认延迟（毫秒），默认为0 */
+  delay?: number;
+  /** 没有匹配的路由时使用的传输层，默认以错误结束 */
+  fallback?: FetchTransport;
+}
+
+/**
+ * 模拟传输层，可以作为FetchClientConfig.transport使用
+ */
+export interface MockTransport extends FetchTransport {
+  /** 注册路由，后注册的路由优先匹配 */
+  on: (
+    method: HttpMethod | '*',
+    pattern: MockPattern,
+    handler: MockHandler,
+    options?: MockRouteOptions
+  ) => MockTransport;
+  /** 注册GET路由 */
+  get: (
+    pattern: MockPattern,
+    handler: MockHandler,
+    options?: MockRouteOptions
+  ) => MockTransport;
+  /** 注册POST路由 */
+  post: (
+    pattern: MockPattern,
+    handler: MockHandler,
+    options?: MockRouteOptions
+  ) => MockTransport;
+  /** 注册PUT路由 */
+  put: (
+    pattern: MockPattern,
+    handler: MockHandler,
+    options?: MockRouteOptions
+  ) => MockTransport;
+  /** 注册PATCH路由 */
+  patch: (
+    pattern: MockPattern,
+    handler: MockHandler,
+    options?: MockRouteOptions
+  ) => MockTransport;
+  /** 注册DELETE路由 */
+  delete: (
+    pattern: MockPattern,
+    handler: MockHandler,
+    options?: MockRouteOptions
+  ) => MockTransport;
+  /** 所有收到的请求，按时间顺序排列 */
+  readonly calls: MockRequest[];
+  /** 筛选收到的请求，不传参数时返回全部 */
+  getCalls: (method?: HttpMethod | '*', pattern?: MockPattern) => MockRequest[];
+  /** 最近一次匹配的请求 */
+  lastCall: (
+    method?: HttpMethod | '*',
+    pattern?: MockPattern
+  ) => MockRequest | undefined;
+  /** 清空请求记录 */
+  resetCalls: () => void;
+  /** 清空路由和请求记录 */
+  reset: () => void;
+}
+
+/**
+ * 注册的路由
+ */
+interface MockRoute {
+  method: HttpMethod | '*';
+  pattern: MockPattern;
+  handler: MockHandler;
+  options: MockRouteOptions;
+  /** 已匹配的次数 */
+  matched: number;
+}
+
+/**
+ * 解析URL时使用的基础地址，相对URL只关心路径部分
+ */
+const URL_BASE = 'http://localhost';
+
+/**
+ * 转义正则表达式中的特殊字符
+ * @param value - 字符串
+ * @returns 转义后的字符串
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 将请求与匹配规则比较
+ * @param pattern - 匹配规则
+ * @param url - 完整的请求URL
+ * @returns 匹配时返回路径参数，否则返回null
+ */
+function matchPattern(
+  pattern: MockPattern,
+  url: string
+): Record<string, string> | null {
+  const parsed = new URL(url, URL_BASE);
+
+  if (pattern instanceof RegExp) {
+    const match = pattern.exec(url);
+    if (!match) {
+      return null;
+    }
+    const params: Record<string, string> = {};
+    match.slice(1).forEach((value, index) => {
+      params[index] = value;
+    });
+    return params;
+  }
+
+  // 完整URL模板与源和路径比较，路径模板只与路径比较
+  const isAbsolute = /^[a-z][a-z\d+.-]*:\/\//i.test(pattern);
+  const target = isAbsolute ? parsed.origin + parsed.pathname : parsed.pathname;
+  const names: string[] = [];
+  const source = escapeRegExp(pattern.split('?')[0])
+    .replace(/:([A-Za-z_$][\w$]*)/g, (_, name: string) => {
+      names.push(name);
+      return '([^/]+)';
+    })
+    .replace(/\*/g, '.*');
+  const match = new RegExp(`^${source}/?$`).exec(target);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  names.forEach((name, index) => {
+    params[name] = decodeURIComponent(match[index + 1]);
+  });
+  return params;
+}
+
+/**
+ * 解析请求体，JSON字符串会被解析
+ * @param body - fetch的请求体
+ * @returns 解析后的请求体
+ */
+function parseRequestBody(body: RequestInit['body']): any {
+  if (typeof body !== 'string') {
+    return body ?? null;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * 将请求头转换为普通对象
+ * @param headers - fetch的请求头
+ * @returns 请求头对象
+ */
+function toHeaderObject(
+  headers: RequestInit['headers']
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * 根据模拟的响应创建Response
+ * @param init - 模拟的响应
+ * @returns Response对象
+ */
+function createResponse(init: MockResponseInit): Response {
+  const { status = 200, headers = {}, body } = init;
+  const responseHeaders = new Headers(headers);
+
+  let responseBody: RequestInit['body'] = null;
+  if ([101, 204, 205, 304].includes(status) || body === undefined) {
+    responseBody = null;
+  } else if (typeof body === 'string') {
+    responseBody = body;
+    if (!responseHeaders.has('content-type')) {
+      responseHeaders.set('content-type', 'text/plain');
+    }
+  } else if (
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream)
+  ) {
+    responseBody = body as RequestInit['body'];
+  } else {
+    responseBody = JSON.stringify(body);
+    if (!responseHeaders.has('content-type')) {
+      responseHeaders.set('content-type', 'application/json');
+    }
+  }
+
+  return new Response(responseBody, { status, headers: responseHeaders });
+}
+
+/**
+ * 复制错误，保留原型（instanceof判断不变）以及附加的字段
+ * @param error - 原始错误
+ * @returns 新的错误对象
+ */
+function cloneError(error: Error): Error {
+  return Object.assign(
+    Object.create(Object.getPrototypeOf(error)) as Error,
+    error,
+    { message: error.message, stack: error.stack }
+  );
+}
+
+/**
+ * 创建模拟传输层，用于在测试和Storybook中离线运行请求
+ * @param options - 配置选项
+ * @returns 模拟传输层
+ */
+function createMockTransport(
+  options: MockTransportOptions = {}
+): MockTransport {
+  const { delay: defaultDelay = 0, fallback } = options;
+  // 原地修改数组，保证transport.calls始终指向同一个数组
+  const routes: MockRoute[] = [];
+  const calls: MockRequest[] = [];
+
+  const matches = (
+    request: MockRequest,
+    method: HttpMethod | '*' = '*',
+    pattern?: MockPattern
+  ) =>
+    (method === '*' || method === request.method) &&
+    (!pattern || matchPattern(pattern, request.url) !== null);
+
+  const transport = (async (url: string, init: RequestInit = {}) => {
+    const method = (init.method ?? 'GET').toUpperCase() as HttpMethod;
+    const parsed = new URL(url, URL_BASE);
+    const query: Record<string, string> = {};
+    parsed.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+
+    // 后注册的路由优先，用完次数的路由跳过
+    let route: MockRoute | undefined;
+    let params: Record<string, string> = {};
+    for (let index = routes.length - 1; index >= 0; index--) {
+      const candidate = routes[index];
+      const { times } = candidate.options;
+      if (times !== undefined && candidate.matched >= times) continue;
+      if (candidate.method !== '*' && candidate.method !== method) continue;
+      const matched = matchPattern(candidate.pattern, url);
+      if (matched) {
+        route = candidate;
+        params = matched;
+        break;
+      }
+    }
+
+    const request: MockRequest = {
+      method,
+      url,
+      path: parsed.pathname,
+      params,
+      query,
+      headers: toHeaderObject(init.headers),
+      body: parseRequestBody(init.body),
+    };
+    calls.push(request);
+
+    if (!route) {
+      if (fallback) {
+        return fallback(url, init);
+      }
+      throw new Error(`No mock route matches ${method} ${url}`);
+    }
+    route.matched++;
+
+    // 静态的错误和Response会被多次使用：请求层会修改抛出的错误，响应体只能读取一次
+    const { handler } = route;
+    const result =
+      typeof handler === 'function' ? await handler(request) : handler;
+    if (result instanceof Error) {
+      throw cloneError(result);
+    }
+
+    const responseDelay =
+      (result instanceof Response ? 0 : (result.delay ?? 0)) +
+      (route.options.delay ?? defaultDelay);
+    if (responseDelay > 0) {
+      await sleep(responseDelay, init.signal ?? undefined);
+    } else if (init.signal?.aborted) {
+      throw new AbortError();
+    }
+
+    if (result instanceof Response) {
+      return typeof handler === 'function' ? result : result.clone();
+    }
+    return createResponse(result);
+  }) as MockTransport;
+
+  const register =
+    (method: HttpMethod | '*') =>
+    (
+      pattern: MockPattern,
+      handler: MockHandler,
+      routeOptions: MockRouteOptions = {}
+    ) => {
+      routes.push({
+        method,
+        pattern,
+        handler,
+        options: routeOptions,
+        matched: 0,
+      });
+      return transport;
+    };
+
+  return Object.assign(transport, {
+    on: (
+      method: HttpMethod | '*',
+      pattern: MockPattern,
+      handler: MockHandler,
+      routeOptions?: MockRouteOptions
+    ) => register(method)(pattern, handler, routeOptions),
+    get: register('GET'),
+    post: register('POST'),
+    put: register('PUT'),
+    patch: register('PATCH'),
+    delete: register('DELETE'),
+    calls,
+    getCalls: (method?: HttpMethod | '*', pattern?: MockPattern) =>
+      calls.filter(request => matches(request, method, pattern)),
+    lastCall: (method?: HttpMethod | '*', pattern?: MockPattern) =>
+      calls.filter(request => matches(request, method, pattern)).pop(),
+    resetCalls: () => {
+      calls.length = 0;
+    },
+    reset: () => {
+      routes.length = 0;
+      calls.length = 0;
+    },
+  });
+}
+
+export { createMockTransport };
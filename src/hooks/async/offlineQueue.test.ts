@@ -0,0 +1,222 @@
+/**
+ * @jest-environment ./jest.jsdom-environment.cjs
+ */
+import { waitFor } from '@testing-library/react';
+import {
+  createOfflineQueue,
+  OfflineQueue,
+  OfflineQueueOptions,
+} from './offlineQueue';
+import { HttpError } from './errors';
+import { HttpMethod } from './request';
+import { StorageLike } from '../state/storage';
+
+/**
+ * 多个队列实例可以共享的内存存储，模拟同一来源的多个标签页
+ */
+function createMemoryStorage(): StorageLike {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * 创建附带请求方法的网络错误，与请求层抛出的错误一致
+ */
+function networkError(method: HttpMethod = 'POST') {
+  return Object.assign(new TypeError('Failed to fetch'), { method });
+}
+
+/**
+ * 创建指定状态码的HTTP错误
+ */
+function httpError(status: number) {
+  return new HttpError(new Response(null, { status }), '/api', 'PUT');
+}
+
+/**
+ * 切换navigator.onLine并触发online事件
+ */
+function setOnline(online: boolean) {
+  jest.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(online);
+  if (online) {
+    window.dispatchEvent(new Event('online'));
+  }
+}
+
+describe('createOfflineQueue', () => {
+  const queues: OfflineQueue[] = [];
+  const setup = (options: OfflineQueueOptions = {}) => {
+    const queue = createOfflineQueue({
+      storage: createMemoryStorage(),
+      retryDelay: 0,
+      ...options,
+    });
+    queues.push(queue);
+    return queue;
+  };
+
+  afterEach(() => {
+    queues.splice(0).forEach(queue => queue.dispose());
+    jest.restoreAllMocks();
+  });
+
+  it('离线时加入队列，重新连接后按顺序重放', async () => {
+    const request = jest.fn().mockResolvedValue('ok');
+    const onSuccess = jest.fn();
+    const queue = setup({ request, onSuccess });
+
+    setOnline(false);
+    await queue.mutate('/a', { method: 'POST' });
+    await queue.mutate('/b', { method: 'POST' });
+    expect(queue.getPending().map(mutation => mutation.url)).toEqual([
+      '/a',
+      '/b',
+    ]);
+    expect(request).not.toHaveBeenCalled();
+
+    setOnline(true);
+    await waitFor(() => expect(queue.getPending()).toHaveLength(0));
+    expect(request.mock.calls.map(([url]) => url)).toEqual(['/a', '/b']);
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+  });
+
+  it('在线发送失败后加入队列，并按退避延迟自动重放', async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValue('ok');
+    const queue = setup({ request });
+
+    const result = await queue.mutate('/a', { method: 'POST' });
+    expect(result).toMatchObject({
+      queued: true,
+      mutation: { attempts: 1, lastError: 'Failed to fetch' },
+    });
+
+    await waitFor(() => expect(queue.getPending()).toHaveLength(0));
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('不会把网络和超时以外的错误加入队列', async () => {
+    const request = jest.fn().mockRejectedValue(new SyntaxError('bad json'));
+    const queue = setup({ request });
+
+    await expect(queue.mutate('/a', { method: 'POST' })).rejects.toThrow(
+      'bad json'
+    );
+    expect(queue.getPending()).toHaveLength(0);
+  });
+
+  it('超过重试次数后丢弃变更并调用onError', async () => {
+    const request = jest.fn().mockRejectedValue(networkError());
+    const onError = jest.fn();
+    const queue = setup({ request, onError, retry: 2 });
+
+    await queue.mutate('/a', { method: 'POST' });
+
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(queue.getPending()).toHaveLength(0);
+  });
+
+  it('冲突后替换的请求按重试次数限制，不会无限重发', async () => {
+    const request = jest.fn().mockRejectedValue(httpError(409));
+    const onConflict = jest.fn(() => ({ options: { method: 'PUT' as const } }));
+    const onError = jest.fn();
+    const queue = setup({ request, onConflict, onError, retry: 3 });
+
+    queue.enqueue('/a', { method: 'PUT' });
+    await queue.replay();
+
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    expect(request).toHaveBeenCalledTimes(4);
+    expect(queue.getPending()).toHaveLength(0);
+  });
+
+  it('重放中断的错误记录在队列状态中', async () => {
+    const request = jest.fn().mockRejectedValue(httpError(409));
+    const queue = setup({
+      request,
+      onConflict: () => {
+        throw new Error('conflict handler failed');
+      },
+    });
+    const warn = jest.spyOn(console, 'warn');
+
+    queue.enqueue('/a', { method: 'PUT' });
+    setOnline(true);
+
+    await waitFor(() =>
+      expect(queue.getReplayError()?.message).toBe('conflict handler failed')
+    );
+    expect(queue.getPending()).toHaveLength(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('共享存储的多个实例只有一个会重放', async () => {
+    const storage = createMemoryStorage();
+    let finish!: () => void;
+    const request = jest.fn(
+      () => new Promise<void>(resolve => (finish = resolve))
+    );
+    const first = setup({ storage, request });
+    const second = setup({ storage, request });
+
+    first.enqueue('/a', { method: 'POST' });
+    const replays = [first.replay(), second.replay()];
+    expect(request).toHaveBeenCalledTimes(1);
+
+    finish();
+    await Promise.all(replays);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(first.getPending()).toHaveLength(0);
+    expect(second.getPending()).toHaveLength(0);
+  });
+
+  it('其他标签页修改队列时通知订阅者，dispose后不再通知', () => {
+    const storage = createMemoryStorage();
+    const current = setup({ storage });
+    const other = setup({ storage });
+    const listener = jest.fn();
+    current.subscribe(listener);
+
+    setOnline(false);
+    other.enqueue('/a', { method: 'POST' });
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'joy-at-meeting:offline-queue' })
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(current.getPending().map(mutation => mutation.url)).toEqual(['/a']);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'other-key' }));
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    current.dispose();
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'joy-at-meeting:offline-queue' })
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('dispose后不再在重新连接时重放', async () => {
+    const request = jest.fn().mockResolvedValue('ok');
+    const queue = setup({ request });
+
+    setOnline(false);
+    await queue.mutate('/a', { method: 'POST' });
+    queue.dispose();
+
+    setOnline(true);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(request).not.toHaveBeenCalled();
+    expect(queue.getPending()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,457 @@
+import { FetchOptions, RequestFunction } from './request';
+import { HttpError } from './errors';
+import {
+  RetryOption,
+  RetryDelayOption,
+  defaultRetryDelay,
+  shouldRetry,
+  resolveRetryDelay,
+} from './retry';
+import { subscribeRefetchEvent, isOnline } from './refetchEvents';
+import { defaultRequest, isNetworkError } from './useFetch';
+import {
+  StorageLike,
+  getDefaultStorage,
+  readStorage,
+  writeStorage,
+  removeStorage,
+} from '../state/storage';
+
+/**
+ * 可以持久化的请求选项，请求体需要能序列化为JSON
+ */
+export interface OfflineRequestOptions extends Pick<
+  FetchOptions,
+  'method' | 'data' | 'params' | 'baseURL' | 'timeout'
+> {
+  /** 请求头 */
+  headers?: Record<string, string>;
+}
+
+/**
+ * 队列中等待发送的变更
+ */
+export interface QueuedMutation {
+  /** 唯一标识 */
+  id: string;
+  /** 请求URL */
+  url: string;
+  /** 请求选项 */
+  options: OfflineRequestOptions;
+  /** 加入队列的时间 */
+  createdAt: number;
+  /** 重放失败的次数 */
+  attempts: number;
+  /** 最近一次重放失败的错误信息 */
+  lastError: string | null;
+}
+
+/**
+ * 冲突的处理方式
+ * - discard: 丢弃该变更，继续重放后续变更
+ * - keep: 保留在队列中等待手动处理，暂停重放
+ * - 对象: 使用新的URL或请求选项重新发送，例如合并服务端的最新数据
+ */
+export type ConflictResolution =
+  'discard' | 'keep' | { url?: string; options?: OfflineRequestOptions };
+
+/**
+ * 变更的发送结果
+ */
+export type OfflineMutationResult<T> =
+  { queued: false; data: T } | { queued: true; mutation: QueuedMutation };
+
+/**
+ * 离线队列的配置选项
+ */
+export interface OfflineQueueOptions {
+  /** 存储队列的键名 */
+  storageKey?: string;
+  /** 存储，默认为localStorage */
+  storage?: StorageLike | null;
+  /** 请求函数，可以传入createFetchClient创建的客户端的request */
+  request?: RequestFunction;
+  /** 视为冲突的响应状态码，默认为409和412 */
+  conflictStatus?: number[];
+  /** 判断失败的请求是否保留在队列中稍后重放，默认为网络错误、超时、408、429和5xx响应 */
+  shouldQueue?: (error: Error) => boolean;
+  /** 在线时发送失败后的重试次数或判断函数，超过后丢弃该变更并调用onError，默认为10 */
+  retry?: RetryOption;
+  /** 在线时发送失败后再次重放前的延迟，默认为带随机抖动的指数退避 */
+  retryDelay?: RetryDelayOption;
+  /** 重放时发生冲突时调用，默认丢弃该变更 */
+  onConflict?: (
+    mutation: QueuedMutation,
+    error: HttpError
+  ) => ConflictResolution | Promise<ConflictResolution>;
+  /** 重放成功时调用 */
+  onSuccess?: (data: any, mutation: QueuedMutation) => void;
+  /** 重放因无法恢复的错误或超过重试次数被丢弃时调用 */
+  onError?: (error: Error, mutation: QueuedMutation) => void;
+}
+
+/**
+ * 离线变更队列
+ */
+export interface OfflineQueue {
+  /** 发送变更：离线或队列中已有变更时加入队列，发送失败且可以稍后重放时也加入队列 */
+  mutate: <T = any>(
+    url: string,
+    options?: OfflineRequestOptions
+  ) => Promise<OfflineMutationResult<T>>;
+  /** 直接加入队列 */
+  enqueue: (url: string, options?: OfflineRequestOptions) => QueuedMutation;
+  /** 获取等待发送的变更，按加入顺序排列 */
+  getPending: () => QueuedMutation[];
+  /** 是否正在重放 */
+  isReplaying: () => boolean;
+  /** 最近一次重放中断的错误（例如onConflict抛出的错误），重新开始重放时清除 */
+  getReplayError: () => Error | null;
+  /** 按顺序重放队列，遇到仍无法发送的变更时停止并按退避延迟安排下一次重放 */
+  replay: () => Promise<void>;
+  /** 从队列中移除变更 */
+  remove: (id: string) => void;
+  /** 清空队列 */
+  clear: () => void;
+  /** 订阅队列变化 */
+  subscribe: (listener: () => void) => () => void;
+  /** 停止自动重放并释放重放锁，队列不再使用时调用 */
+  dispose: () => void;
+}
+
+/**
+ * 默认的存储键名
+ */
+const DEFAULT_STORAGE_KEY = 'joy-at-meeting:offline-queue';
+
+/**
+ * 重放锁的有效期（毫秒），持有锁的标签页在重放期间定期续期，关闭后锁自动过期
+ */
+const LOCK_TTL = 10000;
+
+/**
+ * 重放时会保留在队列中的响应状态码
+ */
+const RETRYABLE_STATUS = [408, 429];
+
+/**
+ * 重放锁，共享同一存储的标签页中只有持有锁的一个会重放
+ */
+interface ReplayLock {
+  /** 持有锁的队列实例 */
+  owner: string;
+  /** 过期时间 */
+  expiresAt: number;
+}
+
+/**
+ * 默认的入队判断：网络错误、超时、408、429和5xx响应都可能在稍后成功
+ * @param error - 请求错误
+ * @returns 是否保留在队列中
+ */
+function defaultShouldQueue(error: Error): boolean {
+  if (error instanceof HttpError) {
+    return error.status >= 500 || RETRYABLE_STATUS.includes(error.status);
+  }
+  return isNetworkError(error);
+}
+
+/**
+ * 生成变更的唯一标识
+ * @returns 唯一标识
+ */
+function createMutationId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * 创建离线变更队列，队列持久化到存储中，网络重新连接时按顺序重放
+ * @param options - 配置选项
+ * @returns 离线队列
+ */
+function createOfflineQueue(options: OfflineQueueOptions = {}): OfflineQueue {
+  const {
+    storageKey = DEFAULT_STORAGE_KEY,
+    storage = getDefaultStorage(),
+    request = defaultRequest,
+    conflictStatus = [409, 412],
+    shouldQueue = defaultShouldQueue,
+    retry = 10,
+    retryDelay = defaultRetryDelay,
+  } = options;
+
+  const listeners = new Set<() => void>();
+  let replaying: Promise<void> | null = null;
+  let replayError: Error | null = null;
+  let replayTimer: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  // 每次都从存储读取，其他标签页的修改也能生效；没有可用存储时只保存在内存中
+  let memory: QueuedMutation[] = [];
+  const load = () =>
+    storage ? readStorage<QueuedMutation[]>(storageKey, [], storage) : memory;
+  const save = (mutations: QueuedMutation[]) => {
+    if (storage) {
+      writeStorage(storageKey, mutations, storage);
+    } else {
+      memory = mutations;
+    }
+    notify();
+  };
+  const update = (id: string, changes: Partial<QueuedMutation>) => {
+    save(
+      load().map(mutation =>
+        mutation.id === id ? { ...mutation, ...changes } : mutation
+      )
+    );
+  };
+  const remove = (id: string) => {
+    save(load().filter(mutation => mutation.id !== id));
+  };
+
+  const enqueue = (
+    url: string,
+    requestOptions: OfflineRequestOptions = {},
+    failure?: Pick<QueuedMutation, 'attempts' | 'lastError'>
+  ) => {
+    const mutation: QueuedMutation = {
+      id: createMutationId(),
+      url,
+      options: requestOptions,
+      createdAt: Date.now(),
+      attempts: 0,
+      lastError: null,
+      ...failure,
+    };
+    save([...load(), mutation]);
+    return mutation;
+  };
+
+  // 共享同一存储的标签页通过存储中的租约互斥，避免重复重放；没有存储时只有当前实例
+  const ownerId = createMutationId();
+  const lockKey = `${storageKey}:lock`;
+  const acquireLock = () => {
+    if (!storage) {
+      return true;
+    }
+    const lock = readStorage<ReplayLock | null>(lockKey, null, storage);
+    if (lock && lock.owner !== ownerId && lock.expiresAt > Date.now()) {
+      return false;
+    }
+    writeStorage<ReplayLock>(
+      lockKey,
+      { owner: ownerId, expiresAt: Date.now() + LOCK_TTL },
+      storage
+    );
+    return true;
+  };
+  const releaseLock = () => {
+    if (
+      storage &&
+      readStorage<ReplayLock | null>(lockKey, null, storage)?.owner === ownerId
+    ) {
+      removeStorage(lockKey, storage);
+    }
+  };
+
+  // 安排下一次重放，已有的安排会被替换
+  const scheduleReplay = (delay: number) => {
+    if (disposed) return;
+    if (replayTimer) {
+      clearTimeout(replayTimer);
+    }
+    replayTimer = setTimeout(() => {
+      replayTimer = null;
+      replayInBackground();
+    }, delay);
+  };
+
+  // 稍后可能成功的失败：未超过重试策略时记录失败并按退避延迟安排下一次重放，否则丢弃
+  const retryLater = (
+    mutation: QueuedMutation,
+    error: Error,
+    changes: Partial<QueuedMutation> = {}
+  ): boolean => {
+    const attempts = mutation.attempts + 1;
+    if (!shouldRetry(retry, attempts, error)) {
+      remove(mutation.id);
+      options.onError?.(error, mutation);
+      return true;
+    }
+    update(mutation.id, { ...changes, attempts, lastError: error.message });
+    scheduleReplay(resolveRetryDelay(retryDelay, attempts, error));
+    return false;
+  };
+
+  // 重放单个变更，返回是否继续重放后续变更
+  const replayMutation = async (mutation: QueuedMutation): Promise<boolean> => {
+    try {
+      const data = await request(mutation.url, mutation.options);
+      remove(mutation.id);
+      options.onSuccess?.(data, mutation);
+      return true;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+
+      if (error instanceof HttpError && conflictStatus.includes(error.status)) {
+        const resolution = options.onConflict
+          ? await options.onConflict(mutation, error)
+          : 'discard';
+        if (resolution === 'discard') {
+          remove(mutation.id);
+          return true;
+        }
+        if (resolution === 'keep') {
+          update(mutation.id, {
+            attempts: mutation.attempts + 1,
+            lastError: error.message,
+          });
+          return false;
+        }
+        // 在原位置替换为新的请求，按退避延迟重新发送，避免反复冲突时不断请求
+        return retryLater(mutation, error, {
+          url: resolution.url ?? mutation.url,
+          options: resolution.options ?? mutation.options,
+        });
+      }
+
+      if (shouldQueue(error)) {
+        return retryLater(mutation, error);
+      }
+
+      remove(mutation.id);
+      options.onError?.(error, mutation);
+      return true;
+    }
+  };
+
+  const replay = () => {
+    if (replaying) {
+      return replaying;
+    }
+    if (!isOnline() || load().length === 0) {
+      return Promise.resolve();
+    }
+    // 其他标签页正在重放，锁过期后再检查一次，以防该标签页已关闭
+    if (!acquireLock()) {
+      scheduleReplay(LOCK_TTL);
+      return Promise.resolve();
+    }
+
+    if (replayTimer) {
+      clearTimeout(replayTimer);
+      replayTimer = null;
+    }
+    replayError = null;
+    const renewTimer = setInterval(acquireLock, LOCK_TTL / 2);
+    replaying = (async () => {
+      try {
+        for (;;) {
+          const [next] = load();
+          if (!next || !(await replayMutation(next))) {
+            break;
+          }
+        }
+      } catch (err) {
+        replayError = err instanceof Error ? err : new Error(String(err));
+        throw replayError;
+      } finally {
+        clearInterval(renewTimer);
+        releaseLock();
+        replaying = null;
+        notify();
+      }
+    })();
+    notify();
+    return replaying;
+  };
+
+  // 自动触发的重放没有调用方，错误记录在replayError中
+  const replayInBackground = () => {
+    replay().catch(() => {
+      // 错误已记录在队列状态中
+    });
+  };
+
+  const mutate = async <T = any>(
+    url: string,
+    requestOptions: OfflineRequestOptions = {}
+  ): Promise<OfflineMutationResult<T>> => {
+    // 队列中已有变更时排在后面，保证按发起顺序到达服务端
+    if (!isOnline() || load().length > 0) {
+      const mutation = enqueue(url, requestOptions);
+      replayInBackground();
+      return { queued: true, mutation };
+    }
+
+    try {
+      return { queued: false, data: await request<T>(url, requestOptions) };
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      // 首次发送也算一次失败，在线时按退避延迟重放，不必等到下次重新连接
+      if (shouldQueue(error) && shouldRetry(retry, 1, error)) {
+        const mutation = enqueue(url, requestOptions, {
+          attempts: 1,
+          lastError: error.message,
+        });
+        scheduleReplay(resolveRetryDelay(retryDelay, 1, error));
+        return { queued: true, mutation };
+      }
+      throw error;
+    }
+  };
+
+  // 网络重新连接时重放，页面加载时重放上次未发送的变更
+  const unsubscribeReconnect = subscribeRefetchEvent(
+    'reconnect',
+    replayInBackground
+  );
+
+  // 其他标签页修改队列时通知订阅者，队列每次都从存储读取最新的内容
+  const handleStorageChange = (event: StorageEvent) => {
+    if (event.key === storageKey || event.key === null) {
+      notify();
+    }
+  };
+  if (storage && typeof window !== 'undefined') {
+    window.addEventListener('storage', handleStorageChange);
+  }
+  if (typeof window !== 'undefined') {
+    scheduleReplay(0);
+  }
+
+  return {
+    mutate,
+    enqueue: (url, requestOptions) => enqueue(url, requestOptions),
+    getPending: load,
+    isReplaying: () => replaying !== null,
+    getReplayError: () => replayError,
+    replay,
+    remove,
+    clear: () => save([]),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      disposed = true;
+      unsubscribeReconnect();
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('storage', handleStorageChange);
+      }
+      if (replayTimer) {
+        clearTimeout(replayTimer);
+        replayTimer = null;
+      }
+      if (!replaying) {
+        releaseLock();
+      }
+    },
+  };
+}
+
+export { createOfflineQueue };
@@ -0,0 +1,154 @@
+import {
+  createProgress,
+  trackDownloadProgress,
+  xhrRequest,
+  FetchProgress,
+} from './progress';
+
+/**
+ * 创建带URL的响应，模拟fetch返回的响应
+ */
+function createFetchResponse(body: string, url: string): Response {
+  const response = new Response(body, {
+    status: 201,
+    headers: { 'content-length': String(body.length) },
+  });
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
+
+/**
+ * 模拟的XMLHttpRequest，记录请求头并在send后立即返回响应
+ */
+class FakeXMLHttpRequest {
+  static instances: FakeXMLHttpRequest[] = [];
+  headers: Array<[string, string]> = [];
+  upload: { onprogress?: (event: ProgressEvent) => void } = {};
+  responseType = '';
+  timeout = 0;
+  withCredentials = false;
+  status = 200;
+  statusText = 'OK';
+  response: Blob | null = new Blob(['{}']);
+  responseURL = '';
+  onload?: () => void;
+  onprogress?: (event: ProgressEvent) => void;
+
+  constructor() {
+    FakeXMLHttpRequest.instances.push(this);
+  }
+
+  open(method: string, url: string) {
+    this.responseURL = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers.push([name, value]);
+  }
+
+  getAllResponseHeaders() {
+    return 'content-type: application/json\r\n';
+  }
+
+  send() {
+    this.upload.onprogress?.({
+      loaded: 5,
+      total: 10,
+      lengthComputable: true,
+    } as ProgressEvent);
+    this.onload?.();
+  }
+
+  abort() {}
+}
+
+describe('传输进度', () => {
+  const OriginalXMLHttpRequest = global.XMLHttpRequest;
+
+  beforeEach(() => {
+    FakeXMLHttpRequest.instances = [];
+    global.XMLHttpRequest = FakeXMLHttpRequest as any;
+  });
+
+  afterEach(() => {
+    global.XMLHttpRequest = OriginalXMLHttpRequest;
+  });
+
+  it('计算百分比，总字节数未知时为null', () => {
+    expect(createProgress(50, 200)).toEqual({
+      loaded: 50,
+      total: 200,
+      percent: 25,
+    });
+    expect(createProgress(50, null)).toEqual({
+      loaded: 50,
+      total: null,
+      percent: null,
+    });
+  });
+
+  it('读取响应时报告下载进度，并保留状态码、响应头和URL', async () => {
+    const progress: FetchProgress[] = [];
+    const response = trackDownloadProgress(
+      createFetchResponse('hello', 'https://example.com/final'),
+      value => progress.push(value)
+    );
+
+    expect(response.url).toBe('https://example.com/final');
+    expect(response.status).toBe(201);
+    expect(response.headers.get('content-length')).toBe('5');
+    expect(await response.text()).toBe('hello');
+    expect(progress[progress.length - 1]).toEqual({
+      loaded: 5,
+      total: 5,
+      percent: 100,
+    });
+  });
+
+  it('XMLHttpRequest请求支持各种形式的请求头', async () => {
+    await xhrRequest(
+      '/api/upload',
+      { method: 'POST', headers: new Headers({ 'X-Token': 'a' }) },
+      0,
+      []
+    );
+    await xhrRequest(
+      '/api/upload',
+      { method: 'POST', headers: [['X-Token', 'b']] },
+      0,
+      []
+    );
+    await xhrRequest(
+      '/api/upload',
+      { method: 'POST', headers: { 'X-Token': 'c' } },
+      0,
+      []
+    );
+
+    expect(FakeXMLHttpRequest.instances.map(xhr => xhr.headers)).toEqual([
+      [['x-token', 'a']],
+      [['x-token', 'b']],
+      [['x-token', 'c']],
+    ]);
+  });
+
+  it('XMLHttpRequest请求报告上传进度，响应保留URL', async () => {
+    const onUploadProgress = jest.fn();
+    const response = await xhrRequest(
+      'https://example.com/api/upload',
+      { method: 'POST', body: 'data' },
+      0,
+      [],
+      onUploadProgress
+    );
+
+    expect(onUploadProgress).toHaveBeenCalledWith({
+      loaded: 5,
+      total: 10,
+      percent: 50,
+    });
+    expect(response.url).toBe('https://example.com/api/upload');
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({});
+  });
+});
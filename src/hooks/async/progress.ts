@@ -0,0 +1,231 @@
+import { HttpMethod } from './request';
+import { TimeoutError, AbortError } from './errors';
+
+/**
+ * 传输进度
+ */
+export interface FetchProgress {
+  /** 已传输的字节数 */
+  loaded: number;
+  /** 总字节数，未知时为null */
+  total: number | null;
+  /** 完成百分比（0-100），总字节数未知时为null */
+  percent: number | null;
+}
+
+/**
+ * 进度回调
+ */
+export type ProgressCallback = (progress: FetchProgress) => void;
+
+/**
+ * 不能携带响应体的状态码
+ */
+const NULL_BODY_STATUS = [101, 204, 205, 304];
+
+/**
+ * 创建进度对象
+ * @param loaded - 已传输的字节数
+ * @param total - 总字节数
+ * @returns 进度对象
+ */
+function createProgress(loaded: number, total: number | null): FetchProgress {
+  return {
+    loaded,
+    total,
+    percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : null,
+  };
+}
+
+/**
+ * 创建响应并保留最终的请求URL，new Response无法设置url
+ * @param body - 响应体
+ * @param init - 状态码和响应头
+ * @param url - 响应的URL，为空时不设置
+ * @returns 响应对象
+ */
+function createResponse(
+  body: RequestInit['body'],
+  init: Pick<Response, 'status' | 'statusText' | 'headers'>,
+  url: string
+): Response {
+  const response = new Response(body, init);
+  if (url) {
+    Object.defineProperty(response, 'url', { value: url });
+  }
+  return response;
+}
+
+/**
+ * 包装响应，在读取响应流时报告下载进度
+ * @param response - 原始响应
+ * @param onProgress - 进度回调
+ * @returns 读取时会报告进度的新响应
+ */
+function trackDownloadProgress(
+  response: Response,
+  onProgress: ProgressCallback
+): Response {
+  if (!response.body || typeof ReadableStream === 'undefined') {
+    return response;
+  }
+
+  const contentLength = Number(response.headers.get('content-length'));
+  const total = contentLength > 0 ? contentLength : null;
+  const reader = response.body.getReader();
+  let loaded = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        onProgress(createProgress(loaded, total ?? loaded));
+        controller.close();
+        return;
+      }
+      loaded += value.byteLength;
+      onProgress(createProgress(loaded, total));
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return createResponse(
+    stream,
+    {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    },
+    response.url
+  );
+}
+
+/**
+ * 将XMLHttpRequest的响应头字符串解析为Headers
+ * @param rawHeaders - getAllResponseHeaders的返回值
+ * @returns 响应头
+ */
+function parseXhrHeaders(rawHeaders: string): Headers {
+  const headers = new Headers();
+  rawHeaders
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach(line => {
+      const index = line.indexOf(':');
+      if (index > 0) {
+        headers.append(
+          line.slice(0, index).trim(),
+          line.slice(index + 1).trim()
+        );
+      }
+    });
+  return headers;
+}
+
+/**
+ * 使用XMLHttpRequest发送请求，以便报告上传进度，fetch不支持上传进度
+ * @param url - 请求URL
+ * @param options - 请求选项
+ * @param timeout - 超时时间
+ * @param signals - 外部取消信号，任意一个触发都会中止请求
+ * @param onUploadProgress - 上传进度回调
+ * @param onDownloadProgress - 下载进度回调
+ * @returns Promise，超时时以TimeoutError结束，取消时以AbortError结束
+ */
+function xhrRequest(
+  url: string,
+  options: RequestInit,
+  timeout: number,
+  signals: Array<AbortSignal | null | undefined>,
+  onUploadProgress?: ProgressCallback,
+  onDownloadProgress?: ProgressCallback
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const activeSignals = signals.filter(
+      (signal): signal is AbortSignal => !!signal
+    );
+    if (activeSignals.some(signal => signal.aborted)) {
+      reject(new AbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const method = options.method ?? 'GET';
+    xhr.open(method, url);
+    xhr.responseType = 'blob';
+    xhr.timeout = timeout;
+    xhr.withCredentials = options.credentials === 'include';
+
+    // 请求头可以是Headers、键值对数组或对象，统一转换后再设置
+    new Headers(options.headers).forEach((value, key) => {
+      xhr.setRequestHeader(key, value);
+    });
+
+    // 将外部取消信号转发到请求
+    const handleAbort = () => xhr.abort();
+    const cleanup = () => {
+      activeSignals.forEach(signal =>
+        signal.removeEventListener('abort', handleAbort)
+      );
+    };
+
+    if (onUploadProgress) {
+      xhr.upload.onprogress = event => {
+        onUploadProgress(
+          createProgress(
+            event.loaded,
+            event.lengthComputable ? event.total : null
+          )
+        );
+      };
+    }
+    if (onDownloadProgress) {
+      xhr.onprogress = event => {
+        onDownloadProgress(
+          createProgress(
+            event.loaded,
+            event.lengthComputable ? event.total : null
+          )
+        );
+      };
+    }
+
+    xhr.onload = () => {
+      cleanup();
+      resolve(
+        createResponse(
+          NULL_BODY_STATUS.includes(xhr.status) ? null : xhr.response,
+          {
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+          },
+          xhr.responseURL || url
+        )
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.ontimeout = () => {
+      cleanup();
+      reject(new TimeoutError(timeout, url, method as HttpMethod));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new AbortError());
+    };
+
+    activeSignals.forEach(signal =>
+      signal.addEventListener('abort', handleAbort)
+    );
+
+    xhr.send((options.body ?? null) as Parameters<XMLHttpRequest['send']>[0]);
+  });
+}
+
+export { createProgress, trackDownloadProgress, xhrRequest };
@@ -0,0 +1,176 @@
+import { createQueryCache, QueryCache } from './queryCache';
+
+/**
+ * 创建可以手动结束的请求
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('queryCache', () => {
+  let cache: QueryCache;
+
+  beforeEach(() => {
+    cache = createQueryCache();
+  });
+
+  // 清空缓存以取消回收定时器
+  afterEach(() => {
+    cache.clear();
+  });
+
+  it('合并相同键的并发请求', async () => {
+    const fetcher = jest.fn(() => Promise.resolve('data'));
+
+    const results = await Promise.all([
+      cache.fetchQuery('key', fetcher),
+      cache.fetchQuery('key', fetcher),
+    ]);
+
+    expect(results).toEqual(['data', 'data']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cache.getQueryData('key')).toBe('data');
+  });
+
+  it('在staleTime内直接返回缓存', async () => {
+    const fetcher = jest.fn(() => Promise.resolve('data'));
+
+    await cache.fetchQuery('key', fetcher, { staleTime: 1000 });
+    await cache.fetchQuery('key', fetcher, { staleTime: 1000 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await cache.fetchQuery('key', fetcher, { staleTime: 0 });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('所有调用方取消后中止共享请求', async () => {
+    let signal: AbortSignal | undefined;
+    const fetcher = (requestSignal: AbortSignal) => {
+      signal = requestSignal;
+      return new Promise<string>(() => undefined);
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const results = [
+      cache.fetchQuery('key', fetcher, { signal: first.signal }),
+      cache.fetchQuery('key', fetcher, { signal: second.signal }),
+    ].map(promise => promise.catch(error => error.name));
+
+    first.abort();
+    expect(signal?.aborted).toBe(false);
+    second.abort();
+    expect(signal?.aborted).toBe(true);
+    await expect(Promise.all(results)).resolves.toEqual([
+      'AbortError',
+      'AbortError',
+    ]);
+  });
+
+  it('所有调用方取消后，忽略取消信号的请求结果不会覆盖更新的数据', async () => {
+    const abandoned = deferred<string>();
+    const controller = new AbortController();
+
+    const pending = cache
+      .fetchQuery('key', () => abandoned.promise, {
+        signal: controller.signal,
+      })
+      .catch(error => error.name);
+    controller.abort();
+    expect(cache.getQueryState('key').isFetching).toBe(false);
+    await expect(pending).resolves.toBe('AbortError');
+
+    await cache.fetchQuery('key', () => Promise.resolve('newer'));
+    abandoned.resolve('older');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(cache.getQueryState('key')).toMatchObject({
+      data: 'newer',
+      isFetching: false,
+    });
+  });
+
+  it('失效时重新请求仍在使用的查询', async () => {
+    const fetcher = jest
+      .fn()
+      .mockResolvedValueOnce('old')
+      .mockResolvedValueOnce('new');
+    const listener = jest.fn();
+    cache.subscribe('key', listener);
+
+    await cache.fetchQuery('key', fetcher, { staleTime: Infinity });
+    cache.invalidate('key');
+    expect(cache.getQueryState('key').isInvalidated).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(cache.getQueryState('key')).toMatchObject({
+      data: 'new',
+      isInvalidated: false,
+    });
+  });
+
+  it('请求期间失效时结果仍标记为失效，结束后重新请求', async () => {
+    const first = deferred<string>();
+    const second = deferred<string>();
+    const fetcher = jest
+      .fn()
+      .mockReturnValueOnce(first.promise)
+      .mockReturnValueOnce(second.promise);
+    cache.subscribe('key', () => undefined);
+
+    const pending = cache.fetchQuery('key', fetcher);
+    cache.invalidate('key');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    first.resolve('stale');
+    await pending;
+    expect(cache.getQueryState('key')).toMatchObject({
+      data: 'stale',
+      isInvalidated: true,
+    });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    second.resolve('fresh');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(cache.getQueryState('key')).toMatchObject({
+      data: 'fresh',
+      isInvalidated: false,
+    });
+  });
+
+  it('按判断函数批量失效', async () => {
+    cache.setQueryData('/api/users/1', 'alice');
+    cache.setQueryData('/api/posts/1', 'post');
+
+    cache.invalidate(key => key.startsWith('/api/users'));
+
+    expect(cache.getQueryState('/api/users/1').isInvalidated).toBe(true);
+    expect(cache.getQueryState('/api/posts/1').isInvalidated).toBe(false);
+  });
+
+  it('移除仍在使用的缓存时保留订阅并丢弃进行中的结果', async () => {
+    const request = deferred<string>();
+    const listener = jest.fn();
+    cache.subscribe('key', listener);
+    cache.setQueryData('key', 'cached');
+
+    const pending = cache.fetchQuery('key', () => request.promise);
+    cache.remove('key');
+    expect(cache.getQueryState('key').updatedAt).toBe(0);
+
+    listener.mockClear();
+    cache.setQueryData('key', 'after');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    request.resolve('discarded');
+    await pending;
+    expect(cache.getQueryData('key')).toBe('after');
+  });
+});
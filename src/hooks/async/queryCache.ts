@@ -0,0 +1,508 @@
+import { isAbortError, raceWithSignal } from './abort';
+
+/**
+ * 查询缓存的键类型
+ */
+export type QueryKey = string;
+
+/**
+ * 缓存条目的状态快照
+ */
+export interface QueryState<T = any> {
+  /** 缓存的数据 */
+  data: T | null;
+  /** 最近一次请求的错误 */
+  error: Error | null;
+  /** 数据更新时间戳，0 表示尚无数据 */
+  updatedAt: number;
+  /** 是否有请求正在进行 */
+  isFetching: boolean;
+  /** 是否已被标记为失效 */
+  isInvalidated: boolean;
+}
+
+/**
+ * 发起缓存查询的选项
+ */
+export interface FetchQueryOptions {
+  /** 数据保持新鲜的时间（毫秒），在此期间不会重新请求，默认为0 */
+  staleTime?: number;
+  /** 没有订阅者后缓存保留的时间（毫秒），默认为5分钟 */
+  cacheTime?: number;
+  /** 调用方的取消信号，所有调用方都取消后才会中止共享的请求 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 缓存请求函数，接收共享请求的取消信号
+ */
+export type QueryFetcher<T = any> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * 缓存匹配条件：具体的键或判断函数
+ */
+export type QueryFilter = QueryKey | ((key: QueryKey) => boolean);
+
+/**
+ * 序列化后的缓存，用于在服务端和客户端之间传递数据
+ */
+export interface DehydratedState {
+  /** 已加载数据的缓存条目 */
+  queries: Array<{
+    /** 缓存键 */
+    key: QueryKey;
+    /** 缓存的数据 */
+    data: any;
+    /** 数据更新时间戳 */
+    updatedAt: number;
+  }>;
+}
+
+/**
+ * 查询缓存对象
+ */
+export interface QueryCache {
+  /** 获取缓存状态 */
+  getQueryState: <T = any>(key: QueryKey) => QueryState<T>;
+  /** 获取缓存数据 */
+  getQueryData: <T = any>(key: QueryKey) => T | null;
+  /** 直接写入缓存数据 */
+  setQueryData: <T = any>(
+    key: QueryKey,
+    updater: T | ((prevData: T | null) => T)
+  ) => void;
+  /** 通过缓存发起请求，相同键的并发请求会被合并 */
+  fetchQuery: <T = any>(
+    key: QueryKey,
+    fetcher: QueryFetcher<T>,
+    options?: FetchQueryOptions
+  ) => Promise<T>;
+  /** 订阅缓存变化 */
+  subscribe: (key: QueryKey, listener: () => void) => () => void;
+  /** 将缓存标记为失效，并重新请求仍在使用中的查询 */
+  invalidate: (filter: QueryFilter) => void;
+  /** 移除缓存，仍有订阅者的缓存会被重置为空状态并通知订阅者 */
+  remove: (filter: QueryFilter) => void;
+  /** 清空所有缓存 */
+  clear: () => void;
+  /** 导出已加载的数据，可传入匹配条件只导出部分缓存 */
+  dehydrate: (filter?: QueryFilter) => DehydratedState;
+  /** 写入导出的数据，水合后的首轮请求直接使用这些数据 */
+  hydrate: (state: DehydratedState) => void;
+}
+
+/**
+ * 缓存条目
+ */
+interface QueryEntry<T = any> {
+  state: QueryState<T>;
+  listeners: Set<() => void>;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  waiters: number;
+  fetcher: QueryFetcher<T> | null;
+  cacheTime: number;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+  hydrated: boolean;
+  /** 失效次数，请求期间失效时结果仍标记为失效 */
+  invalidations: number;
+}
+
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000;
+
+/**
+ * 创建空的缓存状态
+ */
+function createInitialState<T>(): QueryState<T> {
+  return {
+    data: null,
+    error: null,
+    updatedAt: 0,
+    isFetching: false,
+    isInvalidated: false,
+  };
+}
+
+/**
+ * 创建查询缓存
+ * @returns 查询缓存对象
+ */
+function createQueryCache(): QueryCache {
+  const entries = new Map<QueryKey, QueryEntry>();
+
+  // 获取或创建缓存条目
+  const ensureEntry = <T>(key: QueryKey): QueryEntry<T> => {
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        state: createInitialState<T>(),
+        listeners: new Set(),
+        promise: null,
+        controller: null,
+        waiters: 0,
+        fetcher: null,
+        cacheTime: DEFAULT_CACHE_TIME,
+        gcTimer: null,
+        hydrated: false,
+        invalidations: 0,
+      };
+      entries.set(key, entry);
+    }
+    return entry as QueryEntry<T>;
+  };
+
+  // 更新状态并通知订阅者
+  const updateState = <T>(
+    entry: QueryEntry<T>,
+    patch: Partial<QueryState<T>>
+  ) => {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  };
+
+  // 没有订阅者时延迟回收缓存
+  const scheduleGc = (key: QueryKey, entry: QueryEntry) => {
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+    if (
+      entry.listeners.size > 0 ||
+      entry.promise ||
+      entry.cacheTime === Infinity
+    ) {
+      return;
+    }
+    entry.gcTimer = setTimeout(() => {
+      if (entries.get(key) === entry && entry.listeners.size === 0) {
+        entries.delete(key);
+      }
+    }, entry.cacheTime);
+  };
+
+  // 仍有组件在使用且没有进行中的请求时，在后台重新请求
+  const refetchIfUsed = (key: QueryKey, entry: QueryEntry) => {
+    if (entry.listeners.size > 0 && entry.fetcher && !entry.promise) {
+      fetchQuery(key, entry.fetcher).catch(() => {
+        // 错误已写入缓存状态
+      });
+    }
+  };
+
+  // 根据匹配条件查找缓存键
+  const matchKeys = (filter: QueryFilter): QueryKey[] => {
+    if (typeof filter === 'function') {
+      return Array.from(entries.keys()).filter(filter);
+    }
+    return entries.has(filter) ? [filter] : [];
+  };
+
+  const getQueryState = <T = any>(key: QueryKey): QueryState<T> => {
+    const entry = entries.get(key);
+    return entry ? (entry.state as QueryState<T>) : createInitialState<T>();
+  };
+
+  const getQueryData = <T = any>(key: QueryKey): T | null => {
+    return getQueryState<T>(key).data;
+  };
+
+  const setQueryData = <T = any>(
+    key: QueryKey,
+    updater: T | ((prevData: T | null) => T)
+  ) => {
+    const entry = ensureEntry<T>(key);
+    const data =
+      updater instanceof Function ? updater(entry.state.data) : updater;
+    updateState(entry, {
+      data,
+      error: null,
+      updatedAt: Date.now(),
+      isInvalidated: false,
+    });
+    scheduleGc(key, entry);
+  };
+
+  // 登记一个等待共享请求的调用方
+  const attachWaiter = <T>(
+    entry: QueryEntry<T>,
+    promise: Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    entry.waiters++;
+    if (!signal) {
+      return promise;
+    }
+
+    const handleAbort = () => {
+      if (entry.promise !== promise) return;
+      entry.waiters--;
+      // 没有调用方等待时中止共享请求，后续调用会发起新的请求，忽略取消信号的请求结果也会被丢弃
+      if (entry.waiters === 0) {
+        entry.controller?.abort();
+        entry.promise = null;
+        entry.controller = null;
+        updateState(entry, { isFetching: false });
+      }
+    };
+    signal.addEventListener('abort', handleAbort);
+    promise
+      .catch(() => undefined)
+      .then(() => signal.removeEventListener('abort', handleAbort));
+
+    return raceWithSignal(promise, signal);
+  };
+
+  const fetchQuery = <T = any>(
+    key: QueryKey,
+    fetcher: QueryFetcher<T>,
+    options: FetchQueryOptions = {}
+  ): Promise<T> => {
+    const { staleTime = 0, cacheTime, signal } = options;
+    const entry = ensureEntry<T>(key);
+
+    entry.fetcher = fetcher;
+    if (cacheTime !== undefined) {
+      entry.cacheTime = cacheTime;
+    }
+
+    // 合并进行中的请求
+    if (entry.promise) {
+      return attachWaiter(entry, entry.promise, signal);
+    }
+
+    // 数据仍然新鲜时直接返回缓存，水合的数据在首轮请求中视为新鲜，避免首次渲染后立即重新请求
+    const { state } = entry;
+    if (
+      state.updatedAt > 0 &&
+      !state.isInvalidated &&
+      (entry.hydrated || Date.now() - state.updatedAt < staleTime)
+    ) {
+      if (entry.hydrated) {
+        setTimeout(() => {
+          entry.hydrated = false;
+        }, 0);
+      }
+      return Promise.resolve(state.data as T);
+    }
+
+    const controller = new AbortController();
+    const { invalidations } = entry;
+    // 结束时仍是条目当前的请求才写入结果，返回是否写入
+    const settle = () => {
+      if (entry.promise !== promise) {
+        return false;
+      }
+      entry.promise = null;
+      entry.controller = null;
+      return true;
+    };
+
+    // 请求期间缓存被移除或所有调用方都已取消时丢弃结果，避免覆盖更新的数据；
+    // 被标记为失效时结果仍视为失效，并在结束后重新请求
+    const promise: Promise<T> = fetcher(controller.signal).then(
+      data => {
+        if (!settle()) {
+          scheduleGc(key, entry);
+          return data;
+        }
+        const invalidated = entry.invalidations !== invalidations;
+        updateState(entry, {
+          data,
+          error: null,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isInvalidated: invalidated,
+        });
+        scheduleGc(key, entry);
+        if (invalidated) {
+          refetchIfUsed(key, entry);
+        }
+        return data;
+      },
+      err => {
+        const error = err instanceof Error ? err : new Error(String(err));
+        if (!settle()) {
+          scheduleGc(key, entry);
+          throw error;
+        }
+        // 取消的请求不记录为错误
+        updateState(
+          entry,
+          isAbortError(error)
+            ? { isFetching: false }
+            : { error, isFetching: false }
+        );
+        scheduleGc(key, entry);
+        if (entry.invalidations !== invalidations) {
+          refetchIfUsed(key, entry);
+        }
+        throw error;
+      }
+    );
+
+    entry.promise = promise;
+    entry.controller = controller;
+    entry.waiters = 0;
+    updateState(entry, { isFetching: true });
+
+    return attachWaiter(entry, promise, signal);
+  };
+
+  const dehydrate = (filter?: QueryFilter): DehydratedState => {
+    const keys = filter ? matchKeys(filter) : Array.from(entries.keys());
+    const queries: DehydratedState['queries'] = [];
+    keys.forEach(key => {
+      const { state } = entries.get(key) as QueryEntry;
+      if (state.updatedAt > 0) {
+        queries.push({ key, data: state.data, updatedAt: state.updatedAt });
+      }
+    });
+    return { queries };
+  };
+
+  const hydrate = (dehydratedState: DehydratedState) => {
+    dehydratedState.queries.forEach(({ key, data, updatedAt }) => {
+      const entry = ensureEntry(key);
+      // 不覆盖更新的数据
+      if (entry.state.updatedAt >= updatedAt) {
+        return;
+      }
+      entry.hydrated = true;
+      updateState(entry, {
+        data,
+        error: null,
+        updatedAt,
+        isInvalidated: false,
+      });
+      scheduleGc(key, entry);
+    });
+  };
+
+  const subscribe = (key: QueryKey, listener: () => void) => {
+    const entry = ensureEntry(key);
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      scheduleGc(key, entry);
+    };
+  };
+
+  const invalidate = (filter: QueryFilter) => {
+    matchKeys(filter).forEach(key => {
+      const entry = entries.get(key);
+      if (!entry) return;
+
+      entry.invalidations++;
+      updateState(entry, { isInvalidated: true });
+
+      // 仍有组件在使用时立即在后台重新请求，进行中的请求结束后再重新请求
+      refetchIfUsed(key, entry);
+    });
+  };
+
+  const remove = (filter: QueryFilter) => {
+    matchKeys(filter).forEach(key => {
+      const entry = entries.get(key) as QueryEntry;
+      if (entry.gcTimer) {
+        clearTimeout(entry.gcTimer);
+        entry.gcTimer = null;
+      }
+
+      if (entry.listeners.size === 0) {
+        entries.delete(key);
+        return;
+      }
+
+      // 仍有订阅者时保留条目和订阅，重置状态并通知订阅者，进行中的请求结果会被丢弃
+      entry.promise = null;
+      entry.controller = null;
+      entry.waiters = 0;
+      entry.hydrated = false;
+      updateState(entry, createInitialState());
+    });
+  };
+
+  const clear = () => {
+    remove(() => true);
+  };
+
+  return {
+    getQueryState,
+    getQueryData,
+    setQueryData,
+    fetchQuery,
+    subscribe,
+    invalidate,
+    remove,
+    clear,
+    dehydrate,
+    hydrate,
+  };
+}
+
+/**
+ * 默认的全局查询缓存，浏览器中所有 useFetch 实例共享，服务端不会使用
+ */
+const queryCache = createQueryCache();
+
+/**
+ * 服务端未指定缓存时使用的空缓存，不保存任何数据，请求直接发送，
+ * 避免并发渲染的请求之间共享数据
+ */
+const noopQueryCache: QueryCache = {
+  getQueryState: <T = any>() => createInitialState<T>(),
+  getQueryData: () => null,
+  setQueryData: () => undefined,
+  fetchQuery: <T = any>(
+    key: QueryKey,
+    fetcher: QueryFetcher<T>,
+    options: FetchQueryOptions = {}
+  ) => fetcher(options.signal ?? new AbortController().signal),
+  subscribe: () => () => undefined,
+  invalidate: () => undefined,
+  remove: () => undefined,
+  clear: () => undefined,
+  dehydrate: () => ({ queries: [] }),
+  hydrate: () => undefined,
+};
+
+/**
+ * 解析要使用的查询缓存，未指定时在浏览器中使用全局缓存，在服务端使用不保存数据的空缓存
+ * @param cache - 指定的查询缓存
+ * @returns 查询缓存
+ */
+function resolveQueryCache(cache?: QueryCache | null): QueryCache {
+  if (cache) {
+    return cache;
+  }
+  return typeof window === 'undefined' ? noopQueryCache : queryCache;
+}
+
+/**
+ * 解析需要保存数据的查询缓存，用于预取和导出；
+ * 服务端的全局缓存会在并发渲染的请求之间共享，因此必须为每个请求显式创建缓存
+ * @param cache - 指定的查询缓存
+ * @returns 查询缓存
+ */
+function requireQueryCache(cache?: QueryCache | null): QueryCache {
+  const resolved = resolveQueryCache(cache);
+  if (resolved === noopQueryCache) {
+    throw new Error(
+      'A per-request query cache is required on the server, create one with createQueryCache()'
+    );
+  }
+  return resolved;
+}
+
+export {
+  createQueryCache,
+  queryCache,
+  noopQueryCache,
+  resolveQueryCache,
+  requireQueryCache,
+};
@@ -0,0 +1,40 @@
+import { createContext, createElement, useContext, ReactNode } from 'react';
+import { QueryCache, resolveQueryCache } from './queryCache';
+
+/**
+ * QueryCacheProvider组件的属性
+ */
+export interface QueryCacheProviderProps {
+  /** 子树中的Hook使用的查询缓存，服务端渲染时应为每个请求创建新的缓存 */
+  cache: QueryCache;
+  /** 子节点 */
+  children?: ReactNode;
+}
+
+/**
+ * 子树使用的查询缓存，未提供时为null
+ */
+const QueryCacheContext = createContext<QueryCache | null>(null);
+
+/**
+ * QueryCacheProvider - 为子树中的请求Hook提供查询缓存
+ * @param props - 组件属性
+ * @returns React元素
+ */
+function QueryCacheProvider({ cache, children }: QueryCacheProviderProps) {
+  return createElement(QueryCacheContext.Provider, { value: cache }, children);
+}
+
+/**
+ * useQueryCache - 获取当前使用的查询缓存
+ * 优先使用显式指定的缓存（如客户端配置），其次是QueryCacheProvider提供的缓存，
+ * 浏览器中最后回落到全局缓存，服务端回落到不保存数据的空缓存
+ * @param cache - 显式指定的查询缓存
+ * @returns 查询缓存
+ */
+function useQueryCache(cache?: QueryCache): QueryCache {
+  const contextCache = useContext(QueryCacheContext);
+  return resolveQueryCache(cache ?? contextCache);
+}
+
+export { QueryCacheProvider, useQueryCache };
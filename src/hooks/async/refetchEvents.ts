@@ -0,0 +1,125 @@
+/**
+ * 触发自动重新请求的事件类型
+ * - focus: 窗口重新获得焦点或页面重新可见
+ * - visibility: 页面可见性变化
+ * - reconnect: 网络重新连接
+ */
+export type RefetchEvent = 'focus' | 'visibility' | 'reconnect';
+
+/**
+ * 各事件的订阅者，所有Hook实例共享同一组全局监听器
+ */
+const listeners: Record<RefetchEvent, Set<() => void>> = {
+  focus: new Set(),
+  visibility: new Set(),
+  reconnect: new Set(),
+};
+
+/**
+ * 窗口当前是否处于聚焦状态，用于合并同时触发的focus和visibilitychange事件
+ */
+let focused = true;
+
+/**
+ * 移除全局监听器的函数，未监听时为null
+ */
+let teardown: (() => void) | null = null;
+
+/**
+ * 判断页面当前是否可见，非浏览器环境视为可见
+ * @returns 页面是否可见
+ */
+function isDocumentVisible(): boolean {
+  return (
+    typeof document === 'undefined' || document.visibilityState !== 'hidden'
+  );
+}
+
+/**
+ * 判断当前是否联网，无法判断时视为在线
+ * @returns 是否在线
+ */
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * 通知指定事件的所有订阅者
+ * @param event - 事件类型
+ */
+function emit(event: RefetchEvent) {
+  listeners[event].forEach(listener => listener());
+}
+
+/**
+ * 添加全局监听器
+ * @returns 移除监听器的函数
+ */
+function setupListeners(): () => void {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return () => {};
+  }
+
+  focused = isDocumentVisible();
+
+  const handleFocus = () => {
+    if (!focused && isDocumentVisible()) {
+      focused = true;
+      emit('focus');
+    }
+  };
+  const handleBlur = () => {
+    focused = false;
+  };
+  const handleVisibilityChange = () => {
+    emit('visibility');
+    if (isDocumentVisible()) {
+      handleFocus();
+    } else {
+      handleBlur();
+    }
+  };
+  const handleOnline = () => emit('reconnect');
+
+  window.addEventListener('focus', handleFocus);
+  window.addEventListener('blur', handleBlur);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('online', handleOnline);
+
+  return () => {
+    window.removeEventListener('focus', handleFocus);
+    window.removeEventListener('blur', handleBlur);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('online', handleOnline);
+  };
+}
+
+/**
+ * 订阅自动重新请求事件，第一个订阅者出现时添加全局监听器，最后一个取消时移除
+ * @param event - 事件类型
+ * @param listener - 事件回调
+ * @returns 取消订阅的函数
+ */
+function subscribeRefetchEvent(
+  event: RefetchEvent,
+  listener: () => void
+): () => void {
+  if (!teardown) {
+    teardown = setupListeners();
+  }
+  listeners[event].add(listener);
+
+  return () => {
+    listeners[event].delete(listener);
+
+    const hasListeners = Object.keys(listeners).some(
+      key => listeners[key as RefetchEvent].size > 0
+    );
+    if (!hasListeners && teardown) {
+      teardown();
+      teardown = null;
+    }
+  };
+}
+
+export { subscribeRefetchEvent, isDocumentVisible, isOnline };
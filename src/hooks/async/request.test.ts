@@ -0,0 +1,144 @@
+import { getQueryKey, createRequest } from './request';
+import { createMockTransport } from './mockTransport';
+
+describe('getQueryKey', () => {
+  it('查询参数的顺序不影响缓存键', () => {
+    expect(getQueryKey('/api/users', { params: { page: 1, size: 10 } })).toBe(
+      getQueryKey('/api/users', { params: { size: 10, page: 1 } })
+    );
+    expect(getQueryKey('/users', { baseURL: '/api' })).toBe(
+      getQueryKey('/api/users')
+    );
+  });
+
+  it('只缓存GET请求，stream响应和cacheKey为false的请求不缓存', () => {
+    expect(getQueryKey('/api/users', { method: 'POST' })).toBeNull();
+    expect(getQueryKey('/api/file', { responseType: 'stream' })).toBeNull();
+    expect(getQueryKey('/api/users', { cacheKey: false })).toBeNull();
+    expect(getQueryKey(undefined)).toBeNull();
+  });
+
+  it('responseType不同的请求使用不同的缓存键', () => {
+    const json = getQueryKey('/api/data', { responseType: 'json' });
+    const text = getQueryKey('/api/data', { responseType: 'text' });
+
+    expect(json).not.toBe(text);
+    expect(json).not.toBe(getQueryKey('/api/data'));
+  });
+
+  it('请求头不同的请求使用不同的缓存键，请求头的写法和顺序不影响缓存键', () => {
+    const alice = getQueryKey('/api/me', {
+      headers: { Authorization: 'Bearer alice', Accept: 'application/json' },
+    });
+
+    expect(alice).not.toBe(
+      getQueryKey('/api/me', { headers: { Authorization: 'Bearer bob' } })
+    );
+    expect(alice).not.toBe(getQueryKey('/api/me'));
+    expect(
+      getQueryKey('/api/me', {
+        headers: new Headers([
+          ['accept', 'application/json'],
+          ['authorization', 'Bearer alice'],
+        ]),
+      })
+    ).toBe(alice);
+    expect(getQueryKey('/api/me', { headers: {} })).toBe(
+      getQueryKey('/api/me')
+    );
+  });
+
+  it('设置了parse的请求只有指定cacheKey时才缓存', () => {
+    const parse = (response: Response) => response.text();
+
+    expect(getQueryKey('/api/data', { parse })).toBeNull();
+    expect(getQueryKey('/api/data', { parse, cacheKey: 'data:text' })).toBe(
+      'data:text'
+    );
+  });
+});
+
+describe('createRequest', () => {
+  it('对象请求体序列化为JSON，原始请求体原样发送且不使用默认的JSON类型', async () => {
+    const transport = createMockTransport().post('/api/upload', {
+      status: 204,
+    });
+    const request = createRequest({ transport });
+    const form = new URLSearchParams({ name: 'Alice' });
+
+    await request('/api/upload', { method: 'POST', data: { name: 'Alice' } });
+    expect(transport.lastCall()).toMatchObject({
+      body: { name: 'Alice' },
+      headers: { 'content-type': 'application/json' },
+    });
+
+    await request('/api/upload', { method: 'POST', data: form });
+    expect(transport.lastCall()?.body).toBe(form);
+    expect(transport.lastCall()?.headers['content-type']).toBeUndefined();
+
+    await request('/api/upload', {
+      method: 'POST',
+      data: new Uint8Array([1, 2]),
+      headers: { 'Content-Type': 'application/octet-stream' },
+    });
+    expect(transport.lastCall()?.headers['content-type']).toBe(
+      'application/octet-stream'
+    );
+  });
+
+  it('GET请求不发送请求体', async () => {
+    const transport = createMockTransport().get('/api/users', { body: [] });
+    const request = createRequest({ transport });
+
+    await request('/api/users', { data: { ignored: true } });
+
+    expect(transport.lastCall()?.body).toBeNull();
+  });
+
+  it('按responseType解析响应，未设置时根据Content-Type解析', async () => {
+    const transport = createMockTransport()
+      .get('/api/json', { body: { ok: true } })
+      .get('/api/text', { body: '{"ok":true}' })
+      .get('/api/empty', { status: 204 });
+    const request = createRequest({ transport });
+
+    expect(await request('/api/json')).toEqual({ ok: true });
+    expect(await request('/api/text')).toBe('{"ok":true}');
+    expect(await request('/api/text', { responseType: 'json' })).toEqual({
+      ok: true,
+    });
+    expect(await request('/api/json', { responseType: 'text' })).toBe(
+      '{"ok":true}'
+    );
+    expect(await request('/api/empty', { responseType: 'json' })).toBeNull();
+
+    const buffer = await request<ArrayBuffer>('/api/text', {
+      responseType: 'arrayBuffer',
+    });
+    expect(buffer.byteLength).toBe(11);
+    const blob = await request<Blob>('/api/text', { responseType: 'blob' });
+    expect(await blob.text()).toBe('{"ok":true}');
+    const stream = await request<ReadableStream>('/api/text', {
+      responseType: 'stream',
+    });
+    expect(await new Response(stream).text()).toBe('{"ok":true}');
+  });
+
+  it('parse自定义解析响应，设置后忽略responseType', async () => {
+    const transport = createMockTransport().get('/api/csv', {
+      body: 'a,b\n1,2',
+    });
+    const request = createRequest({ transport });
+
+    const rows = await request('/api/csv', {
+      responseType: 'json',
+      parse: async response =>
+        (await response.text()).split('\n').map(line => line.split(',')),
+    });
+
+    expect(rows).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
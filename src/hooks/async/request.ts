@@ -0,0 +1,716 @@
+import { AsyncConcurrency } from './useAsync';
+import { QueryCache, QueryKey } from './queryCache';
+import { RetryOption, RetryDelayOption } from './retry';
+import { isAbortError } from './abort';
+import { HttpError, TimeoutError, AbortError } from './errors';
+import {
+  ProgressCallback,
+  trackDownloadProgress,
+  xhrRequest,
+} from './progress';
+
+/**
+ * HTTP请求方法类型
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+/**
+ * 响应解析方式
+ */
+export type FetchResponseType =
+  'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream';
+
+/**
+ * 请求配置选项
+ * @template TData - 解析后的响应数据类型
+ * @template TSelected - select转换后的数据类型
+ */
+export interface FetchOptions<TData = any, TSelected = TData> extends Omit<
+  RequestInit,
+  'method' | 'body'
+> {
+  /** HTTP方法 */
+  method?: HttpMethod;
+  /** 请求体数据，FormData、Blob、URLSearchParams和ArrayBuffer原样发送，其他数据序列化为JSON */
+  data?: any;
+  /** 查询参数 */
+  params?: Record<string, string | number | boolean>;
+  /** 基础URL */
+  baseURL?: string;
+  /** 请求超时时间（毫秒） */
+  timeout?: number;
+  /** 缓存键，默认根据方法、URL、查询参数、responseType和请求头生成；为false时不使用缓存，设置了parse时需要指定才会缓存 */
+  cacheKey?: QueryKey | false;
+  /** 缓存数据保持新鲜的时间（毫秒），默认为0 */
+  staleTime?: number;
+  /** 缓存无人使用后保留的时间（毫秒），默认为5分钟 */
+  cacheTime?: number;
+  /** 并发请求策略，默认为latest，仅在初始选项中生效 */
+  concurrency?: AsyncConcurrency;
+  /** 失败后的重试次数或判断函数，默认不重试，仅在初始选项中生效 */
+  retry?: RetryOption;
+  /** 重试前的延迟，默认为带随机抖动的指数退避，响应带有Retry-After时优先使用 */
+  retryDelay?: RetryDelayOption;
+  /** 设置重试次数时会重试的响应状态码，默认只对幂等请求重试408、429和5xx；显式指定时对任何请求方法都重试 */
+  retryOn?: number[];
+  /** 按Retry-After等待的最长时间（毫秒），默认为30秒 */
+  maxRetryDelay?: number;
+  /** 是否自动请求，为false时不会立即执行、轮询或自动重新请求，仍可手动执行，常用于等待依赖的数据，默认为true，仅在初始选项中生效 */
+  enabled?: boolean;
+  /** 轮询间隔（毫秒），为false或0时不轮询，仅在初始选项中生效 */
+  refetchInterval?: number | false;
+  /** 页面隐藏时是否继续轮询，默认为false */
+  refetchIntervalInBackground?: boolean;
+  /** 窗口重新获得焦点时是否重新请求过期数据，默认为false */
+  refetchOnWindowFocus?: boolean;
+  /** 网络重新连接时是否重新请求过期数据，默认为false */
+  refetchOnReconnect?: boolean;
+  /** 响应解析方式，默认根据Content-Type解析为JSON或文本；为stream时不使用缓存 */
+  responseType?: FetchResponseType;
+  /** 自定义响应解析函数，设置后忽略responseType */
+  parse?: (response: Response) => any;
+  /** 从响应数据中选取组件需要的部分，缓存中保存的仍是完整数据，仅在初始选项中生效 */
+  select?: (data: TData) => TSelected;
+  /** 上传进度回调，设置后使用XMLHttpRequest发送请求 */
+  onUploadProgress?: ProgressCallback;
+  /** 下载进度回调，读取响应流时报告 */
+  onDownloadProgress?: ProgressCallback;
+  /** 是否启用Suspense模式，需要可缓存的请求，仅在初始选项中生效 */
+  suspense?: boolean;
+  /** 出错时是否将错误抛给最近的错误边界，仅在初始选项中生效 */
+  throwOnError?: boolean | ((error: Error) => boolean);
+}
+
+/**
+ * 请求失败时抛出的错误的公共字段，HttpError、TimeoutError和网络错误都附带请求方法
+ */
+export interface FetchError extends Error {
+  /** 请求方法 */
+  method?: HttpMethod;
+  /** 响应状态码，网络错误或超时时不存在 */
+  status?: number;
+  /** 原始响应 */
+  response?: Response;
+}
+
+/**
+ * 经过拦截器处理的完整请求配置
+ */
+export interface RequestConfig extends FetchOptions {
+  /** 请求URL（不含baseURL） */
+  url: string;
+  /** 请求头 */
+  headers: Record<string, string>;
+}
+
+/**
+ * 拦截器上下文
+ */
+export interface InterceptorContext {
+  /** 本次请求的配置 */
+  config: RequestConfig;
+  /** 使用新的配置重新发送请求，会再次经过请求拦截器，但不会经过响应拦截器 */
+  retry: (config?: Partial<RequestConfig>) => Promise<Response>;
+}
+
+/**
+ * 请求拦截器，可以修改请求配置（例如添加认证头）
+ */
+export type RequestInterceptor = (
+  config: RequestConfig
+) => RequestConfig | Promise<RequestConfig>;
+
+/**
+ * 响应拦截器
+ */
+export interface ResponseInterceptor {
+  /** 处理原始响应，可以返回新的响应（例如刷新令牌后重新请求） */
+  onResponse?: (
+    response: Response,
+    context: InterceptorContext
+  ) => Response | Promise<Response>;
+  /** 转换解析后的数据 */
+  onData?: (data: any, context: InterceptorContext) => any;
+  /** 统一处理错误，返回的错误会被抛出 */
+  onError?: (
+    error: Error,
+    context: InterceptorContext
+  ) => Error | Promise<Error>;
+}
+
+/**
+ * 拦截器配置
+ */
+export interface FetchInterceptors {
+  /** 请求拦截器，按顺序执行 */
+  request?: RequestInterceptor[];
+  /** 响应拦截器，按顺序执行 */
+  response?: ResponseInterceptor[];
+}
+
+/**
+ * 发送请求的传输层，与fetch的签名一致
+ */
+export type FetchTransport = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+/**
+ * 请求客户端配置
+ */
+export interface FetchClientConfig {
+  /** 基础URL */
+  baseURL?: string;
+  /** 默认请求头，会与每次请求的请求头合并 */
+  headers?: Record<string, string>;
+  /** 默认超时时间（毫秒），默认为10000 */
+  timeout?: number;
+  /** 拦截器 */
+  interceptors?: FetchInterceptors;
+  /** 使用的查询缓存，默认为全局缓存 */
+  queryCache?: QueryCache;
+  /** 传输层，默认为setDefaultTransport设置的传输层或全局fetch；设置后上传进度不再通过XMLHttpRequest报告 */
+  transport?: FetchTransport;
+}
+
+/**
+ * 发送请求的函数
+ */
+export type RequestFunction = <T = any>(
+  url: string,
+  options?: FetchOptions,
+  signal?: AbortSignal
+) => Promise<T>;
+
+/**
+ * 默认请求头
+ */
+const DEFAULT_HEADERS: Record<string, string> = {
+  'Content-Type': 'application/json',
+};
+
+/**
+ * 默认超时时间（毫秒）
+ */
+const DEFAULT_TIMEOUT = 10000;
+
+/**
+ * 未指定传输层的客户端使用的传输层，为null时使用全局fetch
+ */
+let defaultTransport: FetchTransport | null = null;
+
+/**
+ * 只作用于Hook或缓存、不属于单次请求的选项
+ */
+const NON_REQUEST_OPTION_KEYS = [
+  'cacheKey',
+  'staleTime',
+  'cacheTime',
+  'concurrency',
+  'retry',
+  'retryDelay',
+  'retryOn',
+  'maxRetryDelay',
+  'enabled',
+  'refetchInterval',
+  'refetchIntervalInBackground',
+  'refetchOnWindowFocus',
+  'refetchOnReconnect',
+  'responseType',
+  'parse',
+  'select',
+  'suspense',
+  'throwOnError',
+] as const;
+
+/**
+ * 复制对象并移除指定的键
+ * @param source - 源对象
+ * @param keys - 需要移除的键
+ * @returns 新对象
+ */
+function omitKeys<T extends object, K extends keyof T>(
+  source: T,
+  keys: readonly K[]
+): Omit<T, K> {
+  const result = { ...source };
+  keys.forEach(key => {
+    delete result[key];
+  });
+  return result;
+}
+
+/**
+ * 将各种形式的请求头转换为普通对象
+ * @param headers - 请求头
+ * @returns 请求头对象
+ */
+function toHeaderRecord(
+  headers?: RequestInit['headers']
+): Record<string, string> {
+  if (!headers) {
+    return {};
+  }
+  const record: Record<string, string> = {};
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach((value, key) => {
+      record[key] = value;
+    });
+  } else if (Array.isArray(headers)) {
+    headers.forEach(([key, value]) => {
+      record[key] = value;
+    });
+  } else {
+    Object.assign(record, headers);
+  }
+  return record;
+}
+
+/**
+ * 判断请求体是否需要原样发送，而不是序列化为JSON
+ * @param data - 请求体数据
+ * @returns 是否原样发送
+ */
+function isRawBody(data: unknown): data is NonNullable<RequestInit['body']> {
+  return (
+    (typeof FormData !== 'undefined' && data instanceof FormData) ||
+    (typeof Blob !== 'undefined' && data instanceof Blob) ||
+    (typeof URLSearchParams !== 'undefined' &&
+      data instanceof URLSearchParams) ||
+    (typeof ReadableStream !== 'undefined' && data instanceof ReadableStream) ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data)
+  );
+}
+
+/**
+ * 序列化请求体，FormData等原样发送，其他数据序列化为JSON
+ * @param data - 请求体数据
+ * @returns 请求体
+ */
+function serializeBody(data: unknown): NonNullable<RequestInit['body']> {
+  return isRawBody(data) ? data : JSON.stringify(data);
+}
+
+/**
+ * 移除请求头中的Content-Type，交由浏览器根据请求体设置
+ * @param headers - 请求头
+ * @returns 新的请求头
+ */
+function omitContentType(
+  headers: Record<string, string>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.keys(headers).forEach(key => {
+    if (key.toLowerCase() !== 'content-type') {
+      result[key] = headers[key];
+    }
+  });
+  return result;
+}
+
+/**
+ * 按解析方式读取响应
+ * @param response - 响应
+ * @param responseType - 解析方式，未设置时根据Content-Type解析为JSON或文本
+ * @returns 解析后的数据
+ */
+async function parseResponse(
+  response: Response,
+  responseType?: FetchResponseType
+): Promise<any> {
+  switch (responseType) {
+    case 'json': {
+      // 204等空响应体解析为null
+      const text = await response.text();
+      return text ? JSON.parse(text) : null;
+    }
+    case 'text':
+      return response.text();
+    case 'blob':
+      return response.blob();
+    case 'arrayBuffer':
+      return response.arrayBuffer();
+    case 'stream':
+      return response.body;
+    default: {
+      const contentType = response.headers.get('content-type');
+      if (contentType && contentType.includes('application/json')) {
+        return response.json();
+      }
+      return response.text();
+    }
+  }
+}
+
+/**
+ * 构建查询字符串
+ * @param params - 查询参数对象
+ * @returns 查询字符串
+ */
+function buildQueryString(
+  params: Record<string, string | number | boolean>
+): string {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    searchParams.append(key, String(value));
+  });
+  return searchParams.toString();
+}
+
+/**
+ * 生成请求的缓存键，只有GET请求会被缓存，stream响应和自定义parse的请求不会被缓存
+ * @param url - 请求URL
+ * @param options - 请求选项
+ * @returns 缓存键，不可缓存时返回null
+ */
+function getQueryKey(
+  url?: string,
+  options: FetchOptions = {}
+): QueryKey | null {
+  const {
+    method = 'GET',
+    params,
+    baseURL = '',
+    cacheKey,
+    responseType,
+    parse,
+    headers,
+  } = options;
+
+  if (cacheKey === false || !url) {
+    return null;
+  }
+  if (cacheKey !== undefined) {
+    return cacheKey;
+  }
+  // 响应流只能读取一次，不能在多个调用方之间共享；解析函数无法比较，需要显式指定缓存键
+  if (method !== 'GET' || responseType === 'stream' || parse) {
+    return null;
+  }
+
+  const sortedParams = params
+    ? Object.keys(params)
+        .sort()
+        .map(key => [key, params[key]])
+    : [];
+
+  // 解析方式和请求头不同的请求得到的数据可能不同，使用不同的缓存键
+  const variant: { responseType?: FetchResponseType; headers?: string[][] } =
+    {};
+  if (responseType) {
+    variant.responseType = responseType;
+  }
+  if (headers) {
+    const sortedHeaders: string[][] = [];
+    new Headers(headers).forEach((value, name) => {
+      sortedHeaders.push([name, value]);
+    });
+    if (sortedHeaders.length > 0) {
+      variant.headers = sortedHeaders;
+    }
+  }
+
+  return JSON.stringify(
+    Object.keys(variant).length > 0
+      ? [method, baseURL + url, sortedParams, variant]
+      : [method, baseURL + url, sortedParams]
+  );
+}
+
+/**
+ * 设置未指定传输层的客户端（包括useFetch等默认Hook）使用的传输层，常用于测试
+ * @param transport - 传输层，为null时恢复为全局fetch
+ */
+function setDefaultTransport(transport: FetchTransport | null) {
+  defaultTransport = transport;
+}
+
+/**
+ * 获取客户端使用的传输层
+ * @param clientConfig - 客户端配置
+ * @returns 传输层
+ */
+function resolveTransport(clientConfig: FetchClientConfig): FetchTransport {
+  return clientConfig.transport ?? defaultTransport ?? fetch;
+}
+
+/**
+ * 创建带超时和取消信号的fetch请求
+ * @param url - 请求URL
+ * @param options - 请求选项
+ * @param timeout - 超时时间
+ * @param signals - 外部取消信号，任意一个触发都会中止请求
+ * @param transport - 传输层，默认为全局fetch
+ * @returns Promise，超时时以TimeoutError结束，取消时以AbortError结束
+ */
+function fetchWithTimeout(
+  url: string,
+  options: RequestInit,
+  timeout: number,
+  signals: Array<AbortSignal | null | undefined> = [],
+  transport: FetchTransport = fetch
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeout, url, options.method as HttpMethod));
+    }, timeout);
+
+    // 将外部取消信号转发到请求
+    const handleAbort = () => controller.abort();
+    const activeSignals = signals.filter(
+      (signal): signal is AbortSignal => !!signal
+    );
+    activeSignals.forEach(signal => {
+      if (signal.aborted) {
+        controller.abort();
+      } else {
+        signal.addEventListener('abort', handleAbort);
+      }
+    });
+
+    transport(url, { ...options, signal: controller.signal })
+      .then(resolve)
+      .catch(err =>
+        // 统一原生fetch的取消错误，便于使用instanceof判断
+        reject(isAbortError(err) ? new AbortError() : err)
+      )
+      .finally(() => {
+        clearTimeout(timeoutId);
+        activeSignals.forEach(signal =>
+          signal.removeEventListener('abort', handleAbort)
+        );
+      });
+  });
+}
+
+/**
+ * 根据请求配置生成完整的请求URL
+ * @param config - 请求配置
+ * @returns 包含基础URL和查询字符串的URL
+ */
+function buildRequestUrl(config: RequestConfig): string {
+  const { url, params, baseURL = '' } = config;
+  let fullUrl = baseURL + url;
+  if (params) {
+    const queryString = buildQueryString(params);
+    fullUrl += (fullUrl.includes('?') ? '&' : '?') + queryString;
+  }
+  return fullUrl;
+}
+
+/**
+ * 根据客户端配置和请求选项生成完整的请求配置
+ * @param clientConfig - 客户端配置
+ * @param url - 请求URL
+ * @param options - 请求选项
+ * @returns 请求配置
+ */
+function resolveRequestConfig(
+  clientConfig: FetchClientConfig,
+  url: string,
+  options: FetchOptions = {}
+): RequestConfig {
+  const { baseURL = '', timeout = DEFAULT_TIMEOUT } = clientConfig;
+
+  // 原样发送的请求体不使用默认的JSON类型，除非单次请求显式指定
+  const defaultHeaders = { ...DEFAULT_HEADERS, ...clientConfig.headers };
+
+  return {
+    ...options,
+    url,
+    baseURL: options.baseURL ?? baseURL,
+    timeout: options.timeout ?? timeout,
+    headers: {
+      ...(isRawBody(options.data)
+        ? omitContentType(defaultHeaders)
+        : defaultHeaders),
+      ...toHeaderRecord(options.headers),
+    },
+  };
+}
+
+/**
+ * 依次执行客户端配置的请求拦截器
+ * @param clientConfig - 客户端配置
+ * @param config - 请求配置
+ * @returns 拦截器处理后的请求配置
+ */
+async function applyRequestInterceptors(
+  clientConfig: FetchClientConfig,
+  config: RequestConfig
+): Promise<RequestConfig> {
+  let result = config;
+  for (const interceptor of clientConfig.interceptors?.request ?? []) {
+    result = await interceptor(result);
+  }
+  return result;
+}
+
+/**
+ * 创建发送请求的函数，依次执行请求拦截器、发送请求、响应拦截器和数据解析
+ * @param clientConfig - 客户端配置
+ * @returns 请求函数
+ */
+function createRequest(clientConfig: FetchClientConfig = {}): RequestFunction {
+  const { response: responseInterceptors = [] } =
+    clientConfig.interceptors ?? {};
+
+  // 将请求配置转换为fetch调用
+  const send = async (
+    config: RequestConfig,
+    signal?: AbortSignal
+  ): Promise<Response> => {
+    const {
+      method = 'GET',
+      data,
+      timeout = DEFAULT_TIMEOUT,
+      headers,
+      onUploadProgress,
+      onDownloadProgress,
+      ...restOptions
+    } = omitKeys(config, [
+      ...NON_REQUEST_OPTION_KEYS,
+      'url',
+      'params',
+      'baseURL',
+    ] as const);
+    const fullUrl = buildRequestUrl(config);
+
+    // 构建请求选项
+    const requestOptions: RequestInit = {
+      method,
+      headers,
+      ...restOptions,
+    };
+
+    // 添加请求体
+    if (data && ['POST', 'PUT', 'PATCH'].includes(method)) {
+      requestOptions.body = serializeBody(data);
+    }
+
+    // 发送请求，网络错误附带请求方法以便判断是否重试
+    const signals = [requestOptions.signal, signal];
+    try {
+      // fetch无法报告上传进度，需要时改用XMLHttpRequest，自定义传输层除外
+      const transport = resolveTransport(clientConfig);
+      if (
+        onUploadProgress &&
+        transport === fetch &&
+        typeof XMLHttpRequest !== 'undefined'
+      ) {
+        return await xhrRequest(
+          fullUrl,
+          requestOptions,
+          timeout,
+          signals,
+          onUploadProgress,
+          onDownloadProgress
+        );
+      }
+
+      const response = await fetchWithTimeout(
+        fullUrl,
+        requestOptions,
+        timeout,
+        signals,
+        transport
+      );
+      return onDownloadProgress
+        ? trackDownloadProgress(response, onDownloadProgress)
+        : response;
+    } catch (err) {
+      if (err instanceof TimeoutError || isAbortError(err)) {
+        throw err;
+      }
+      throw Object.assign(err instanceof Error ? err : new Error(String(err)), {
+        method,
+      });
+    }
+  };
+
+  return async <T = any>(
+    url: string,
+    options?: FetchOptions,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    const config = await applyRequestInterceptors(
+      clientConfig,
+      resolveRequestConfig(clientConfig, url, options)
+    );
+    const context: InterceptorContext = {
+      config,
+      retry: async retryConfig => {
+        const nextConfig = await applyRequestInterceptors(clientConfig, {
+          ...config,
+          ...retryConfig,
+        });
+        return send(nextConfig, signal);
+      },
+    };
+
+    try {
+      let response = await send(config, signal);
+
+      // 执行响应拦截器
+      for (const interceptor of responseInterceptors) {
+        if (interceptor.onResponse) {
+          response = await interceptor.onResponse(response, context);
+        }
+      }
+
+      // 检查响应状态
+      if (!response.ok) {
+        throw new HttpError(
+          response,
+          response.url || buildRequestUrl(config),
+          config.method ?? 'GET'
+        );
+      }
+
+      // 解析响应
+      let data = config.parse
+        ? await config.parse(response)
+        : await parseResponse(response, config.responseType);
+
+      // 执行数据转换
+      for (const interceptor of responseInterceptors) {
+        if (interceptor.onData) {
+          data = await interceptor.onData(data, context);
+        }
+      }
+
+      return data as T;
+    } catch (err) {
+      let error = err instanceof Error ? err : new Error(String(err));
+
+      // 取消的请求不经过错误拦截器
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      for (const interceptor of responseInterceptors) {
+        if (interceptor.onError) {
+          error = await interceptor.onError(error, context);
+        }
+      }
+
+      throw error;
+    }
+  };
+}
+
+export {
+  createRequest,
+  getQueryKey,
+  setDefaultTransport,
+  resolveTransport,
+  resolveRequestConfig,
+  applyRequestInterceptors,
+  buildRequestUrl,
+  serializeBody,
+  omitKeys,
+};
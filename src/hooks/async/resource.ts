@@ -0,0 +1,98 @@
+/**
+ * Suspense资源的状态
+ */
+interface Resource<T = any> {
+  /** 加载状态 */
+  status: 'pending' | 'success' | 'error';
+  /** 加载中的Promise，Suspense会等待它结束 */
+  promise: Promise<void>;
+  /** 加载结果 */
+  value?: T;
+  /** 加载错误 */
+  error?: Error;
+}
+
+/**
+ * 按键保存的资源，保证同一键在多次渲染之间得到同一个Promise
+ */
+const globalResources = new Map<string, Resource>();
+
+/**
+ * 按作用域（如查询缓存）隔离的资源，服务端不同请求的同名键互不影响
+ */
+const scopedResources = new WeakMap<object, Map<string, Resource>>();
+
+/**
+ * 获取作用域对应的资源表
+ * @param scope - 作用域，未指定时使用全局资源表
+ * @returns 资源表
+ */
+function getResources(scope?: object): Map<string, Resource> {
+  if (!scope) {
+    return globalResources;
+  }
+  let map = scopedResources.get(scope);
+  if (!map) {
+    map = new Map();
+    scopedResources.set(scope, map);
+  }
+  return map;
+}
+
+/**
+ * 读取资源：已加载时返回结果，加载中时抛出Promise交给Suspense，失败时抛出错误交给错误边界
+ * @param key - 资源键
+ * @param load - 资源不存在时调用的加载函数
+ * @param scope - 作用域，未指定时使用全局资源表
+ * @returns 加载结果
+ */
+function readResource<T>(
+  key: string,
+  load: () => Promise<T>,
+  scope?: object
+): T {
+  const resources = getResources(scope);
+  let resource = resources.get(key) as Resource<T> | undefined;
+
+  if (!resource) {
+    const entry: Resource<T> = {
+      status: 'pending',
+      promise: load().then(
+        value => {
+          entry.status = 'success';
+          entry.value = value;
+        },
+        err => {
+          entry.status = 'error';
+          entry.error = err instanceof Error ? err : new Error(String(err));
+        }
+      ),
+    };
+    resources.set(key, entry);
+    resource = entry;
+  }
+
+  if (resource.status === 'pending') {
+    throw resource.promise;
+  }
+  if (resource.status === 'error') {
+    // 抛出后移除，错误边界重置后会重新加载
+    resources.delete(key);
+    throw resource.error;
+  }
+  return resource.value as T;
+}
+
+/**
+ * 释放已加载的资源，组件挂载后调用，之后的挂载会重新加载
+ * @param key - 资源键
+ * @param scope - 作用域，未指定时使用全局资源表
+ */
+function releaseResource(key: string, scope?: object) {
+  const resources = getResources(scope);
+  if (resources.get(key)?.status !== 'pending') {
+    resources.delete(key);
+  }
+}
+
+export { readResource, releaseResource };
@@ -0,0 +1,117 @@
+import { defaultRetryDelay, shouldRetry as shouldRetryWith } from './retry';
+import { resolveFetchRetry } from './useFetch';
+import { HttpError, TimeoutError } from './errors';
+import { HttpMethod } from './request';
+
+/**
+ * 创建附带请求方法的网络错误，与请求层抛出的错误一致
+ */
+function networkError(method: HttpMethod = 'GET') {
+  return Object.assign(new TypeError('Failed to fetch'), { method });
+}
+
+/**
+ * 创建指定状态码和响应头的HTTP错误
+ */
+function httpError(
+  status: number,
+  headers: Record<string, string> = {},
+  method: HttpMethod = 'GET'
+) {
+  return new HttpError(new Response(null, { status, headers }), '/api', method);
+}
+
+describe('retry', () => {
+  it('默认延迟按指数增长并限制在30秒内', () => {
+    expect(defaultRetryDelay(1)).toBeGreaterThanOrEqual(500);
+    expect(defaultRetryDelay(1)).toBeLessThanOrEqual(1000);
+    expect(defaultRetryDelay(3)).toBeGreaterThanOrEqual(2000);
+    expect(defaultRetryDelay(20)).toBeLessThanOrEqual(30000);
+  });
+
+  it('按次数或判断函数决定是否重试', () => {
+    const error = new Error('failed');
+    expect(shouldRetryWith(2, 2, error)).toBe(true);
+    expect(shouldRetryWith(2, 3, error)).toBe(false);
+    expect(shouldRetryWith((count: number) => count < 2, 2, error)).toBe(false);
+  });
+});
+
+describe('resolveFetchRetry', () => {
+  const { retry } = resolveFetchRetry({ retry: 3 });
+  const shouldRetry = retry as (count: number, error: Error) => boolean;
+
+  it('重试幂等请求的网络错误和超时', () => {
+    expect(shouldRetry(1, networkError())).toBe(true);
+    expect(shouldRetry(1, networkError('PUT'))).toBe(true);
+    expect(shouldRetry(1, new TimeoutError(1000, '/api', 'GET'))).toBe(true);
+  });
+
+  it('重试幂等请求的默认可重试状态码', () => {
+    expect(shouldRetry(1, httpError(503))).toBe(true);
+    expect(shouldRetry(1, httpError(429))).toBe(true);
+    expect(shouldRetry(1, httpError(404))).toBe(false);
+  });
+
+  it('不重试非幂等请求和未知请求方法的错误', () => {
+    expect(shouldRetry(1, networkError('POST'))).toBe(false);
+    expect(shouldRetry(1, httpError(503, {}, 'PATCH'))).toBe(false);
+    expect(shouldRetry(1, new TypeError('Failed to fetch'))).toBe(false);
+  });
+
+  it('显式指定的retryOn状态码对任何请求方法都重试', () => {
+    const { retry: retryOn } = resolveFetchRetry({
+      retry: 3,
+      retryOn: [429, 503],
+    });
+    const shouldRetryOn = retryOn as (count: number, error: Error) => boolean;
+
+    expect(shouldRetryOn(1, httpError(429, {}, 'POST'))).toBe(true);
+    expect(shouldRetryOn(1, httpError(503, {}, 'PATCH'))).toBe(true);
+    expect(shouldRetryOn(1, httpError(500, {}, 'GET'))).toBe(false);
+    // 网络错误时请求可能已经到达服务端，非幂等请求仍不重试
+    expect(shouldRetryOn(1, networkError('POST'))).toBe(false);
+    expect(shouldRetryOn(1, networkError('GET'))).toBe(true);
+  });
+
+  it('不重试没有状态码的其他错误', () => {
+    const parseError = Object.assign(new SyntaxError('Unexpected token'), {
+      method: 'GET' as const,
+    });
+    expect(shouldRetry(1, parseError)).toBe(false);
+    expect(
+      shouldRetry(1, Object.assign(new Error('x'), { method: 'GET' }))
+    ).toBe(false);
+  });
+
+  it('超过重试次数后停止', () => {
+    expect(shouldRetry(3, networkError())).toBe(true);
+    expect(shouldRetry(4, networkError())).toBe(false);
+  });
+
+  it('按Retry-After等待，但不超过maxRetryDelay', () => {
+    const { retryDelay } = resolveFetchRetry({ retry: 3, retryDelay: 100 });
+    const getDelay = retryDelay as (count: number, error: Error) => number;
+
+    expect(getDelay(1, httpError(503, { 'Retry-After': '2' }))).toBe(2000);
+    expect(getDelay(1, httpError(503, { 'Retry-After': '3600' }))).toBe(30000);
+    expect(getDelay(1, httpError(503))).toBe(100);
+
+    const { retryDelay: capped } = resolveFetchRetry({
+      retry: 3,
+      maxRetryDelay: 5000,
+    });
+    expect(
+      (capped as (count: number, error: Error) => number)(
+        1,
+        httpError(429, { 'Retry-After': '60' })
+      )
+    ).toBe(5000);
+  });
+
+  it('传入函数时由函数决定是否重试', () => {
+    const custom = jest.fn(() => true);
+    const { retry: customRetry } = resolveFetchRetry({ retry: custom });
+    expect(customRetry).toBe(custom);
+  });
+});
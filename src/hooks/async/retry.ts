@@ -0,0 +1,60 @@
+/**
+ * 重试策略：最大重试次数，或根据已失败次数和错误判断是否重试
+ */
+export type RetryOption =
+  number | ((failureCount: number, error: Error) => boolean);
+
+/**
+ * 重试延迟：固定毫秒数，或根据已失败次数和错误计算延迟
+ */
+export type RetryDelayOption =
+  number | ((failureCount: number, error: Error) => number);
+
+/**
+ * 默认的重试延迟：指数退避并加入随机抖动，最长30秒
+ * @param failureCount - 已失败次数
+ * @returns 延迟时间（毫秒）
+ */
+function defaultRetryDelay(failureCount: number): number {
+  const base = Math.min(1000 * 2 ** (failureCount - 1), 30000);
+  // 一半固定延迟加一半随机抖动，避免大量客户端同时重试
+  return base / 2 + Math.random() * (base / 2);
+}
+
+/**
+ * 判断是否需要重试
+ * @param retry - 重试策略
+ * @param failureCount - 已失败次数
+ * @param error - 最近一次的错误
+ * @returns 是否重试
+ */
+function shouldRetry(
+  retry: RetryOption,
+  failureCount: number,
+  error: Error
+): boolean {
+  if (typeof retry === 'function') {
+    return retry(failureCount, error);
+  }
+  return failureCount <= retry;
+}
+
+/**
+ * 计算下一次重试前的延迟
+ * @param retryDelay - 重试延迟配置
+ * @param failureCount - 已失败次数
+ * @param error - 最近一次的错误
+ * @returns 延迟时间（毫秒）
+ */
+function resolveRetryDelay(
+  retryDelay: RetryDelayOption,
+  failureCount: number,
+  error: Error
+): number {
+  if (typeof retryDelay === 'function') {
+    return retryDelay(failureCount, error);
+  }
+  return retryDelay;
+}
+
+export { defaultRetryDelay, shouldRetry, resolveRetryDelay };
@@ -0,0 +1,215 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useAsync, AsyncContext } from './useAsync';
+
+/**
+ * 创建按调用顺序手动结束的异步函数
+ */
+function createControlledTask() {
+  const calls: Array<{
+    value: string;
+    context: AsyncContext;
+    resolve: (value: string) => void;
+  }> = [];
+  const task = jest.fn(
+    (value: string, context: AsyncContext) =>
+      new Promise<string>(resolve => {
+        calls.push({ value, context, resolve });
+      })
+  );
+  return { task, calls };
+}
+
+/**
+ * 等待已排队的微任务执行完毕
+ */
+function flush() {
+  return act(() => Promise.resolve());
+}
+
+describe('useAsync', () => {
+  it('latest策略取消进行中的调用，只保留最后一次的结果', async () => {
+    const { task, calls } = createControlledTask();
+    const { result } = renderHook(() => useAsync(task));
+
+    let first!: Promise<string>;
+    let second!: Promise<string>;
+    act(() => {
+      first = result.current.execute('a');
+      second = result.current.execute('b');
+    });
+    await flush();
+
+    expect(calls[0].context.signal.aborted).toBe(true);
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+
+    await act(async () => {
+      calls[1].resolve('B');
+      await second;
+    });
+    expect(result.current.data).toBe('B');
+    expect(result.current.status).toBe('success');
+  });
+
+  it('first策略在调用进行中时返回同一个Promise', async () => {
+    const { task, calls } = createControlledTask();
+    const { result } = renderHook(() =>
+      useAsync(task, { concurrency: 'first' })
+    );
+
+    let first!: Promise<string>;
+    let second!: Promise<string>;
+    act(() => {
+      first = result.current.execute('a');
+      second = result.current.execute('b');
+    });
+    await flush();
+
+    expect(second).toBe(first);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      calls[0].resolve('A');
+      await first;
+    });
+    expect(result.current.data).toBe('A');
+  });
+
+  it('queue策略按调用顺序依次执行', async () => {
+    const { task, calls } = createControlledTask();
+    const { result } = renderHook(() =>
+      useAsync(task, { concurrency: 'queue' })
+    );
+
+    let second!: Promise<string>;
+    act(() => {
+      result.current.execute('a');
+      second = result.current.execute('b');
+    });
+    await flush();
+    expect(calls.map(call => call.value)).toEqual(['a']);
+
+    await act(async () => {
+      calls[0].resolve('A');
+    });
+    await flush();
+    expect(calls.map(call => call.value)).toEqual(['a', 'b']);
+
+    await act(async () => {
+      calls[1].resolve('B');
+      await second;
+    });
+    expect(result.current.data).toBe('B');
+  });
+
+  it('parallel策略中较早调用的结果不会覆盖较新的结果', async () => {
+    const { task, calls } = createControlledTask();
+    const { result } = renderHook(() =>
+      useAsync(task, { concurrency: 'parallel' })
+    );
+
+    let first!: Promise<string>;
+    let second!: Promise<string>;
+    act(() => {
+      first = result.current.execute('a');
+      second = result.current.execute('b');
+    });
+    await flush();
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      calls[1].resolve('B');
+      await second;
+    });
+    await act(async () => {
+      calls[0].resolve('A');
+      await first;
+    });
+    expect(result.current.data).toBe('B');
+  });
+
+  it('parallel策略中较早的调用先结束时，状态保持pending直到最后一次调用结束', async () => {
+    const { task, calls } = createControlledTask();
+    const { result } = renderHook(() =>
+      useAsync(task, { concurrency: 'parallel' })
+    );
+
+    let first!: Promise<string>;
+    let second!: Promise<string>;
+    act(() => {
+      first = result.current.execute('a');
+      second = result.current.execute('b');
+    });
+    await flush();
+
+    await act(async () => {
+      calls[0].resolve('A');
+      await first;
+    });
+    expect(result.current.data).toBe('A');
+    expect(result.current.status).toBe('pending');
+    expect(result.current.isLoading).toBe(true);
+
+    await act(async () => {
+      calls[1].resolve('B');
+      await second;
+    });
+    expect(result.current.data).toBe('B');
+    expect(result.current.status).toBe('success');
+  });
+
+  it('立即执行和Suspense首次加载都使用args作为参数', async () => {
+    const { task, calls } = createControlledTask();
+    renderHook(() => useAsync(task, { immediate: true, args: ['a'] }));
+    await flush();
+    expect(calls.map(call => call.value)).toEqual(['a']);
+
+    const load = jest.fn((id: string) => Promise.resolve(`user ${id}`));
+    const { result } = renderHook(() =>
+      useAsync(load, {
+        suspense: true,
+        suspenseKey: 'user:1',
+        args: ['1'],
+      })
+    );
+    await waitFor(() => expect(result.current?.data).toBe('user 1'));
+    expect(load).toHaveBeenCalledWith(
+      '1',
+      expect.objectContaining({ attempt: 1 })
+    );
+  });
+
+  it('cancel取消调用并恢复到之前的状态', async () => {
+    const { task, calls } = createControlledTask();
+    const { result } = renderHook(() => useAsync(task));
+
+    let pending!: Promise<string>;
+    act(() => {
+      pending = result.current.execute('a');
+    });
+    await flush();
+    expect(result.current.status).toBe('pending');
+
+    act(() => {
+      result.current.cancel();
+    });
+    expect(calls[0].context.signal.aborted).toBe(true);
+    expect(result.current.status).toBe('idle');
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('卸载时取消进行中的调用', async () => {
+    const { task, calls } = createControlledTask();
+    const { result, unmount } = renderHook(() => useAsync(task));
+
+    act(() => {
+      result.current.execute('a').catch(() => undefined);
+    });
+    await flush();
+    unmount();
+
+    expect(calls[0].context.signal.aborted).toBe(true);
+  });
+});
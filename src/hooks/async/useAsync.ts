@@ -1,10 +1,61 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { isAbortError, raceWithSignal, sleep } from './abort';
+import { AbortError } from './errors';
+import { readResource, releaseResource } from './resource';
+import {
+  RetryOption,
+  RetryDelayOption,
+  defaultRetryDelay,
+  shouldRetry,
+  resolveRetryDelay,
+} from './retry';
 
 /**
  * 异步操作的状态类型
  */
 export type AsyncStatus = 'idle' | 'pending' | 'success' | 'error';
 
+/**
+ * 并发执行策略
+ * - latest: 新的调用会取消进行中的调用，只保留最后一次的结果
+ * - first: 有调用进行中时忽略新的调用，直接返回进行中的Promise
+ * - queue: 按调用顺序依次执行
+ * - parallel: 同时执行所有调用，较早调用的结果不会覆盖较新的结果；最后一次调用结束前状态保持为pending
+ */
+export type AsyncConcurrency = 'latest' | 'first' | 'queue' | 'parallel';
+
+/**
+ * 传递给异步函数的执行上下文，作为最后一个参数追加在execute的参数之后
+ */
+export interface AsyncContext {
+  /** 取消信号，调用被取消或组件卸载时触发 */
+  signal: AbortSignal;
+  /** 当前是第几次尝试，从1开始 */
+  attempt: number;
+}
+
+/**
+ * useAsync Hook的配置选项
+ */
+export interface UseAsyncOptions {
+  /** 是否立即执行，默认为false */
+  immediate?: boolean;
+  /** 立即执行和Suspense首次加载时传给异步函数的参数，与execute的参数一致 */
+  args?: any[];
+  /** 并发执行策略，默认为latest */
+  concurrency?: AsyncConcurrency;
+  /** 失败后的重试次数或判断函数，默认不重试 */
+  retry?: RetryOption;
+  /** 重试前的延迟，默认为带随机抖动的指数退避 */
+  retryDelay?: RetryDelayOption;
+  /** 是否启用Suspense模式：首次加载时挂起组件，失败时将错误抛给错误边界 */
+  suspense?: boolean;
+  /** Suspense模式下的资源键，相同键的组件共享同一次加载，启用suspense时必须提供 */
+  suspenseKey?: string;
+  /** 出错时是否将错误抛给最近的错误边界，可传入函数按错误判断 */
+  throwOnError?: boolean | ((error: Error) => boolean);
+}
+
 /**
  * useAsync Hook的返回类型
  */
@@ -21,80 +72,294 @@ export interface UseAsyncReturn<T> {
   isSuccess: boolean;
   /** 是否出错 */
   isError: boolean;
+  /** 当前是第几次尝试，尚未执行时为0 */
+  attempt: number;
+  /** 当前执行已失败的次数 */
+  failureCount: number;
   /** 执行异步操作 */
   execute: (...args: any[]) => Promise<T>;
+  /** 取消所有进行中和排队中的调用 */
+  cancel: () => void;
   /** 重置状态 */
   reset: () => void;
 }
 
+/**
+ * 按重试策略执行异步函数
+ * @param fn - 异步函数
+ * @param signal - 取消信号
+ * @param retryOptions - 重试配置
+ * @param onAttempt - 每次尝试前调用
+ * @param onFailure - 每次失败后调用
+ * @returns 异步函数的结果
+ */
+async function runWithRetry<T>(
+  fn: (context: AsyncContext) => Promise<T>,
+  signal: AbortSignal,
+  retryOptions: { retry: RetryOption; retryDelay: RetryDelayOption },
+  onAttempt?: (attempt: number) => void,
+  onFailure?: (failureCount: number) => void
+): Promise<T> {
+  const { retry, retryDelay } = retryOptions;
+
+  for (let currentAttempt = 1; ; currentAttempt++) {
+    onAttempt?.(currentAttempt);
+
+    try {
+      return await raceWithSignal(
+        fn({ signal, attempt: currentAttempt }),
+        signal
+      );
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      onFailure?.(currentAttempt);
+
+      if (
+        signal.aborted ||
+        isAbortError(error) ||
+        !shouldRetry(retry, currentAttempt, error)
+      ) {
+        throw error;
+      }
+
+      await sleep(resolveRetryDelay(retryDelay, currentAttempt, error), signal);
+    }
+  }
+}
+
 /**
  * useAsync - 管理异步操作状态的React Hook
- * @param asyncFunction - 异步函数
- * @param immediate - 是否立即执行，默认为false
+ * @param asyncFunction - 异步函数，最后一个参数为包含取消信号的执行上下文
+ * @param options - 是否立即执行或配置选项，默认为false
  * @returns 包含异步操作状态和控制函数的对象
  */
 function useAsync<T>(
   asyncFunction: (...args: any[]) => Promise<T>,
-  immediate = false
+  options: boolean | UseAsyncOptions = false
 ): UseAsyncReturn<T> {
-  const [data, setData] = useState<T | null>(null);
+  const {
+    immediate = false,
+    args = [],
+    concurrency = 'latest',
+    retry = 0,
+    retryDelay = defaultRetryDelay,
+    suspense = false,
+    suspenseKey,
+    throwOnError = false,
+  } = typeof options === 'boolean' ? { immediate: options } : options;
+
+  // Suspense模式下首次挂载前通过资源缓存加载，加载结果作为初始数据
+  const committedRef = useRef(false);
+  let suspenseResult: { data: T } | null = null;
+  if (suspense && !committedRef.current) {
+    if (!suspenseKey) {
+      throw new Error('suspenseKey is required when suspense is enabled');
+    }
+    suspenseResult = {
+      data: readResource(suspenseKey, () =>
+        runWithRetry(
+          context => asyncFunction(...args, context),
+          new AbortController().signal,
+          { retry, retryDelay }
+        )
+      ),
+    };
+  }
+  const initialStatus: AsyncStatus = suspenseResult ? 'success' : 'idle';
+
+  const [data, setData] = useState<T | null>(() =>
+    suspenseResult ? suspenseResult.data : null
+  );
   const [error, setError] = useState<Error | null>(null);
-  const [status, setStatus] = useState<AsyncStatus>('idle');
+  const [status, setStatus] = useState<AsyncStatus>(initialStatus);
+  const [attempt, setAttempt] = useState(0);
+  const [failureCount, setFailureCount] = useState(0);
   const mountedRef = useRef(true);
 
+  // 进行中调用的取消控制器
+  const controllersRef = useRef(new Set<AbortController>());
+  // first策略下进行中的调用
+  const pendingRef = useRef<Promise<T> | null>(null);
+  // queue策略下的执行队列
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  // 最近一次发起和最近一次生效的调用序号
+  const callIdRef = useRef(0);
+  const settledIdRef = useRef(0);
+  // 最近一次结束时的状态，用于取消后恢复
+  const settledStatusRef = useRef<AsyncStatus>(initialStatus);
+  // Suspense模式已完成首次加载时跳过立即执行
+  const skipImmediateRef = useRef(initialStatus === 'success');
+  // 重试配置可能是内联函数，通过ref读取以保持execute引用稳定
+  const retryRef = useRef({ retry, retryDelay });
+  retryRef.current = { retry, retryDelay };
+  // 立即执行的参数可能是内联数组，通过ref读取，避免每次渲染都重新执行
+  const argsRef = useRef(args);
+  argsRef.current = args;
+
+  // 取消所有进行中的调用
+  const abortAll = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+    controllersRef.current.clear();
+    pendingRef.current = null;
+  }, []);
+
   // 执行异步操作
   const execute = useCallback(
-    async (...args: any[]): Promise<T> => {
-      setStatus('pending');
-      setError(null);
+    (...args: any[]): Promise<T> => {
+      if (concurrency === 'first' && pendingRef.current) {
+        return pendingRef.current;
+      }
+
+      if (concurrency === 'latest') {
+        abortAll();
+      }
 
-      try {
-        const result = await asyncFunction(...args);
+      const controller = new AbortController();
+      const { signal } = controller;
+      const callId = ++callIdRef.current;
+      controllersRef.current.add(controller);
 
-        // 检查组件是否仍然挂载
-        if (mountedRef.current) {
-          setData(result);
-          setStatus('success');
+      // 只有未被取消且不早于已生效调用的结果才会写入状态
+      const canCommit = () =>
+        mountedRef.current && !signal.aborted && callId > settledIdRef.current;
+      // 重试进度只展示最近一次发起的调用
+      const canReport = () =>
+        mountedRef.current && !signal.aborted && callId === callIdRef.current;
+      // 较早的调用先结束时仍有更新的调用进行中，状态保持为pending
+      const settledStatus = (result: AsyncStatus): AsyncStatus =>
+        callId === callIdRef.current ? result : 'pending';
+
+      const run = async (): Promise<T> => {
+        if (signal.aborted) {
+          throw new AbortError();
         }
 
-        return result;
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error(String(err));
+        setStatus('pending');
+        setError(null);
+        setFailureCount(0);
+
+        try {
+          const result = await runWithRetry(
+            context => asyncFunction(...args, context),
+            signal,
+            retryRef.current,
+            currentAttempt => {
+              if (canReport()) {
+                setAttempt(currentAttempt);
+              }
+            },
+            currentFailureCount => {
+              if (canReport()) {
+                setFailureCount(currentFailureCount);
+              }
+            }
+          );
+
+          if (canCommit()) {
+            settledIdRef.current = callId;
+            settledStatusRef.current = 'success';
+            setData(result);
+            setStatus(settledStatus('success'));
+          }
 
-        // 检查组件是否仍然挂载
-        if (mountedRef.current) {
-          setError(error);
-          setStatus('error');
+          return result;
+        } catch (err) {
+          const error = err instanceof Error ? err : new Error(String(err));
+
+          if (canCommit()) {
+            settledIdRef.current = callId;
+            settledStatusRef.current = 'error';
+            setError(error);
+            setStatus(settledStatus('error'));
+          }
+
+          throw error;
         }
+      };
 
-        throw error;
+      let promise: Promise<T>;
+      if (concurrency === 'queue') {
+        promise = queueRef.current.then(run, run);
+        queueRef.current = promise.catch(() => undefined);
+      } else {
+        promise = run();
       }
+
+      const cleanup = () => {
+        controllersRef.current.delete(controller);
+        if (pendingRef.current === promise) {
+          pendingRef.current = null;
+        }
+      };
+      promise.then(cleanup, cleanup);
+
+      if (concurrency === 'first') {
+        pendingRef.current = promise;
+      }
+
+      return promise;
     },
-    [asyncFunction]
+    [asyncFunction, concurrency, abortAll]
   );
 
+  // 取消调用并恢复到最近一次结束时的状态
+  const cancel = useCallback(() => {
+    abortAll();
+    if (mountedRef.current) {
+      setStatus(settledStatusRef.current);
+    }
+  }, [abortAll]);
+
   // 重置状态
   const reset = useCallback(() => {
+    settledStatusRef.current = 'idle';
     setData(null);
     setError(null);
     setStatus('idle');
+    setAttempt(0);
+    setFailureCount(0);
   }, []);
 
-  // 组件卸载时标记为未挂载
+  // 组件卸载时标记为未挂载并取消进行中的调用
   useEffect(() => {
     mountedRef.current = true;
     return () => {
       mountedRef.current = false;
+      abortAll();
     };
-  }, []);
+  }, [abortAll]);
+
+  // 挂载后释放Suspense资源，之后重新挂载的组件会重新加载
+  useEffect(() => {
+    committedRef.current = true;
+    if (suspense && suspenseKey) {
+      releaseResource(suspenseKey);
+    }
+  }, [suspense, suspenseKey]);
 
   // 立即执行
   useEffect(() => {
+    if (skipImmediateRef.current) {
+      skipImmediateRef.current = false;
+      return;
+    }
     if (immediate) {
-      execute();
+      execute(...argsRef.current).catch(() => {
+        // 错误已记录在状态中
+      });
     }
   }, [execute, immediate]);
 
+  // 将错误抛给最近的错误边界
+  if (
+    status === 'error' &&
+    error &&
+    (suspense ||
+      (typeof throwOnError === 'function' ? throwOnError(error) : throwOnError))
+  ) {
+    throw error;
+  }
+
   return {
     data,
     error,
@@ -102,9 +367,12 @@ function useAsync<T>(
     isLoading: status === 'pending',
     isSuccess: status === 'success',
     isError: status === 'error',
+    attempt,
+    failureCount,
     execute,
+    cancel,
     reset,
   };
 }
 
-export { useAsync };
+export { useAsync, runWithRetry };
@@ -0,0 +1,189 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useAsyncQueue } from './useAsyncQueue';
+import { AsyncContext } from './useAsync';
+
+/**
+ * 创建手动结束的任务，记录开始顺序和取消信号
+ */
+function createControlledTasks() {
+  const started: Array<{
+    name: string;
+    signal: AbortSignal;
+    resolve: (value: string) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  const task =
+    (name: string) =>
+    ({ signal }: AsyncContext) =>
+      new Promise<string>((resolve, reject) => {
+        started.push({ name, signal, resolve, reject });
+      });
+  return { task, started };
+}
+
+describe('useAsyncQueue', () => {
+  it('同时执行的任务不超过并发上限，任务结束后启动下一个', async () => {
+    const { task, started } = createControlledTasks();
+    const { result } = renderHook(() => useAsyncQueue({ concurrency: 2 }));
+
+    act(() => {
+      result.current.addAll([task('a'), task('b'), task('c')]);
+    });
+    expect(started.map(item => item.name)).toEqual(['a', 'b']);
+    expect(result.current.progress).toMatchObject({ running: 2, pending: 1 });
+
+    await act(async () => {
+      started[0].resolve('A');
+    });
+    expect(started.map(item => item.name)).toEqual(['a', 'b', 'c']);
+    expect(result.current.tasks[0]).toMatchObject({
+      status: 'success',
+      result: 'A',
+    });
+  });
+
+  it('按优先级启动等待中的任务，相同优先级按添加顺序', async () => {
+    const { task, started } = createControlledTasks();
+    const { result } = renderHook(() => useAsyncQueue({ autoStart: false }));
+
+    act(() => {
+      result.current.add(task('low'));
+      result.current.add(task('high'), { priority: 10 });
+      result.current.add(task('normal'));
+    });
+    expect(started).toHaveLength(0);
+    expect(result.current.isPaused).toBe(true);
+
+    act(() => {
+      result.current.resume();
+    });
+    await act(async () => {
+      started[0].resolve('');
+    });
+    await act(async () => {
+      started[1].resolve('');
+    });
+
+    expect(started.map(item => item.name)).toEqual(['high', 'low', 'normal']);
+  });
+
+  it('取消执行中的任务时触发signal并空出并发名额', async () => {
+    const { task, started } = createControlledTasks();
+    const onTaskError = jest.fn();
+    const { result } = renderHook(() => useAsyncQueue({ onTaskError }));
+
+    let firstId!: string;
+    act(() => {
+      [firstId] = result.current.addAll([task('a'), task('b')]);
+    });
+    act(() => {
+      result.current.cancel(firstId);
+    });
+
+    expect(started[0].signal.aborted).toBe(true);
+    expect(started.map(item => item.name)).toEqual(['a', 'b']);
+    expect(result.current.tasks[0].status).toBe('cancelled');
+
+    // 被取消的任务之后结束也不会改变状态
+    await act(async () => {
+      started[0].reject(new Error('aborted'));
+    });
+    expect(result.current.tasks[0].status).toBe('cancelled');
+    expect(onTaskError).not.toHaveBeenCalled();
+  });
+
+  it('任务全部结束后调用onIdle，失败的任务调用onTaskError', async () => {
+    const { task, started } = createControlledTasks();
+    const onIdle = jest.fn();
+    const onTaskError = jest.fn();
+    const { result } = renderHook(() =>
+      useAsyncQueue({ concurrency: 2, onIdle, onTaskError })
+    );
+
+    act(() => {
+      result.current.addAll([task('a'), task('b')]);
+    });
+    await act(async () => {
+      started[0].resolve('A');
+    });
+    expect(onIdle).not.toHaveBeenCalled();
+
+    await act(async () => {
+      started[1].reject(new Error('failed'));
+    });
+    expect(onTaskError).toHaveBeenCalledWith(
+      new Error('failed'),
+      expect.objectContaining({ status: 'error' })
+    );
+    expect(onIdle).toHaveBeenCalledTimes(1);
+    expect(result.current.isIdle).toBe(true);
+    expect(result.current.progress).toMatchObject({
+      succeeded: 1,
+      failed: 1,
+      percent: 100,
+    });
+  });
+
+  it('取消最后剩余的任务时调用onIdle', async () => {
+    const { task, started } = createControlledTasks();
+    const onIdle = jest.fn();
+    const { result } = renderHook(() => useAsyncQueue({ onIdle }));
+
+    act(() => {
+      result.current.addAll([task('a'), task('b')]);
+    });
+    await act(async () => {
+      started[0].resolve('A');
+    });
+    expect(onIdle).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current.cancel();
+    });
+    expect(onIdle).toHaveBeenCalledTimes(1);
+    expect(result.current.isIdle).toBe(true);
+
+    // 没有可取消的任务时不会再次调用
+    act(() => {
+      result.current.cancel();
+    });
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('失败的任务按retry重试', async () => {
+    let attempts = 0;
+    const { result } = renderHook(() =>
+      useAsyncQueue({ retry: 2, retryDelay: 0 })
+    );
+
+    act(() => {
+      result.current.add(async () => {
+        attempts++;
+        if (attempts < 3) throw new Error('flaky');
+        return 'done';
+      });
+    });
+    await waitFor(() => expect(result.current.tasks[0].status).toBe('success'));
+
+    expect(result.current.tasks[0]).toMatchObject({
+      status: 'success',
+      result: 'done',
+      attempt: 3,
+    });
+  });
+
+  it('卸载时取消执行中的任务', () => {
+    const { task, started } = createControlledTasks();
+    const { result, unmount } = renderHook(() => useAsyncQueue());
+
+    act(() => {
+      result.current.add(task('a'));
+    });
+    unmount();
+
+    expect(started[0].signal.aborted).toBe(true);
+  });
+});
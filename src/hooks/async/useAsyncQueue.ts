@@ -0,0 +1,391 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AsyncContext, runWithRetry } from './useAsync';
+import { RetryOption, RetryDelayOption, defaultRetryDelay } from './retry';
+
+/**
+ * 队列中任务的状态
+ */
+export type AsyncTaskStatus =
+  'pending' | 'running' | 'success' | 'error' | 'cancelled';
+
+/**
+ * 队列中执行的异步函数
+ */
+export type AsyncTaskFunction<T> = (context: AsyncContext) => Promise<T>;
+
+/**
+ * 任务的状态快照
+ */
+export interface AsyncQueueTask<T = any> {
+  /** 任务标识 */
+  id: string;
+  /** 当前状态 */
+  status: AsyncTaskStatus;
+  /** 优先级，数值越大越先执行 */
+  priority: number;
+  /** 执行结果 */
+  result: T | null;
+  /** 错误信息 */
+  error: Error | null;
+  /** 当前是第几次尝试，尚未执行时为0 */
+  attempt: number;
+}
+
+/**
+ * 添加任务时的选项
+ */
+export interface AsyncTaskOptions {
+  /** 任务标识，默认自动生成；与已结束的任务相同时替换该任务 */
+  id?: string;
+  /** 优先级，数值越大越先执行，相同优先级按添加顺序执行，默认为0 */
+  priority?: number;
+}
+
+/**
+ * 队列的整体进度
+ */
+export interface AsyncQueueProgress {
+  /** 任务总数 */
+  total: number;
+  /** 等待中的任务数 */
+  pending: number;
+  /** 执行中的任务数 */
+  running: number;
+  /** 成功的任务数 */
+  succeeded: number;
+  /** 失败的任务数 */
+  failed: number;
+  /** 已取消的任务数 */
+  cancelled: number;
+  /** 已结束的任务数 */
+  completed: number;
+  /** 完成百分比（0-100），没有任务时为0 */
+  percent: number;
+}
+
+/**
+ * useAsyncQueue Hook的配置选项
+ */
+export interface UseAsyncQueueOptions<T = any> {
+  /** 同时执行的最大任务数，默认为1 */
+  concurrency?: number;
+  /** 是否在添加任务后自动开始，为false时队列初始为暂停状态，默认为true */
+  autoStart?: boolean;
+  /** 任务失败后的重试次数或判断函数，默认不重试 */
+  retry?: RetryOption;
+  /** 重试前的延迟，默认为带随机抖动的指数退避 */
+  retryDelay?: RetryDelayOption;
+  /** 任务成功后调用 */
+  onTaskSuccess?: (result: T, task: AsyncQueueTask<T>) => void;
+  /** 任务失败后调用，取消的任务不会调用 */
+  onTaskError?: (error: Error, task: AsyncQueueTask<T>) => void;
+  /** 所有任务结束或被取消、队列变为空闲时调用 */
+  onIdle?: () => void;
+}
+
+/**
+ * useAsyncQueue Hook的返回类型
+ */
+export interface UseAsyncQueueReturn<T = any> {
+  /** 所有任务，按添加顺序排列 */
+  tasks: AsyncQueueTask<T>[];
+  /** 整体进度 */
+  progress: AsyncQueueProgress;
+  /** 是否已暂停 */
+  isPaused: boolean;
+  /** 是否没有等待中和执行中的任务 */
+  isIdle: boolean;
+  /** 添加任务，返回任务标识 */
+  add: (task: AsyncTaskFunction<T>, options?: AsyncTaskOptions) => string;
+  /** 批量添加任务，返回任务标识 */
+  addAll: (
+    tasks: AsyncTaskFunction<T>[],
+    options?: AsyncTaskOptions
+  ) => string[];
+  /** 暂停队列，执行中的任务会继续执行，等待中的任务不会开始 */
+  pause: () => void;
+  /** 恢复队列 */
+  resume: () => void;
+  /** 取消指定任务，不传标识时取消所有等待中和执行中的任务 */
+  cancel: (id?: string) => void;
+  /** 移除已结束的任务 */
+  clear: () => void;
+}
+
+/**
+ * 队列内部保存的任务
+ */
+interface QueueEntry<T> {
+  /** 状态快照，每次变化时替换为新对象 */
+  task: AsyncQueueTask<T>;
+  /** 异步函数 */
+  fn: AsyncTaskFunction<T>;
+  /** 添加顺序，用于相同优先级的排序 */
+  order: number;
+  /** 执行中任务的取消控制器 */
+  controller: AbortController | null;
+}
+
+/**
+ * 已结束的任务状态
+ */
+const FINISHED_STATUS: AsyncTaskStatus[] = ['success', 'error', 'cancelled'];
+
+/**
+ * 更新任务的状态快照
+ * @param entry - 任务
+ * @param changes - 变化的字段
+ */
+function updateTask<T>(
+  entry: QueueEntry<T>,
+  changes: Partial<AsyncQueueTask<T>>
+) {
+  entry.task = { ...entry.task, ...changes };
+}
+
+/**
+ * 统计任务进度
+ * @param tasks - 任务列表
+ * @returns 整体进度
+ */
+function getProgress(tasks: AsyncQueueTask[]): AsyncQueueProgress {
+  const count = (status: AsyncTaskStatus) =>
+    tasks.filter(task => task.status === status).length;
+  const succeeded = count('success');
+  const failed = count('error');
+  const cancelled = count('cancelled');
+  const completed = succeeded + failed + cancelled;
+
+  return {
+    total: tasks.length,
+    pending: count('pending'),
+    running: count('running'),
+    succeeded,
+    failed,
+    cancelled,
+    completed,
+    percent: tasks.length ? Math.round((completed / tasks.length) * 100) : 0,
+  };
+}
+
+/**
+ * useAsyncQueue - 限制并发数的异步任务队列Hook，支持优先级、暂停、恢复和取消
+ * @param options - 配置选项
+ * @returns 包含任务状态、整体进度和控制函数的对象
+ */
+function useAsyncQueue<T = any>(
+  options: UseAsyncQueueOptions<T> = {}
+): UseAsyncQueueReturn<T> {
+  const { concurrency = 1, autoStart = true } = options;
+
+  const [tasks, setTasks] = useState<AsyncQueueTask<T>[]>([]);
+  const [isPaused, setIsPaused] = useState(!autoStart);
+
+  // 任务按添加顺序保存在ref中，状态只是快照，调度不依赖渲染
+  const entriesRef = useRef(new Map<string, QueueEntry<T>>());
+  const orderRef = useRef(0);
+  const pausedRef = useRef(!autoStart);
+  const mountedRef = useRef(true);
+  // 回调和并发数通过ref读取，以保持控制函数引用稳定
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const publish = useCallback(() => {
+    if (mountedRef.current) {
+      setTasks(
+        Array.from(entriesRef.current.values()).map(entry => entry.task)
+      );
+    }
+  }, []);
+
+  // 没有等待中和执行中的任务时调用onIdle，任务完成或被取消都可能使队列变为空闲
+  const notifyIfIdle = useCallback(() => {
+    const isIdle = Array.from(entriesRef.current.values()).every(entry =>
+      FINISHED_STATUS.includes(entry.task.status)
+    );
+    if (isIdle && mountedRef.current) {
+      optionsRef.current.onIdle?.();
+    }
+  }, []);
+
+  // 按优先级启动等待中的任务，直到达到并发上限；任务结束后继续调度
+  const schedule = useCallback(() => {
+    const entries = entriesRef.current;
+
+    async function run(entry: QueueEntry<T>) {
+      const controller = new AbortController();
+      entry.controller = controller;
+      updateTask(entry, { status: 'running', error: null });
+
+      const {
+        retry = 0,
+        retryDelay = defaultRetryDelay,
+        onTaskSuccess,
+        onTaskError,
+      } = optionsRef.current;
+      try {
+        const result = await runWithRetry(
+          entry.fn,
+          controller.signal,
+          { retry, retryDelay },
+          attempt => {
+            updateTask(entry, { attempt });
+            publish();
+          }
+        );
+        if (controller.signal.aborted) return;
+        updateTask(entry, { status: 'success', result });
+        onTaskSuccess?.(result, entry.task);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        const error = err instanceof Error ? err : new Error(String(err));
+        updateTask(entry, { status: 'error', error });
+        onTaskError?.(error, entry.task);
+      } finally {
+        if (entry.controller === controller) {
+          entry.controller = null;
+        }
+      }
+
+      startPending();
+      notifyIfIdle();
+    }
+
+    function startPending() {
+      if (!pausedRef.current && mountedRef.current) {
+        const values = Array.from(entries.values());
+        const maxConcurrency = Math.max(1, optionsRef.current.concurrency ?? 1);
+        let running = values.filter(
+          entry => entry.task.status === 'running'
+        ).length;
+        const pending = values
+          .filter(entry => entry.task.status === 'pending')
+          .sort(
+            (a, b) => b.task.priority - a.task.priority || a.order - b.order
+          );
+
+        for (const entry of pending) {
+          if (running >= maxConcurrency) break;
+          running++;
+          run(entry);
+        }
+      }
+      publish();
+    }
+
+    startPending();
+  }, [publish, notifyIfIdle]);
+
+  const add = useCallback(
+    (fn: AsyncTaskFunction<T>, taskOptions: AsyncTaskOptions = {}) => {
+      const order = ++orderRef.current;
+      const id = taskOptions.id ?? `task-${order}`;
+      const existing = entriesRef.current.get(id);
+      if (existing && !FINISHED_STATUS.includes(existing.task.status)) {
+        throw new Error(`Task "${id}" is already in the queue`);
+      }
+
+      // 替换已结束的同名任务时移到末尾
+      entriesRef.current.delete(id);
+      entriesRef.current.set(id, {
+        task: {
+          id,
+          status: 'pending',
+          priority: taskOptions.priority ?? 0,
+          result: null,
+          error: null,
+          attempt: 0,
+        },
+        fn,
+        order,
+        controller: null,
+      });
+      schedule();
+      return id;
+    },
+    [schedule]
+  );
+
+  const addAll = useCallback(
+    (fns: AsyncTaskFunction<T>[], taskOptions: AsyncTaskOptions = {}) =>
+      fns.map(fn => add(fn, { priority: taskOptions.priority })),
+    [add]
+  );
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    schedule();
+  }, [schedule]);
+
+  const cancel = useCallback(
+    (id?: string) => {
+      const entries = id
+        ? [entriesRef.current.get(id)].filter(
+            (entry): entry is QueueEntry<T> => !!entry
+          )
+        : Array.from(entriesRef.current.values());
+
+      const cancelled = entries.filter(
+        entry => !FINISHED_STATUS.includes(entry.task.status)
+      );
+      cancelled.forEach(entry => {
+        entry.controller?.abort();
+        entry.controller = null;
+        updateTask(entry, { status: 'cancelled' });
+      });
+      // 取消执行中的任务会空出并发名额，取消最后剩余的任务时队列变为空闲
+      schedule();
+      if (cancelled.length > 0) {
+        notifyIfIdle();
+      }
+    },
+    [schedule, notifyIfIdle]
+  );
+
+  const clear = useCallback(() => {
+    entriesRef.current.forEach((entry, id) => {
+      if (FINISHED_STATUS.includes(entry.task.status)) {
+        entriesRef.current.delete(id);
+      }
+    });
+    publish();
+  }, [publish]);
+
+  // 并发数增加时立即启动更多任务
+  useEffect(() => {
+    schedule();
+  }, [concurrency, schedule]);
+
+  // 组件卸载时取消所有执行中的任务
+  useEffect(() => {
+    mountedRef.current = true;
+    const entries = entriesRef.current;
+    return () => {
+      mountedRef.current = false;
+      entries.forEach(entry => entry.controller?.abort());
+    };
+  }, []);
+
+  const progress = getProgress(tasks);
+
+  return {
+    tasks,
+    progress,
+    isPaused,
+    isIdle: progress.pending === 0 && progress.running === 0,
+    add,
+    addAll,
+    pause,
+    resume,
+    cancel,
+    clear,
+  };
+}
+
+export { useAsyncQueue };
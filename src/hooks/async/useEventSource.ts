@@ -0,0 +1,410 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  RetryOption,
+  RetryDelayOption,
+  defaultRetryDelay,
+  shouldRetry,
+  resolveRetryDelay,
+} from './retry';
+import { HttpError } from './errors';
+import {
+  FetchOptions,
+  FetchClientConfig,
+  resolveRequestConfig,
+  applyRequestInterceptors,
+  buildRequestUrl,
+  serializeBody,
+  resolveTransport,
+} from './request';
+import {
+  RawStreamEvent,
+  createEventStreamParser,
+  readEventStream,
+} from './eventStream';
+import { DEFAULT_CLIENT_CONFIG } from './useFetch';
+
+/**
+ * 事件源的连接状态
+ */
+export type EventSourceReadyState = 'connecting' | 'open' | 'closed';
+
+/**
+ * 事件源的传输方式
+ * - fetch: 通过fetch读取响应流，支持自定义请求头、请求方法和Last-Event-ID续传
+ * - eventsource: 使用浏览器原生EventSource，只支持GET和Cookie认证
+ */
+export type EventSourceTransport = 'fetch' | 'eventsource';
+
+/**
+ * 收到的事件
+ */
+export interface EventSourceMessage<T = any> {
+  /** 事件名称 */
+  event: string;
+  /** 解析后的数据 */
+  data: T;
+  /** 原始数据 */
+  raw: string;
+  /** 最近一次收到的事件ID */
+  lastEventId: string;
+}
+
+/**
+ * 按事件名称订阅的处理函数
+ */
+export type EventSourceHandlers<TEvents extends Record<string, any>> = {
+  [K in keyof TEvents & string]?: (
+    data: TEvents[K],
+    message: EventSourceMessage<TEvents[K]>
+  ) => void;
+};
+
+/**
+ * useEventSource Hook的配置选项
+ * @template TEvents - 事件名称到数据类型的映射
+ */
+export interface UseEventSourceOptions<
+  TEvents extends Record<string, any> = Record<string, any>,
+> extends Pick<
+  FetchOptions,
+  'method' | 'data' | 'params' | 'baseURL' | 'headers' | 'credentials'
+> {
+  /** 按事件名称订阅，未指定event字段的事件名称为message */
+  events?: EventSourceHandlers<TEvents>;
+  /** 收到任意事件时调用 */
+  onMessage?: (message: EventSourceMessage<TEvents[keyof TEvents]>) => void;
+  /** 连接建立时调用 */
+  onOpen?: () => void;
+  /** 连接出错时调用 */
+  onError?: (error: Error) => void;
+  /** 解析事件数据，默认尝试解析为JSON，失败时返回原始文本 */
+  parse?: (data: string, event: string) => any;
+  /** 是否建立连接，默认为true */
+  enabled?: boolean;
+  /** 传输方式，默认为fetch */
+  transport?: EventSourceTransport;
+  /** 初始的事件ID，连接时通过Last-Event-ID请求头发送，用于从断点续传 */
+  lastEventId?: string;
+  /** 断开后的重连次数或判断函数，默认无限重连 */
+  retry?: RetryOption;
+  /** 重连前的延迟，默认为带随机抖动的指数退避，服务端通过retry字段指定的间隔作为最短延迟 */
+  retryDelay?: RetryDelayOption;
+}
+
+/**
+ * useEventSource Hook的返回类型
+ */
+export interface UseEventSourceReturn<
+  TEvents extends Record<string, any> = Record<string, any>,
+> {
+  /** 连接状态 */
+  readyState: EventSourceReadyState;
+  /** 最近一次收到的事件数据 */
+  data: TEvents[keyof TEvents] | null;
+  /** 最近一次收到的事件 */
+  lastEvent: EventSourceMessage<TEvents[keyof TEvents]> | null;
+  /** 最近一次连接错误，连接成功后清空 */
+  error: Error | null;
+  /** 连续重连失败的次数 */
+  failureCount: number;
+  /** 关闭连接，不再重连 */
+  close: () => void;
+  /** 重新建立连接 */
+  open: () => void;
+}
+
+/**
+ * 请求成功但不应重连的状态码：204表示服务端要求停止
+ */
+const NO_RECONNECT_STATUS = [204];
+
+/**
+ * 默认的数据解析：尝试解析JSON，失败时返回原始文本
+ * @param data - 原始数据
+ * @returns 解析后的数据
+ */
+function defaultParse(data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * 使用指定客户端配置的useEventSource实现
+ * @param clientConfig - 客户端配置
+ * @param url - 事件流URL
+ * @param options - 配置选项
+ * @returns 包含连接状态、最新事件和控制函数的对象
+ */
+function useClientEventSource<
+  TEvents extends Record<string, any> = Record<string, any>,
+>(
+  clientConfig: FetchClientConfig,
+  url: string,
+  options: UseEventSourceOptions<TEvents> = {}
+): UseEventSourceReturn<TEvents> {
+  const { enabled = true, transport = 'fetch' } = options;
+
+  const [readyState, setReadyState] = useState<EventSourceReadyState>(
+    enabled ? 'connecting' : 'closed'
+  );
+  const [lastEvent, setLastEvent] = useState<EventSourceMessage<
+    TEvents[keyof TEvents]
+  > | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [failureCount, setFailureCount] = useState(0);
+  // 递增后重新建立连接
+  const [connectionId, setConnectionId] = useState(0);
+
+  // 回调可能是内联函数，通过ref读取，只有连接参数变化时才重新连接
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const lastEventIdRef = useRef(options.lastEventId ?? '');
+  const closeRef = useRef<(() => void) | null>(null);
+  const connectionSignature = JSON.stringify([
+    options.method,
+    options.data,
+    options.params,
+    options.baseURL,
+    options.headers,
+    options.credentials,
+  ]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setReadyState('closed');
+      return;
+    }
+
+    let disposed = false;
+    let controller: AbortController | null = null;
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let failures = 0;
+    let serverRetryDelay: number | undefined;
+
+    const teardown = () => {
+      disposed = true;
+      controller?.abort();
+      eventSource?.close();
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+    };
+    closeRef.current = () => {
+      teardown();
+      setReadyState('closed');
+    };
+
+    // 解析并分发事件
+    const dispatch = ({ event, data, id }: RawStreamEvent) => {
+      if (disposed) return;
+      if (id !== undefined) {
+        lastEventIdRef.current = id;
+      }
+
+      const { parse = defaultParse, onMessage, events } = optionsRef.current;
+      const message: EventSourceMessage = {
+        event,
+        data: parse(data, event),
+        raw: data,
+        lastEventId: lastEventIdRef.current,
+      };
+      setLastEvent(message);
+      onMessage?.(message);
+      events?.[event]?.(message.data, message);
+    };
+
+    const handleOpen = () => {
+      if (disposed) return;
+      failures = 0;
+      setFailureCount(0);
+      setError(null);
+      setReadyState('open');
+      optionsRef.current.onOpen?.();
+    };
+
+    // 连接断开后按重连策略重新连接
+    const handleDisconnect = (reason: Error, canReconnect = true) => {
+      if (disposed) return;
+      controller?.abort();
+      eventSource?.close();
+      failures++;
+      setFailureCount(failures);
+      setError(reason);
+      optionsRef.current.onError?.(reason);
+
+      const { retry = Infinity, retryDelay = defaultRetryDelay } =
+        optionsRef.current;
+      if (!canReconnect || !shouldRetry(retry, failures, reason)) {
+        setReadyState('closed');
+        return;
+      }
+
+      // 服务端指定的间隔作为最短延迟，连续失败时仍按退避策略增加
+      setReadyState('connecting');
+      reconnectTimer = setTimeout(
+        connect,
+        Math.max(
+          serverRetryDelay ?? 0,
+          resolveRetryDelay(retryDelay, failures, reason)
+        )
+      );
+    };
+
+    // 与FetchOptions一致的请求参数
+    const getRequestConfig = () => {
+      const { method, data, params, baseURL, headers, credentials } =
+        optionsRef.current;
+      return resolveRequestConfig(clientConfig, url, {
+        method,
+        data,
+        params,
+        baseURL,
+        headers,
+        credentials,
+      });
+    };
+
+    // 通过fetch读取响应流
+    const connectWithFetch = async () => {
+      controller = new AbortController();
+      const { signal } = controller;
+
+      try {
+        const baseConfig = getRequestConfig();
+        const config = await applyRequestInterceptors(clientConfig, {
+          ...baseConfig,
+          headers: {
+            ...baseConfig.headers,
+            Accept: 'text/event-stream',
+            ...(lastEventIdRef.current
+              ? { 'Last-Event-ID': lastEventIdRef.current }
+              : {}),
+          },
+        });
+        const { method = 'GET', data } = config;
+        const transport = resolveTransport(clientConfig);
+        const response = await transport(buildRequestUrl(config), {
+          method,
+          headers: config.headers,
+          credentials: config.credentials,
+          body: data && method !== 'GET' ? serializeBody(data) : undefined,
+          signal,
+        });
+
+        if (!response.ok) {
+          // 客户端错误通常无法通过重连恢复
+          const retryable =
+            response.status >= 500 || [408, 429].includes(response.status);
+          handleDisconnect(
+            new HttpError(response, buildRequestUrl(config), method),
+            retryable
+          );
+          return;
+        }
+        if (NO_RECONNECT_STATUS.includes(response.status)) {
+          teardown();
+          setReadyState('closed');
+          return;
+        }
+
+        handleOpen();
+        const parse = createEventStreamParser({
+          onEvent: dispatch,
+          onRetry: delay => {
+            serverRetryDelay = delay;
+          },
+        });
+        await readEventStream(response, parse);
+
+        // 服务端关闭连接后重新连接
+        handleDisconnect(new Error('Event stream closed by server'));
+      } catch (err) {
+        if (signal.aborted) return;
+        handleDisconnect(err instanceof Error ? err : new Error(String(err)));
+      }
+    };
+
+    // 使用浏览器原生EventSource
+    const connectWithEventSource = () => {
+      const config = getRequestConfig();
+      eventSource = new EventSource(buildRequestUrl(config), {
+        withCredentials: config.credentials === 'include',
+      });
+
+      const listen = (event: string) => {
+        eventSource?.addEventListener(event, e => {
+          const { data, lastEventId } = e as MessageEvent;
+          dispatch({ event, data, id: lastEventId });
+        });
+      };
+      listen('message');
+      Object.keys(optionsRef.current.events ?? {})
+        .filter(event => event !== 'message')
+        .forEach(listen);
+
+      eventSource.onopen = handleOpen;
+      // 原生EventSource的自动重连不支持退避，出错时关闭并自行重连
+      eventSource.onerror = () =>
+        handleDisconnect(new Error('EventSource connection failed'));
+    };
+
+    function connect() {
+      if (disposed) return;
+      setReadyState('connecting');
+      if (transport === 'eventsource') {
+        connectWithEventSource();
+      } else {
+        connectWithFetch();
+      }
+    }
+
+    connect();
+    return teardown;
+  }, [
+    clientConfig,
+    url,
+    enabled,
+    transport,
+    connectionSignature,
+    connectionId,
+  ]);
+
+  const close = useCallback(() => {
+    closeRef.current?.();
+  }, []);
+
+  const open = useCallback(() => {
+    setConnectionId(id => id + 1);
+  }, []);
+
+  return {
+    readyState,
+    data: lastEvent ? lastEvent.data : null,
+    lastEvent,
+    error,
+    failureCount,
+    close,
+    open,
+  };
+}
+
+/**
+ * useEventSource - 订阅服务端推送事件（SSE）的React Hook，断开后自动重连
+ * @param url - 事件流URL
+ * @param options - 配置选项
+ * @returns 包含连接状态、最新事件和控制函数的对象
+ */
+function useEventSource<
+  TEvents extends Record<string, any> = Record<string, any>,
+>(
+  url: string,
+  options?: UseEventSourceOptions<TEvents>
+): UseEventSourceReturn<TEvents> {
+  return useClientEventSource<TEvents>(DEFAULT_CLIENT_CONFIG, url, options);
+}
+
+export { useEventSource, useClientEventSource };
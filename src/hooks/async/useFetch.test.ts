@@ -0,0 +1,420 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Component, ReactNode, Suspense, createElement } from 'react';
+import {
+  render,
+  renderHook,
+  act,
+  waitFor,
+  cleanup,
+} from '@testing-library/react';
+import { useClientFetch } from './useFetch';
+import { createQueryCache, QueryCache } from './queryCache';
+import { FetchClientConfig, FetchOptions } from './request';
+
+/**
+ * 创建立即返回请求URL和参数的请求函数
+ */
+function createEchoRequest() {
+  return jest.fn(async (url: string, options?: FetchOptions): Promise<any> => ({
+    url,
+    params: options?.params,
+    data: options?.data,
+  }));
+}
+
+/**
+ * 测试用的错误边界，展示捕获到的错误信息
+ */
+class ErrorBoundary extends Component<
+  { children: ReactNode },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    return this.state.error
+      ? `Error: ${this.state.error.message}`
+      : this.props.children;
+  }
+}
+
+/**
+ * 在错误边界和Suspense中渲染组件
+ */
+function renderWithBoundary(children: ReactNode) {
+  return render(
+    createElement(
+      ErrorBoundary,
+      null,
+      createElement(Suspense, { fallback: 'Loading' }, children)
+    )
+  );
+}
+
+/**
+ * 等待挂起的Promise和状态更新
+ */
+const flush = () => act(() => Promise.resolve());
+
+describe('useFetch', () => {
+  let queryCache: QueryCache;
+  let config: FetchClientConfig;
+
+  beforeEach(() => {
+    queryCache = createQueryCache();
+    config = { queryCache };
+  });
+
+  // 先卸载组件再清空缓存，避免清空时更新已结束测试的组件
+  afterEach(() => {
+    cleanup();
+    queryCache.clear();
+  });
+
+  describe('自动请求', () => {
+    it('内联的选项对象和回调不会导致重复请求', async () => {
+      const request = createEchoRequest();
+      const { result, rerender } = renderHook(() =>
+        useClientFetch(
+          request,
+          config,
+          '/api/users',
+          {
+            params: { page: 1 },
+            select: data => data,
+            headers: { 'X-A': '1' },
+          },
+          true
+        )
+      );
+
+      await waitFor(() => expect(result.current.status).toBe('success'));
+      rerender();
+      rerender();
+      await flush();
+
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('查询参数变化时重新请求', async () => {
+      const request = createEchoRequest();
+      const { result, rerender } = renderHook(
+        ({ page }) =>
+          useClientFetch(
+            request,
+            config,
+            '/api/users',
+            { params: { page } },
+            true
+          ),
+        { initialProps: { page: 1 } }
+      );
+
+      await waitFor(() =>
+        expect(result.current.data?.params).toEqual({ page: 1 })
+      );
+      rerender({ page: 2 });
+
+      await waitFor(() =>
+        expect(result.current.data?.params).toEqual({ page: 2 })
+      );
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('不可缓存的请求在请求体变化时重新请求', async () => {
+      const request = createEchoRequest();
+      const { result, rerender } = renderHook(
+        ({ keyword }) =>
+          useClientFetch(
+            request,
+            config,
+            '/api/search',
+            { method: 'POST', data: { keyword } },
+            true
+          ),
+        { initialProps: { keyword: 'a' } }
+      );
+
+      await waitFor(() =>
+        expect(result.current.data?.data).toEqual({ keyword: 'a' })
+      );
+      rerender({ keyword: 'a' });
+      await flush();
+      expect(request).toHaveBeenCalledTimes(1);
+
+      rerender({ keyword: 'b' });
+
+      await waitFor(() =>
+        expect(result.current.data?.data).toEqual({ keyword: 'b' })
+      );
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('指定了缓存键的请求在查询参数变化时仍然重新请求', async () => {
+      const request = createEchoRequest();
+      const { result, rerender } = renderHook(
+        ({ page }) =>
+          useClientFetch(
+            request,
+            config,
+            '/api/users',
+            { params: { page }, cacheKey: 'users' },
+            true
+          ),
+        { initialProps: { page: 1 } }
+      );
+
+      await waitFor(() => expect(result.current.status).toBe('success'));
+      rerender({ page: 2 });
+
+      await waitFor(() => expect(request).toHaveBeenCalledTimes(2));
+      expect(request.mock.calls[1][1].params).toEqual({ page: 2 });
+    });
+  });
+
+  describe('数据选择', () => {
+    it('select只转换返回的数据，缓存中保存完整数据', async () => {
+      const request = createEchoRequest();
+      const { result } = renderHook(() =>
+        useClientFetch(
+          request,
+          config,
+          '/api/users',
+          { params: { page: 1 }, select: data => data.url },
+          true
+        )
+      );
+
+      await waitFor(() => expect(result.current.data).toBe('/api/users'));
+      expect(
+        queryCache.getQueryData(
+          JSON.stringify(['GET', '/api/users', [['page', 1]]])
+        )
+      ).toEqual({ url: '/api/users', params: { page: 1 } });
+      await act(async () => {
+        await expect(result.current.refetch()).resolves.toBe('/api/users');
+      });
+    });
+  });
+
+  describe('自动重新请求', () => {
+    let visibilityState: Document['visibilityState'];
+
+    /**
+     * 切换页面可见性并触发visibilitychange事件
+     */
+    function setVisibility(state: Document['visibilityState']) {
+      visibilityState = state;
+      act(() => {
+        document.dispatchEvent(new Event('visibilitychange'));
+      });
+    }
+
+    beforeEach(() => {
+      visibilityState = 'visible';
+      jest
+        .spyOn(document, 'visibilityState', 'get')
+        .mockImplementation(() => visibilityState);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('按refetchInterval轮询，页面隐藏时暂停，重新可见后恢复', async () => {
+      jest.useFakeTimers();
+      const request = createEchoRequest();
+      renderHook(() =>
+        useClientFetch(
+          request,
+          config,
+          '/api/status',
+          { refetchInterval: 1000 },
+          true
+        )
+      );
+      await flush();
+      expect(request).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        jest.advanceTimersByTime(2000);
+      });
+      expect(request).toHaveBeenCalledTimes(3);
+
+      setVisibility('hidden');
+      await act(async () => {
+        jest.advanceTimersByTime(3000);
+      });
+      expect(request).toHaveBeenCalledTimes(3);
+
+      setVisibility('visible');
+      await act(async () => {
+        jest.advanceTimersByTime(1000);
+      });
+      expect(request).toHaveBeenCalledTimes(4);
+    });
+
+    it('refetchIntervalInBackground为true时页面隐藏也继续轮询', async () => {
+      jest.useFakeTimers();
+      const request = createEchoRequest();
+      renderHook(() =>
+        useClientFetch(
+          request,
+          config,
+          '/api/status',
+          { refetchInterval: 1000, refetchIntervalInBackground: true },
+          true
+        )
+      );
+      await flush();
+
+      setVisibility('hidden');
+      await act(async () => {
+        jest.advanceTimersByTime(2000);
+      });
+
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('窗口重新获得焦点时只重新请求过期数据', async () => {
+      const request = createEchoRequest();
+      const { rerender } = renderHook(
+        ({ staleTime }) =>
+          useClientFetch(
+            request,
+            config,
+            '/api/me',
+            { staleTime, refetchOnWindowFocus: true },
+            true
+          ),
+        { initialProps: { staleTime: 60000 } }
+      );
+      await waitFor(() => expect(request).toHaveBeenCalledTimes(1));
+
+      setVisibility('hidden');
+      setVisibility('visible');
+      await flush();
+      expect(request).toHaveBeenCalledTimes(1);
+
+      rerender({ staleTime: 0 });
+      act(() => {
+        window.dispatchEvent(new Event('blur'));
+        window.dispatchEvent(new Event('focus'));
+      });
+
+      await waitFor(() => expect(request).toHaveBeenCalledTimes(2));
+    });
+
+    it('网络重新连接时重新请求，禁用时不请求', async () => {
+      const request = createEchoRequest();
+      const { rerender } = renderHook(
+        ({ enabled }) =>
+          useClientFetch(
+            request,
+            config,
+            '/api/me',
+            { enabled, refetchOnReconnect: true },
+            true
+          ),
+        { initialProps: { enabled: true } }
+      );
+      await waitFor(() => expect(request).toHaveBeenCalledTimes(1));
+
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+      await waitFor(() => expect(request).toHaveBeenCalledTimes(2));
+
+      rerender({ enabled: false });
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+      await flush();
+
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Suspense和错误边界', () => {
+    beforeEach(() => {
+      // React会把错误边界捕获的错误输出到控制台
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('Suspense模式下挂起直到数据加载完成，相同请求的组件共享一次加载', async () => {
+      const request = createEchoRequest();
+      const User = () => {
+        const { data } = useClientFetch(request, config, '/api/me', {
+          suspense: true,
+        });
+        return data!.url;
+      };
+
+      const { container } = renderWithBoundary([
+        createElement(User, { key: 1 }),
+        createElement(User, { key: 2 }),
+      ]);
+      expect(container.textContent).toBe('Loading');
+
+      await waitFor(() => expect(container.textContent).toBe('/api/me/api/me'));
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('Suspense模式下加载失败时把错误交给错误边界', async () => {
+      const request = jest.fn(async () => {
+        throw new Error('Not found');
+      });
+      const User = () => {
+        useClientFetch(request, config, '/api/me', { suspense: true });
+        return 'done';
+      };
+
+      const { container } = renderWithBoundary(createElement(User));
+
+      await waitFor(() =>
+        expect(container.textContent).toBe('Error: Not found')
+      );
+    });
+
+    it('throwOnError为函数时只把匹配的错误交给错误边界', async () => {
+      const request = jest.fn(async (url: string) => {
+        throw new Error(url === '/api/fatal' ? 'Fatal' : 'Recoverable');
+      });
+      const User = ({ url }: { url: string }) => {
+        const { error } = useClientFetch(
+          request,
+          config,
+          url,
+          { throwOnError: err => err.message === 'Fatal' },
+          true
+        );
+        return error ? `Handled: ${error.message}` : 'Loading';
+      };
+
+      const recoverable = renderWithBoundary(
+        createElement(User, { url: '/api/recoverable' })
+      );
+      const fatal = renderWithBoundary(
+        createElement(User, { url: '/api/fatal' })
+      );
+
+      await waitFor(() =>
+        expect(recoverable.container.textContent).toBe('Handled: Recoverable')
+      );
+      await waitFor(() =>
+        expect(fatal.container.textContent).toBe('Error: Fatal')
+      );
+    });
+  });
+});
@@ -1,164 +1,518 @@
-import { useMemo } from 'react';
-import { useAsync, UseAsyncReturn } from './useAsync';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useAsync, UseAsyncReturn, AsyncContext } from './useAsync';
+import { QueryKey, QueryState, noopQueryCache } from './queryCache';
+import { useQueryCache } from './queryCacheContext';
+import {
+  RetryOption,
+  RetryDelayOption,
+  defaultRetryDelay,
+  resolveRetryDelay,
+} from './retry';
+import {
+  HttpMethod,
+  FetchOptions,
+  FetchError,
+  FetchClientConfig,
+  RequestFunction,
+  createRequest,
+  getQueryKey,
+} from './request';
+import { TimeoutError } from './errors';
+import { FetchProgress } from './progress';
+import { readResource, releaseResource } from './resource';
+import {
+  subscribeRefetchEvent,
+  isDocumentVisible,
+  isOnline,
+} from './refetchEvents';
 
 /**
- * HTTP请求方法类型
+ * useFetch Hook的返回类型
  */
-export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+export interface UseFetchReturn<T> extends Omit<UseAsyncReturn<T>, 'execute'> {
+  /** 执行请求 */
+  execute: (url?: string, options?: FetchOptions) => Promise<T>;
+  /** 重新请求 */
+  refetch: () => Promise<T>;
+  /** 是否有请求正在进行（包括后台刷新） */
+  isFetching: boolean;
+  /** 传输进度，上传时为上传进度，之后为下载进度；只有设置了进度回调时才会更新 */
+  progress: FetchProgress | null;
+}
 
 /**
- * 请求配置选项
+ * useSuspenseFetch Hook的返回类型，数据在首次渲染时已加载完成
  */
-export interface FetchOptions extends Omit<RequestInit, 'method' | 'body'> {
-  /** HTTP方法 */
-  method?: HttpMethod;
-  /** 请求体数据 */
-  data?: any;
-  /** 查询参数 */
-  params?: Record<string, string | number | boolean>;
-  /** 基础URL */
-  baseURL?: string;
-  /** 请求超时时间（毫秒） */
-  timeout?: number;
+export interface UseSuspenseFetchReturn<T> extends UseFetchReturn<T> {
+  /** 响应数据 */
+  data: T;
 }
 
 /**
- * useFetch Hook的返回类型
+ * 幂等的请求方法，网络错误、超时和默认的状态码只对这些方法重试
  */
-export interface UseFetchReturn<T> extends Omit<UseAsyncReturn<T>, 'execute'> {
-  /** 执行请求 */
-  execute: (url?: string, options?: FetchOptions) => Promise<T>;
-  /** 重新请求 */
-  refetch: () => Promise<T>;
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+/**
+ * 默认会重试的响应状态码
+ */
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+
+/**
+ * 默认的最长重试延迟（毫秒），Retry-After超过此值时按此值等待
+ */
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+
+/**
+ * 判断错误是否为超时或网络错误（fetch和XMLHttpRequest在网络失败时抛出TypeError）
+ * @param error - 请求错误
+ * @returns 是否为超时或网络错误
+ */
+function isNetworkError(error: Error): boolean {
+  return error instanceof TimeoutError || error instanceof TypeError;
 }
 
 /**
- * 构建查询字符串
- * @param params - 查询参数对象
- * @returns 查询字符串
+ * 判断请求错误是否可以重试：显式指定的retryOn状态码对任何方法都重试；
+ * 否则只重试幂等请求的网络错误、超时或默认的状态码，
+ * 无法确定请求方法的错误（如解析或拦截器抛出的错误）不会重试
+ * @param error - 请求错误
+ * @param retryOn - 显式指定的可重试状态码
+ * @returns 是否可以重试
  */
-function buildQueryString(
-  params: Record<string, string | number | boolean>
-): string {
-  const searchParams = new URLSearchParams();
-  Object.entries(params).forEach(([key, value]) => {
-    searchParams.append(key, String(value));
-  });
-  return searchParams.toString();
+function isRetryableError(error: FetchError, retryOn?: number[]): boolean {
+  if (error.status !== undefined && retryOn) {
+    return retryOn.includes(error.status);
+  }
+  if (!error.method || !IDEMPOTENT_METHODS.includes(error.method)) {
+    return false;
+  }
+  if (error.status !== undefined) {
+    return RETRYABLE_STATUS.includes(error.status);
+  }
+  return isNetworkError(error);
+}
+
+/**
+ * 读取响应的Retry-After头
+ * @param error - 请求错误
+ * @returns 延迟时间（毫秒），没有或无法解析时返回undefined
+ */
+function getRetryAfter(error: FetchError): number | undefined {
+  const retryAfter = error.response?.headers.get('Retry-After');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  // 支持秒数和HTTP日期两种格式
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
 /**
- * 创建带超时的fetch请求
- * @param url - 请求URL
+ * 根据请求选项生成重试策略：设置次数时只重试可重试的错误，并优先遵循Retry-After（不超过maxRetryDelay）
  * @param options - 请求选项
- * @param timeout - 超时时间
- * @returns Promise
+ * @returns useAsync的重试配置
  */
-function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeout: number
-): Promise<Response> {
-  return new Promise((resolve, reject) => {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-      reject(new Error(`Request timeout after ${timeout}ms`));
-    }, timeout);
-
-    fetch(url, { ...options, signal: controller.signal })
-      .then(resolve)
-      .catch(reject)
-      .finally(() => clearTimeout(timeoutId));
-  });
+function resolveFetchRetry(options: FetchOptions = {}): {
+  retry: RetryOption;
+  retryDelay: RetryDelayOption;
+} {
+  const {
+    retry = 0,
+    retryDelay = defaultRetryDelay,
+    retryOn,
+    maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+  } = options;
+
+  return {
+    retry:
+      typeof retry === 'function'
+        ? retry
+        : (failureCount, error) =>
+            failureCount <= retry && isRetryableError(error, retryOn),
+    retryDelay: (failureCount, error) => {
+      const retryAfter = getRetryAfter(error);
+      return retryAfter === undefined
+        ? resolveRetryDelay(retryDelay, failureCount, error)
+        : Math.min(retryAfter, maxRetryDelay);
+    },
+  };
 }
 
 /**
- * useFetch - HTTP请求的React Hook
+ * 默认客户端配置
+ */
+const DEFAULT_CLIENT_CONFIG: FetchClientConfig = {};
+
+/**
+ * 使用指定请求函数和客户端配置的useFetch实现
+ * @param request - 请求函数
+ * @param clientConfig - 客户端配置
  * @param initialUrl - 初始请求URL
  * @param initialOptions - 初始请求选项
- * @param immediate - 是否立即执行请求，默认为false
+ * @param immediate - 是否立即执行请求
  * @returns 包含请求状态和控制函数的对象
  */
-function useFetch<T = any>(
+function useClientFetch<T = any, TSelected = T>(
+  request: RequestFunction,
+  clientConfig: FetchClientConfig,
   initialUrl?: string,
-  initialOptions?: FetchOptions,
+  initialOptions?: FetchOptions<T, TSelected>,
   immediate = false
-): UseFetchReturn<T> {
+): UseFetchReturn<TSelected> {
+  // 当前展示的缓存键及其状态
+  const queryCache = useQueryCache(clientConfig.queryCache);
+  // 初始请求的缓存键，包含URL、方法和查询参数
+  const initialKey = getQueryKey(initialUrl, {
+    baseURL: clientConfig.baseURL,
+    ...initialOptions,
+  });
+  const [activeKey, setActiveKey] = useState<QueryKey | null>(initialKey);
+  const [queryState, setQueryState] = useState<QueryState<T> | null>(() =>
+    activeKey ? queryCache.getQueryState<T>(activeKey) : null
+  );
+  const [progress, setProgress] = useState<FetchProgress | null>(null);
+
+  // 初始选项通过ref读取，避免内联对象导致重复请求
+  const initialOptionsRef = useRef(initialOptions);
+  initialOptionsRef.current = initialOptions;
+
+  // 最近一次请求的参数，自动重新请求时复用
+  const lastCallRef = useRef<{ url?: string; options?: FetchOptions } | null>(
+    initialOptions?.suspense ? { url: initialUrl } : null
+  );
+
   // 创建请求函数
   const fetchFunction = useMemo(() => {
-    return async (url?: string, options?: FetchOptions): Promise<T> => {
+    return async (
+      url?: string,
+      options?: FetchOptions,
+      context?: AsyncContext
+    ): Promise<T> => {
       const finalUrl = url || initialUrl;
-      const finalOptions = { ...initialOptions, ...options };
+      const finalOptions = { ...initialOptionsRef.current, ...options };
 
       if (!finalUrl) {
         throw new Error('URL is required for fetch request');
       }
+      lastCallRef.current = { url: finalUrl, options };
 
-      const {
-        method = 'GET',
-        data,
-        params,
-        baseURL = '',
-        timeout = 10000,
-        headers = {},
-        ...restOptions
-      } = finalOptions;
-
-      // 构建完整URL
-      let fullUrl = baseURL + finalUrl;
-      if (params) {
-        const queryString = buildQueryString(params);
-        fullUrl += (fullUrl.includes('?') ? '&' : '?') + queryString;
+      // 设置了进度回调时同步更新progress
+      const { staleTime, cacheTime, onUploadProgress, onDownloadProgress } =
+        finalOptions;
+      if (onUploadProgress || onDownloadProgress) {
+        setProgress(null);
+        finalOptions.onUploadProgress =
+          onUploadProgress &&
+          (value => {
+            setProgress(value);
+            onUploadProgress(value);
+          });
+        finalOptions.onDownloadProgress =
+          onDownloadProgress &&
+          (value => {
+            setProgress(value);
+            onDownloadProgress(value);
+          });
       }
 
-      // 构建请求选项
-      const requestOptions: RequestInit = {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers,
-        },
-        ...restOptions,
-      };
-
-      // 添加请求体
-      if (data && ['POST', 'PUT', 'PATCH'].includes(method)) {
-        requestOptions.body = JSON.stringify(data);
+      const send = (signal?: AbortSignal) =>
+        request<T>(finalUrl, finalOptions, signal);
+
+      // 可缓存的请求通过共享缓存发送，相同键的并发请求只会发送一次
+      const key = getQueryKey(finalUrl, {
+        baseURL: clientConfig.baseURL,
+        ...finalOptions,
+      });
+      setActiveKey(key);
+      if (key) {
+        return queryCache.fetchQuery(key, send, {
+          staleTime,
+          cacheTime,
+          signal: context?.signal,
+        });
       }
 
-      // 发送请求
-      const response = await fetchWithTimeout(fullUrl, requestOptions, timeout);
+      return send(context?.signal);
+    };
+  }, [request, clientConfig, queryCache, initialUrl]);
+
+  // 使用useAsync管理异步状态，立即执行由下方显式传入参数的execute负责
+  const asyncResult = useAsync(fetchFunction, {
+    concurrency: initialOptions?.concurrency,
+    throwOnError: initialOptions?.suspense || initialOptions?.throwOnError,
+    ...resolveFetchRetry(initialOptions),
+  });
+
+  // 订阅当前缓存键，其他组件的请求或手动更新缓存时同步数据
+  useEffect(() => {
+    if (!activeKey) {
+      setQueryState(null);
+      return;
+    }
+
+    const syncState = () => {
+      setQueryState(queryCache.getQueryState<T>(activeKey));
+    };
+
+    syncState();
+    return queryCache.subscribe(activeKey, syncState);
+  }, [queryCache, activeKey]);
+
+  // 从完整数据中选取需要的部分，未设置select时原样返回
+  const select = initialOptions?.select;
+  const selectRef = useRef(select);
+  selectRef.current = select;
+  const applySelect = useCallback(
+    (data: T): TSelected =>
+      selectRef.current ? selectRef.current(data) : (data as any),
+    []
+  );
+
+  // 执行请求，显式传入参数位置以便追加执行上下文
+  const { execute: executeAsync } = asyncResult;
+  const execute = useCallback(
+    (url?: string, options?: FetchOptions) =>
+      executeAsync(url, options).then(applySelect),
+    [executeAsync, applySelect]
+  );
+
+  // 立即执行，请求（URL、方法、参数或请求体）变化或重新启用时重新请求；
+  // 不可缓存或指定了缓存键的请求无法从缓存键看出参数变化，需要同时比较参数和请求体
+  const enabled = initialOptions?.enabled ?? true;
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  const requestKey = JSON.stringify([
+    initialKey,
+    initialOptions?.params,
+    initialOptions?.data,
+  ]);
+  const method = initialOptions?.method;
+  const responseType = initialOptions?.responseType;
+  useEffect(() => {
+    if (immediate && enabled) {
+      execute().catch(() => {
+        // 错误已记录在状态中
+      });
+    }
+  }, [execute, immediate, enabled, requestKey, method, responseType]);
+
+  // 重新请求函数，忽略缓存的新鲜度
+  const refetch = useCallback(() => {
+    return execute(initialUrl, { ...initialOptionsRef.current, staleTime: 0 });
+  }, [execute, initialUrl]);
 
-      // 检查响应状态
-      if (!response.ok) {
-        throw new Error(
-          `HTTP Error: ${response.status} ${response.statusText}`
-        );
+  // 重新发送最近一次请求，force为true时忽略缓存的新鲜度
+  const isFetchingRef = useRef(false);
+  isFetchingRef.current = asyncResult.isLoading;
+  const revalidate = useCallback(
+    (force: boolean) => {
+      const lastCall = lastCallRef.current;
+      if (
+        !lastCall ||
+        !enabledRef.current ||
+        isFetchingRef.current ||
+        !isOnline()
+      ) {
+        return;
       }
 
-      // 解析响应
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        return await response.json();
+      const staleTime = force ? 0 : initialOptionsRef.current?.staleTime;
+      execute(lastCall.url, { ...lastCall.options, staleTime }).catch(() => {
+        // 错误已记录在状态中
+      });
+    },
+    [execute]
+  );
+
+  const {
+    refetchInterval,
+    refetchIntervalInBackground = false,
+    refetchOnWindowFocus = false,
+    refetchOnReconnect = false,
+  } = initialOptions ?? {};
+
+  // 轮询，页面隐藏时暂停，重新可见后恢复
+  useEffect(() => {
+    if (!enabled || !refetchInterval || refetchInterval <= 0) {
+      return;
+    }
+
+    let intervalId: ReturnType<typeof setInterval> | null = null;
+    const stop = () => {
+      if (intervalId !== null) {
+        clearInterval(intervalId);
+        intervalId = null;
+      }
+    };
+    const update = () => {
+      if (refetchIntervalInBackground || isDocumentVisible()) {
+        if (intervalId === null) {
+          intervalId = setInterval(() => revalidate(true), refetchInterval);
+        }
+      } else {
+        stop();
       }
+    };
 
-      return (await response.text()) as unknown as T;
+    update();
+    const unsubscribe = subscribeRefetchEvent('visibility', update);
+    return () => {
+      unsubscribe();
+      stop();
     };
-  }, [initialUrl, initialOptions]);
+  }, [enabled, refetchInterval, refetchIntervalInBackground, revalidate]);
+
+  // 窗口重新获得焦点时重新请求过期数据
+  useEffect(() => {
+    if (!refetchOnWindowFocus) {
+      return;
+    }
+    return subscribeRefetchEvent('focus', () => revalidate(false));
+  }, [refetchOnWindowFocus, revalidate]);
+
+  // 网络重新连接时重新请求过期数据
+  useEffect(() => {
+    if (!refetchOnReconnect) {
+      return;
+    }
+    return subscribeRefetchEvent('reconnect', () => revalidate(false));
+  }, [refetchOnReconnect, revalidate]);
+
+  // Suspense模式下展示初始URL对应的缓存，尚无数据时挂起组件直到共享缓存加载完成
+  const suspense = !!initialOptions?.suspense;
+  const suspenseKey = suspense
+    ? getQueryKey(initialUrl, {
+        baseURL: clientConfig.baseURL,
+        ...initialOptions,
+      })
+    : null;
+
+  useEffect(() => {
+    if (suspenseKey) {
+      releaseResource(suspenseKey, queryCache);
+      setActiveKey(suspenseKey);
+    }
+  }, [suspenseKey, queryCache]);
 
-  // 使用useAsync管理异步状态
-  const asyncResult = useAsync(fetchFunction, immediate);
+  if (suspense) {
+    if (!suspenseKey || !initialUrl) {
+      throw new Error(
+        'suspense requires a cacheable request with an initial URL'
+      );
+    }
+    // 服务端没有按请求创建的缓存时无法保存加载结果，不挂起组件，由客户端请求数据
+    if (
+      queryCache !== noopQueryCache &&
+      queryCache.getQueryState(suspenseKey).updatedAt === 0
+    ) {
+      readResource(
+        suspenseKey,
+        () =>
+          queryCache.fetchQuery(
+            suspenseKey,
+            signal => request<T>(initialUrl, initialOptions, signal),
+            {
+              staleTime: initialOptions?.staleTime,
+              cacheTime: initialOptions?.cacheTime,
+            }
+          ),
+        queryCache
+      );
+    }
+  }
 
-  // 重新请求函数
-  const refetch = useMemo(() => {
-    return () => asyncResult.execute(initialUrl, initialOptions);
-  }, [asyncResult, initialUrl, initialOptions]);
+  // 有缓存数据时先展示缓存，同时在后台重新验证
+  const currentState = suspenseKey
+    ? queryCache.getQueryState<T>(suspenseKey)
+    : queryState;
+  const hasCachedData = currentState !== null && currentState.updatedAt > 0;
+  const status =
+    hasCachedData &&
+    (asyncResult.status === 'pending' || asyncResult.status === 'idle')
+      ? 'success'
+      : asyncResult.status;
+
+  // select变化或数据更新时重新计算，select为内联函数时每次渲染都会重新计算
+  const rawData = hasCachedData ? currentState.data : asyncResult.data;
+  const data = useMemo(
+    () => (rawData !== null && select ? select(rawData) : (rawData as any)),
+    [rawData, select]
+  );
 
   return {
     ...asyncResult,
+    data,
+    status,
+    isLoading: status === 'pending',
+    isSuccess: status === 'success',
+    isError: status === 'error',
+    isFetching: asyncResult.isLoading || !!queryState?.isFetching,
+    progress,
+    execute,
     refetch,
   };
 }
 
-export { useFetch };
+/**
+ * 默认的请求函数
+ */
+const defaultRequest = createRequest(DEFAULT_CLIENT_CONFIG);
+
+/**
+ * useFetch - HTTP请求的React Hook
+ * @param initialUrl - 初始请求URL
+ * @param initialOptions - 初始请求选项
+ * @param immediate - 是否立即执行请求，默认为false
+ * @returns 包含请求状态和控制函数的对象
+ */
+function useFetch<T = any, TSelected = T>(
+  initialUrl?: string,
+  initialOptions?: FetchOptions<T, TSelected>,
+  immediate = false
+): UseFetchReturn<TSelected> {
+  return useClientFetch<T, TSelected>(
+    defaultRequest,
+    DEFAULT_CLIENT_CONFIG,
+    initialUrl,
+    initialOptions,
+    immediate
+  );
+}
+
+/**
+ * useSuspenseFetch - 配合Suspense和错误边界使用的useFetch，加载时挂起组件，失败时抛出错误
+ * @param url - 请求URL，必须是可缓存的请求
+ * @param options - 请求选项
+ * @returns 包含已加载数据和控制函数的对象
+ */
+function useSuspenseFetch<T = any, TSelected = T>(
+  url: string,
+  options?: FetchOptions<T, TSelected>
+): UseSuspenseFetchReturn<TSelected> {
+  return useClientFetch<T, TSelected>(
+    defaultRequest,
+    DEFAULT_CLIENT_CONFIG,
+    url,
+    {
+      ...options,
+      suspense: true,
+    }
+  ) as UseSuspenseFetchReturn<TSelected>;
+}
+
+export {
+  useFetch,
+  useSuspenseFetch,
+  useClientFetch,
+  resolveFetchRetry,
+  isNetworkError,
+  defaultRequest,
+  RETRYABLE_STATUS,
+  DEFAULT_CLIENT_CONFIG,
+};
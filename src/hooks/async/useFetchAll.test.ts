@@ -0,0 +1,131 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act, waitFor, cleanup } from '@testing-library/react';
+import { useClientFetchAll, FetchAllRequest } from './useFetchAll';
+import { createQueryCache, QueryCache } from './queryCache';
+import { FetchClientConfig } from './request';
+
+/**
+ * 创建按调用顺序手动结束的请求函数
+ */
+function createControlledRequest() {
+  const calls: Array<{
+    url: string;
+    signal?: AbortSignal;
+    resolve: (value: unknown) => void;
+  }> = [];
+  const request = jest.fn(
+    <T = any>(url: string, _options?: unknown, signal?: AbortSignal) =>
+      new Promise<T>(resolve => {
+        calls.push({
+          url,
+          signal,
+          resolve: resolve as (value: unknown) => void,
+        });
+      })
+  );
+  return { request, calls };
+}
+
+describe('useFetchAll', () => {
+  let queryCache: QueryCache;
+  let config: FetchClientConfig;
+
+  beforeEach(() => {
+    queryCache = createQueryCache();
+    config = { queryCache };
+  });
+
+  // 先卸载组件再清空缓存，避免清空时更新已结束测试的组件
+  afterEach(() => {
+    cleanup();
+    queryCache.clear();
+  });
+
+  it('并行发送所有请求，按列表顺序返回结果', async () => {
+    const { request, calls } = createControlledRequest();
+    const { result } = renderHook(() =>
+      useClientFetchAll(request, config, [{ url: '/api/a' }, { url: '/api/b' }])
+    );
+
+    expect(calls.map(call => call.url)).toEqual(['/api/a', '/api/b']);
+    expect(result.current.isLoading).toBe(true);
+
+    await act(async () => {
+      calls[1].resolve('b');
+      calls[0].resolve('a');
+    });
+
+    expect(result.current.data).toEqual(['a', 'b']);
+    expect(result.current.isSuccess).toBe(true);
+  });
+
+  it('只发送新加入的请求，取消从列表中移除的请求', async () => {
+    const { request, calls } = createControlledRequest();
+    const { rerender } = renderHook(
+      ({ requests }: { requests: FetchAllRequest[] }) =>
+        useClientFetchAll(request, config, requests),
+      { initialProps: { requests: [{ url: '/api/a' }] } }
+    );
+
+    rerender({ requests: [{ url: '/api/a' }, { url: '/api/b' }] });
+    expect(calls.map(call => call.url)).toEqual(['/api/a', '/api/b']);
+
+    rerender({ requests: [{ url: '/api/b' }] });
+    expect(calls[0].signal?.aborted).toBe(true);
+    expect(calls[1].signal?.aborted).toBe(false);
+  });
+
+  it('禁用后重新启用的请求会再次发送', async () => {
+    const { request, calls } = createControlledRequest();
+    const { result, rerender } = renderHook(
+      ({ enabled }: { enabled: boolean }) =>
+        useClientFetchAll(request, config, [{ url: '/api/a', enabled }]),
+      { initialProps: { enabled: true } }
+    );
+    await act(async () => {
+      calls[0].resolve('first');
+    });
+
+    rerender({ enabled: false });
+    expect(request).toHaveBeenCalledTimes(1);
+
+    rerender({ enabled: true });
+    expect(request).toHaveBeenCalledTimes(2);
+    await act(async () => {
+      calls[1].resolve('second');
+    });
+    expect(result.current.data).toEqual(['second']);
+  });
+
+  it('禁用时取消进行中的请求，不再保持加载状态', async () => {
+    const { request, calls } = createControlledRequest();
+    const { result, rerender } = renderHook(
+      ({ enabled }: { enabled: boolean }) =>
+        useClientFetchAll(request, config, [{ url: '/api/a', enabled }]),
+      { initialProps: { enabled: true } }
+    );
+    expect(result.current.isLoading).toBe(true);
+
+    rerender({ enabled: false });
+
+    expect(calls[0].signal?.aborted).toBe(true);
+    await waitFor(() => expect(result.current.results[0].status).toBe('idle'));
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('相同缓存键的请求共享缓存数据', async () => {
+    const { request, calls } = createControlledRequest();
+    queryCache.setQueryData('"cached"', 'from cache');
+    const { result } = renderHook(() =>
+      useClientFetchAll(request, config, [
+        { url: '/api/a', cacheKey: '"cached"', staleTime: Infinity },
+      ])
+    );
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toEqual(['from cache']);
+    expect(calls).toHaveLength(0);
+  });
+});
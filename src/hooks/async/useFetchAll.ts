@@ -0,0 +1,350 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AsyncStatus, runWithRetry } from './useAsync';
+import { QueryKey } from './queryCache';
+import { useQueryCache } from './queryCacheContext';
+import {
+  FetchOptions,
+  FetchClientConfig,
+  RequestFunction,
+  getQueryKey,
+} from './request';
+import {
+  resolveFetchRetry,
+  defaultRequest,
+  DEFAULT_CLIENT_CONFIG,
+} from './useFetch';
+
+/**
+ * useFetchAll中的单个请求，轮询、自动刷新和Suspense等组件级选项不可用
+ */
+export interface FetchAllRequest<T = any> extends Omit<
+  FetchOptions<any, T>,
+  | 'concurrency'
+  | 'refetchInterval'
+  | 'refetchIntervalInBackground'
+  | 'refetchOnWindowFocus'
+  | 'refetchOnReconnect'
+  | 'onUploadProgress'
+  | 'onDownloadProgress'
+  | 'suspense'
+  | 'throwOnError'
+> {
+  /** 请求URL */
+  url: string;
+}
+
+/**
+ * 单个请求的状态
+ */
+export interface FetchAllResult<T> {
+  /** 响应数据，设置了select时为选取后的数据 */
+  data: T | null;
+  /** 错误信息 */
+  error: Error | null;
+  /** 当前状态 */
+  status: AsyncStatus;
+  /** 是否首次加载中（没有可展示的数据） */
+  isLoading: boolean;
+  /** 是否成功 */
+  isSuccess: boolean;
+  /** 是否失败 */
+  isError: boolean;
+  /** 是否有请求正在进行（包括后台刷新） */
+  isFetching: boolean;
+  /** 重新请求，忽略缓存的新鲜度 */
+  refetch: () => Promise<T>;
+}
+
+/**
+ * useFetchAll Hook的返回类型
+ */
+export interface UseFetchAllReturn<T> {
+  /** 每个请求的状态，与请求列表的顺序一致 */
+  results: FetchAllResult<T>[];
+  /** 每个请求的数据，与请求列表的顺序一致 */
+  data: (T | null)[];
+  /** 失败请求的错误 */
+  errors: Error[];
+  /** 是否有请求首次加载中 */
+  isLoading: boolean;
+  /** 是否有请求正在进行（包括后台刷新） */
+  isFetching: boolean;
+  /** 是否有请求失败 */
+  isError: boolean;
+  /** 是否所有请求都已成功 */
+  isSuccess: boolean;
+  /** 重新发送所有启用的请求，错误记录在各请求的状态中 */
+  refetch: () => Promise<void>;
+}
+
+/**
+ * 请求的内部状态
+ */
+interface FetchAllEntry {
+  status: AsyncStatus;
+  data: any;
+  error: Error | null;
+}
+
+/**
+ * 解析后的请求
+ */
+interface FetchAllDescriptor {
+  /** 请求标识：可缓存的请求为缓存键，其他请求由位置、URL和选项生成 */
+  id: string;
+  /** 缓存键，不可缓存时为null */
+  key: QueryKey | null;
+  url: string;
+  options: FetchOptions;
+}
+
+/**
+ * 尚未发送的请求状态
+ */
+const IDLE_ENTRY: FetchAllEntry = { status: 'idle', data: null, error: null };
+
+/**
+ * 使用指定请求函数和客户端配置的useFetchAll实现
+ * @param request - 请求函数
+ * @param clientConfig - 客户端配置
+ * @param requests - 请求列表
+ * @returns 包含各请求状态和汇总状态的对象
+ */
+function useClientFetchAll<T = any>(
+  request: RequestFunction,
+  clientConfig: FetchClientConfig,
+  requests: FetchAllRequest<T>[]
+): UseFetchAllReturn<T> {
+  const queryCache = useQueryCache(clientConfig.queryCache);
+  const [entries, setEntries] = useState<Record<string, FetchAllEntry>>({});
+  const [, setCacheVersion] = useState(0);
+
+  const descriptors: FetchAllDescriptor[] = requests.map((item, index) => {
+    const { url, ...options } = item;
+    const key = getQueryKey(url, { baseURL: clientConfig.baseURL, ...options });
+    return {
+      id: key ?? JSON.stringify([index, url, options]),
+      key,
+      url,
+      options,
+    };
+  });
+
+  // 请求列表通过ref读取，只有请求标识或启用状态变化时才重新调度，避免内联数组导致重复请求
+  const descriptorsRef = useRef(descriptors);
+  descriptorsRef.current = descriptors;
+  const requestsSignature = JSON.stringify(
+    descriptors.map(({ id, options }) => [id, options.enabled ?? true])
+  );
+  const keysSignature = JSON.stringify(
+    descriptors.map(({ key }) => key).filter(key => key !== null)
+  );
+
+  const startedRef = useRef(new Set<string>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const mountedRef = useRef(true);
+
+  const updateEntry = useCallback(
+    (id: string, changes: Partial<FetchAllEntry>) => {
+      if (mountedRef.current) {
+        setEntries(prev => ({
+          ...prev,
+          [id]: { ...(prev[id] ?? IDLE_ENTRY), ...changes },
+        }));
+      }
+    },
+    []
+  );
+
+  // 发送单个请求，同一请求再次发送时取消上一次；可缓存的请求通过共享缓存发送
+  const run = useCallback(
+    (descriptor: FetchAllDescriptor, force: boolean): Promise<any> => {
+      const { id, key, url, options } = descriptor;
+      const controllers = controllersRef.current;
+      controllers.get(id)?.abort();
+      const controller = new AbortController();
+      controllers.set(id, controller);
+      updateEntry(id, { status: 'pending', error: null });
+
+      const { staleTime, cacheTime } = options;
+      const send = (signal?: AbortSignal) => request(url, options, signal);
+
+      return runWithRetry(
+        ({ signal }) =>
+          key
+            ? queryCache.fetchQuery(key, send, {
+                staleTime: force ? 0 : staleTime,
+                cacheTime,
+                signal,
+              })
+            : send(signal),
+        controller.signal,
+        resolveFetchRetry(options)
+      )
+        .then(
+          data => {
+            if (!controller.signal.aborted) {
+              updateEntry(id, { status: 'success', data });
+            }
+            return data;
+          },
+          error => {
+            if (!controller.signal.aborted) {
+              updateEntry(id, { status: 'error', error });
+            }
+            throw error;
+          }
+        )
+        .finally(() => {
+          if (controllers.get(id) === controller) {
+            controllers.delete(id);
+          }
+        });
+    },
+    [request, queryCache, updateEntry]
+  );
+
+  // 启动新出现或重新启用的请求，取消已从列表中移除或被禁用的请求
+  useEffect(() => {
+    const started = startedRef.current;
+    const controllers = controllersRef.current;
+    const current = descriptorsRef.current;
+    const ids = current.map(({ id }) => id);
+
+    const removed = Array.from(started).filter(id => !ids.includes(id));
+    removed.forEach(id => {
+      started.delete(id);
+      controllers.get(id)?.abort();
+      controllers.delete(id);
+    });
+    if (removed.length > 0) {
+      setEntries(prev => {
+        const next = { ...prev };
+        removed.forEach(id => delete next[id]);
+        return next;
+      });
+    }
+
+    // 取消被禁用的请求，重新启用时再次发送；进行中的请求恢复为发送前的状态
+    const disabled = current
+      .filter(({ id, options }) => options.enabled === false && started.has(id))
+      .map(({ id }) => id);
+    disabled.forEach(id => {
+      started.delete(id);
+      controllers.get(id)?.abort();
+      controllers.delete(id);
+    });
+    if (disabled.length > 0) {
+      setEntries(prev => {
+        const next = { ...prev };
+        disabled.forEach(id => {
+          const entry = next[id];
+          if (entry?.status === 'pending') {
+            next[id] = {
+              ...entry,
+              status: entry.data !== null ? 'success' : 'idle',
+            };
+          }
+        });
+        return next;
+      });
+    }
+
+    current.forEach(descriptor => {
+      if (descriptor.options.enabled === false || started.has(descriptor.id)) {
+        return;
+      }
+      started.add(descriptor.id);
+      run(descriptor, false).catch(() => {
+        // 错误已记录在状态中
+      });
+    });
+  }, [requestsSignature, run]);
+
+  // 订阅所有缓存键，其他组件的请求或手动更新缓存时同步数据
+  useEffect(() => {
+    const keys: QueryKey[] = JSON.parse(keysSignature);
+    const unsubscribes = keys.map(key =>
+      queryCache.subscribe(key, () => setCacheVersion(version => version + 1))
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [queryCache, keysSignature]);
+
+  // 组件卸载时取消所有请求
+  useEffect(() => {
+    mountedRef.current = true;
+    const started = startedRef.current;
+    const controllers = controllersRef.current;
+    return () => {
+      mountedRef.current = false;
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+      started.clear();
+    };
+  }, []);
+
+  const refetch = useCallback(async () => {
+    await Promise.all(
+      descriptorsRef.current
+        .filter(descriptor => descriptor.options.enabled !== false)
+        .map(descriptor =>
+          run(descriptor, true).catch(() => {
+            // 错误已记录在状态中
+          })
+        )
+    );
+  }, [run]);
+
+  // 有缓存数据时先展示缓存，与useFetch一致
+  const results = descriptors.map((descriptor, index): FetchAllResult<T> => {
+    const entry = entries[descriptor.id] ?? IDLE_ENTRY;
+    const cached = descriptor.key
+      ? queryCache.getQueryState(descriptor.key)
+      : null;
+    const hasCachedData = cached !== null && cached.updatedAt > 0;
+    const status =
+      hasCachedData && (entry.status === 'pending' || entry.status === 'idle')
+        ? 'success'
+        : entry.status;
+    const { select } = requests[index];
+    const applySelect = (data: any): T =>
+      data !== null && select ? select(data) : data;
+
+    return {
+      data: applySelect(hasCachedData ? cached.data : entry.data),
+      error: entry.error,
+      status,
+      isLoading: status === 'pending',
+      isSuccess: status === 'success',
+      isError: status === 'error',
+      isFetching: entry.status === 'pending' || !!cached?.isFetching,
+      refetch: () => run(descriptor, true).then(applySelect),
+    };
+  });
+
+  return {
+    results,
+    data: results.map(result => result.data),
+    errors: results
+      .map(result => result.error)
+      .filter((error): error is Error => error !== null),
+    isLoading: results.some(result => result.isLoading),
+    isFetching: results.some(result => result.isFetching),
+    isError: results.some(result => result.isError),
+    isSuccess: results.every(result => result.isSuccess),
+    refetch,
+  };
+}
+
+/**
+ * useFetchAll - 并行发送一组数量可变的请求，返回每个请求的状态和汇总状态
+ * @param requests - 请求列表，每项包含URL和请求选项，enabled为false的请求不会自动发送
+ * @returns 包含各请求状态和汇总状态的对象
+ */
+function useFetchAll<T = any>(
+  requests: FetchAllRequest<T>[]
+): UseFetchAllReturn<T> {
+  return useClientFetchAll<T>(defaultRequest, DEFAULT_CLIENT_CONFIG, requests);
+}
+
+export { useFetchAll, useClientFetchAll };
@@ -0,0 +1,196 @@
+/**
+ * @jest-environment ./jest.jsdom-environment.cjs
+ */
+import { renderHook, act, waitFor, cleanup } from '@testing-library/react';
+import { createFetchClient } from './createFetchClient';
+import { createMockTransport, MockTransport } from './mockTransport';
+import { createQueryCache, QueryCache } from './queryCache';
+import { GraphQLError, HttpError } from './errors';
+
+const GET_USER = `
+  query GetUser($id: ID!) {
+    user(id: $id) { id name }
+  }
+`;
+
+const RENAME_USER = `
+  mutation RenameUser($id: ID!, $name: String!) {
+    renameUser(id: $id, name: $name) { id name }
+  }
+`;
+
+describe('useGraphQL', () => {
+  let queryCache: QueryCache;
+  let transport: MockTransport;
+
+  beforeEach(() => {
+    queryCache = createQueryCache();
+    transport = createMockTransport();
+  });
+
+  // 先卸载组件再清空缓存，避免清空时更新已结束测试的组件
+  afterEach(() => {
+    cleanup();
+    queryCache.clear();
+  });
+
+  /**
+   * 创建使用模拟传输层和独立查询缓存的客户端
+   */
+  function createClient() {
+    return createFetchClient({ transport, queryCache });
+  }
+
+  it('查询以POST发送操作，返回响应中的data', async () => {
+    transport.post('/graphql', { body: { data: { user: { id: '1' } } } });
+    const client = createClient();
+
+    const { result } = renderHook(() =>
+      client.useGraphQL(GET_USER, { id: '1' })
+    );
+
+    await waitFor(() => expect(result.current.status).toBe('success'));
+    expect(result.current.data).toEqual({ user: { id: '1' } });
+    expect(result.current.operationName).toBe('GetUser');
+    expect(transport.lastCall()?.body).toEqual({
+      query: GET_USER,
+      variables: { id: '1' },
+      operationName: 'GetUser',
+    });
+  });
+
+  it('响应包含errors时抛出带有请求方法和部分数据的GraphQLError', async () => {
+    transport.post('/graphql', {
+      body: { data: { user: null }, errors: [{ message: 'Not found' }] },
+    });
+    const client = createClient();
+
+    const { result } = renderHook(() =>
+      client.useGraphQL(GET_USER, { id: '1' })
+    );
+
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    const error = result.current.error as GraphQLError;
+    expect(error).toBeInstanceOf(GraphQLError);
+    expect(error.message).toBe('GraphQL Error: Not found');
+    expect(error.method).toBe('POST');
+    expect(error.operationName).toBe('GetUser');
+    expect(error.data).toEqual({ user: null });
+    expect(error.status).toBeUndefined();
+  });
+
+  it('非2xx响应中的GraphQL错误转换为GraphQLError，没有errors时仍为HttpError', async () => {
+    transport
+      .post('/graphql', { status: 500, body: 'Internal error' })
+      .post(
+        '/graphql',
+        { status: 400, body: { errors: [{ message: 'Bad query' }] } },
+        { times: 1 }
+      );
+    const client = createClient();
+
+    const { result } = renderHook(() =>
+      client.useGraphQL(RENAME_USER, { id: '1', name: 'a' })
+    );
+
+    let graphQLError: unknown;
+    let httpError: unknown;
+    await act(async () => {
+      graphQLError = await result.current.execute().catch(error => error);
+      httpError = await result.current.execute().catch(error => error);
+    });
+
+    expect(graphQLError).toBeInstanceOf(GraphQLError);
+    expect(graphQLError).toMatchObject({ method: 'POST', status: 400 });
+    expect(httpError).toBeInstanceOf(HttpError);
+  });
+
+  it('GraphQLError的请求方法取自实际发送的请求', async () => {
+    transport.get('/graphql', {
+      status: 400,
+      body: { errors: [{ message: 'PersistedQueryNotFound' }] },
+    });
+    // 拦截器将查询改为GET发送的持久化查询
+    const client = createFetchClient({
+      transport,
+      queryCache,
+      interceptors: {
+        request: [
+          config => ({
+            ...config,
+            method: 'GET',
+            params: { operationName: config.data.operationName },
+            data: undefined,
+          }),
+        ],
+      },
+    });
+
+    const { result } = renderHook(() =>
+      client.useGraphQL(GET_USER, { id: '1' })
+    );
+
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    expect(result.current.error).toBeInstanceOf(GraphQLError);
+    expect(result.current.error).toMatchObject({ method: 'GET' });
+    expect(new GraphQLError([{ message: 'Not found' }]).method).toBeUndefined();
+  });
+
+  it('查询重试网络错误和retryOn中的状态码', async () => {
+    transport
+      .post('/graphql', { body: { data: { user: { id: '1' } } } })
+      .post('/graphql', { status: 503 }, { times: 1 })
+      .post('/graphql', new TypeError('Failed to fetch'), { times: 1 });
+    const client = createClient();
+
+    const { result } = renderHook(() =>
+      client.useGraphQL(GET_USER, { id: '1' }, { retry: 2, retryDelay: 0 })
+    );
+
+    await waitFor(() => expect(result.current.status).toBe('success'));
+    expect(transport.getCalls()).toHaveLength(3);
+  });
+
+  it('查询不重试GraphQL错误和其他错误', async () => {
+    transport.post('/graphql', {
+      body: { errors: [{ message: 'Not found' }] },
+    });
+    const client = createClient();
+
+    const { result } = renderHook(() =>
+      client.useGraphQL(GET_USER, { id: '1' }, { retry: 2, retryDelay: 0 })
+    );
+
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    expect(transport.getCalls()).toHaveLength(1);
+
+    transport.reset();
+    transport.post('/graphql', { body: 'not json' });
+    await act(async () => {
+      await result.current.refetch().catch(() => {});
+    });
+
+    expect(result.current.error).not.toBeInstanceOf(GraphQLError);
+    expect(transport.getCalls()).toHaveLength(1);
+  });
+
+  it('变更不会自动请求，也不会重试', async () => {
+    transport.post('/graphql', { status: 503 });
+    const client = createClient();
+
+    const { result } = renderHook(() =>
+      client.useGraphQL(RENAME_USER, undefined, { retry: 2, retryDelay: 0 })
+    );
+
+    await act(() => Promise.resolve());
+    expect(transport.getCalls()).toHaveLength(0);
+
+    await act(async () => {
+      await result.current.execute({ id: '1', name: 'a' }).catch(() => {});
+    });
+
+    expect(result.current.operationType).toBe('mutation');
+    expect(result.current.error).toBeInstanceOf(HttpError);
+    expect(transport.getCalls()).toHaveLength(1);
+  });
+});
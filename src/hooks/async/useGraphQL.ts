@@ -0,0 +1,343 @@
+import { useCallback, useMemo, useRef } from 'react';
+import {
+  useClientFetch,
+  UseFetchReturn,
+  defaultRequest,
+  DEFAULT_CLIENT_CONFIG,
+  RETRYABLE_STATUS,
+  isNetworkError,
+} from './useFetch';
+import { HttpError, GraphQLError, GraphQLErrorItem } from './errors';
+import {
+  FetchOptions,
+  FetchError,
+  FetchClientConfig,
+  RequestFunction,
+} from './request';
+import { RetryOption } from './retry';
+import { QueryKey } from './queryCache';
+
+/**
+ * GraphQL操作类型
+ */
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription';
+
+/**
+ * GraphQL请求体
+ */
+export interface GraphQLRequestBody<TVariables = Record<string, any>> {
+  /** 查询语句 */
+  query: string;
+  /** 变量 */
+  variables?: TVariables;
+  /** 操作名称 */
+  operationName?: string;
+}
+
+/**
+ * GraphQL响应体
+ */
+export interface GraphQLResponse<TData = any> {
+  /** 响应数据 */
+  data?: TData | null;
+  /** 错误列表 */
+  errors?: GraphQLErrorItem[];
+  /** 服务端附加的信息 */
+  extensions?: Record<string, any>;
+}
+
+/**
+ * useGraphQL Hook的配置选项，请求方法、请求体和响应解析由GraphQL协议决定
+ */
+export interface UseGraphQLOptions<TData = any, TSelected = TData> extends Omit<
+  FetchOptions<TData, TSelected>,
+  | 'method'
+  | 'data'
+  | 'params'
+  | 'responseType'
+  | 'parse'
+  | 'onUploadProgress'
+  | 'suspense'
+> {
+  /** GraphQL接口地址，默认为/graphql */
+  endpoint?: string;
+  /** 操作名称，默认从查询语句中读取 */
+  operationName?: string;
+  /** 是否在挂载和变量变化时自动请求，默认查询为true，变更为false */
+  immediate?: boolean;
+}
+
+/**
+ * useGraphQL Hook的返回类型
+ */
+export interface UseGraphQLReturn<TSelected, TVariables> extends Omit<
+  UseFetchReturn<TSelected>,
+  'execute'
+> {
+  /** 执行操作，不传变量时使用Hook参数中的变量 */
+  execute: (variables?: TVariables) => Promise<TSelected>;
+  /** 操作类型 */
+  operationType: GraphQLOperationType;
+  /** 操作名称 */
+  operationName: string | undefined;
+}
+
+/**
+ * 默认的GraphQL接口地址
+ */
+const DEFAULT_ENDPOINT = '/graphql';
+
+/**
+ * 匹配操作定义的关键字和名称
+ */
+const OPERATION_PATTERN =
+  /(?:^|\})\s*(query|mutation|subscription)\b\s*([_A-Za-z][_0-9A-Za-z]*)?/;
+
+/**
+ * 从查询语句中读取第一个操作的类型和名称，省略关键字的简写形式视为查询
+ * @param query - 查询语句
+ * @returns 操作类型和名称
+ */
+function parseOperation(query: string): {
+  type: GraphQLOperationType;
+  name?: string;
+} {
+  // 去掉注释，操作定义出现在文档开头或上一个定义的右花括号之后
+  const source = query.replace(/#[^\n\r]*/g, '');
+  const match = OPERATION_PATTERN.exec(source);
+  if (!match) {
+    return { type: 'query' };
+  }
+  return { type: match[1] as GraphQLOperationType, name: match[2] };
+}
+
+/**
+ * 按键名排序后序列化，保证变量顺序不同时缓存键相同
+ * @param value - 要序列化的值
+ * @returns JSON字符串
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value ?? null, (_, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.keys(item)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, key) => {
+            sorted[key] = item[key];
+            return sorted;
+          }, {})
+      : item
+  );
+}
+
+/**
+ * 生成GraphQL查询的缓存键，由接口地址、操作名称（没有时为查询语句）和变量组成
+ * @param endpoint - 完整的接口地址
+ * @param query - 查询语句
+ * @param variables - 变量
+ * @param operationName - 操作名称
+ * @returns 缓存键
+ */
+function getGraphQLQueryKey(
+  endpoint: string,
+  query: string,
+  variables?: unknown,
+  operationName?: string
+): QueryKey {
+  return `["graphql",${JSON.stringify(endpoint)},${JSON.stringify(
+    operationName ?? query
+  )},${stableStringify(variables)}]`;
+}
+
+/**
+ * 判断响应体是否为带有错误的GraphQL响应
+ * @param body - 响应体
+ * @returns 是否包含errors
+ */
+function hasGraphQLErrors(
+  body: unknown
+): body is GraphQLResponse & { errors: GraphQLErrorItem[] } {
+  return (
+    !!body &&
+    typeof body === 'object' &&
+    Array.isArray((body as GraphQLResponse).errors) &&
+    (body as GraphQLResponse).errors!.length > 0
+  );
+}
+
+/**
+ * 包装请求函数：解析GraphQL响应体，返回data，响应包含errors时抛出GraphQLError
+ * @param request - 请求函数
+ * @returns GraphQL请求函数
+ */
+function createGraphQLRequest(request: RequestFunction): RequestFunction {
+  return async <T = any>(
+    url: string,
+    options?: FetchOptions,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    const operationName = (options?.data as GraphQLRequestBody | undefined)
+      ?.operationName;
+    const method = options?.method ?? 'GET';
+
+    let body: GraphQLResponse<T>;
+    try {
+      body = await request<GraphQLResponse<T>>(
+        url,
+        { ...options, responseType: 'json' },
+        signal
+      );
+    } catch (error) {
+      // 部分服务端以4xx或5xx状态返回GraphQL错误，响应体中的错误更有意义
+      if (error instanceof HttpError) {
+        const errorBody = await error.body;
+        if (hasGraphQLErrors(errorBody)) {
+          throw new GraphQLError(
+            errorBody.errors,
+            errorBody.data ?? null,
+            operationName,
+            error.response,
+            error.method
+          );
+        }
+      }
+      throw error;
+    }
+
+    if (hasGraphQLErrors(body)) {
+      throw new GraphQLError(
+        body.errors,
+        body.data ?? null,
+        operationName,
+        undefined,
+        method
+      );
+    }
+    return body?.data as T;
+  };
+}
+
+/**
+ * 生成查询的重试策略：GraphQL查询通过POST发送但没有副作用，网络错误、超时和可重试的状态码都会重试，GraphQL错误和其他错误不会重试
+ * @param options - 配置选项
+ * @returns 重试策略
+ */
+function resolveQueryRetry(options: UseGraphQLOptions = {}): RetryOption {
+  const { retry = 0, retryOn = RETRYABLE_STATUS } = options;
+  if (typeof retry === 'function') {
+    return retry;
+  }
+  return (failureCount, error: FetchError) =>
+    failureCount <= retry &&
+    !(error instanceof GraphQLError) &&
+    (error.status === undefined
+      ? isNetworkError(error)
+      : retryOn.includes(error.status));
+}
+
+/**
+ * 使用指定请求函数和客户端配置的useGraphQL实现
+ * @param request - 请求函数
+ * @param clientConfig - 客户端配置
+ * @param query - 查询语句
+ * @param variables - 变量
+ * @param options - 配置选项
+ * @returns 包含请求状态和控制函数的对象
+ */
+function useClientGraphQL<
+  TData = any,
+  TVariables extends Record<string, any> = Record<string, any>,
+  TSelected = TData,
+>(
+  request: RequestFunction,
+  clientConfig: FetchClientConfig,
+  query: string,
+  variables?: TVariables,
+  options: UseGraphQLOptions<TData, TSelected> = {}
+): UseGraphQLReturn<TSelected, TVariables> {
+  const {
+    endpoint = DEFAULT_ENDPOINT,
+    operationName: explicitName,
+    immediate,
+    ...fetchOptions
+  } = options;
+
+  const operation = useMemo(() => parseOperation(query), [query]);
+  const operationName = explicitName ?? operation.name;
+  const isQuery = operation.type === 'query';
+
+  const graphQLRequest = useMemo(
+    () => createGraphQLRequest(request),
+    [request]
+  );
+
+  // 查询按操作名称和变量缓存，变更不使用缓存
+  const resolveOptions = (vars = variables): FetchOptions => ({
+    data: { query, variables: vars, operationName },
+    cacheKey: isQuery
+      ? (fetchOptions.cacheKey ??
+        getGraphQLQueryKey(
+          (fetchOptions.baseURL ?? clientConfig.baseURL ?? '') + endpoint,
+          query,
+          vars,
+          operationName
+        ))
+      : false,
+  });
+
+  const result = useClientFetch<TData, TSelected>(
+    graphQLRequest,
+    clientConfig,
+    endpoint,
+    {
+      ...fetchOptions,
+      ...resolveOptions(variables),
+      method: 'POST',
+      retry: isQuery ? resolveQueryRetry(options) : fetchOptions.retry,
+    },
+    immediate ?? isQuery
+  );
+
+  // 查询语句和变量通过ref读取，以保持execute引用稳定
+  const resolveOptionsRef = useRef(resolveOptions);
+  resolveOptionsRef.current = resolveOptions;
+  const { execute: executeFetch } = result;
+  const execute = useCallback(
+    (vars?: TVariables) =>
+      executeFetch(endpoint, resolveOptionsRef.current(vars)),
+    [executeFetch, endpoint]
+  );
+
+  return {
+    ...result,
+    execute,
+    operationType: operation.type,
+    operationName,
+  };
+}
+
+/**
+ * useGraphQL - GraphQL请求的React Hook，查询在挂载和变量变化时自动请求，变更需要手动执行
+ * @param query - 查询语句
+ * @param variables - 变量
+ * @param options - 配置选项
+ * @returns 包含请求状态和控制函数的对象
+ */
+function useGraphQL<
+  TData = any,
+  TVariables extends Record<string, any> = Record<string, any>,
+  TSelected = TData,
+>(
+  query: string,
+  variables?: TVariables,
+  options?: UseGraphQLOptions<TData, TSelected>
+): UseGraphQLReturn<TSelected, TVariables> {
+  return useClientGraphQL<TData, TVariables, TSelected>(
+    defaultRequest,
+    DEFAULT_CLIENT_CONFIG,
+    query,
+    variables,
+    options
+  );
+}
+
+export { useGraphQL, useClientGraphQL, getGraphQLQueryKey };
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useClientInfiniteFetch } from './useInfiniteFetch';
+import { FetchOptions } from './request';
+
+interface Page {
+  items: number[];
+  nextCursor: number | null;
+  previousCursor: number | null;
+}
+
+/**
+ * 按游标返回三页数据的请求函数，每页两项
+ */
+function createCursorRequest() {
+  return jest.fn(async (_url: string, options?: FetchOptions): Promise<any> => {
+    const cursor = Number(options?.params?.cursor ?? 0);
+    return {
+      items: [cursor, cursor + 1],
+      nextCursor: cursor < 4 ? cursor + 2 : null,
+      previousCursor: cursor > 0 ? cursor - 2 : null,
+    };
+  });
+}
+
+describe('useInfiniteFetch', () => {
+  it('按游标依次加载下一页，没有下一页时hasNextPage为false', async () => {
+    const request = createCursorRequest();
+    const { result } = renderHook(() =>
+      useClientInfiniteFetch<Page, number>(request, '/api/feed', {
+        initialPageParam: 0,
+        pageParamKey: 'cursor',
+        getNextPageParam: lastPage => lastPage.nextCursor,
+      })
+    );
+
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+    expect(result.current.hasNextPage).toBe(true);
+
+    await act(() => result.current.fetchNextPage());
+    await act(() => result.current.fetchNextPage());
+
+    expect(result.current.pages.flatMap(page => page.items)).toEqual([
+      0, 1, 2, 3, 4, 5,
+    ]);
+    expect(result.current.pageParams).toEqual([0, 2, 4]);
+    expect(result.current.hasNextPage).toBe(false);
+    await act(async () => {
+      expect(await result.current.fetchNextPage()).toBeUndefined();
+    });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('向前加载的页插入到开头', async () => {
+    const request = createCursorRequest();
+    const { result } = renderHook(() =>
+      useClientInfiniteFetch<Page, number>(request, '/api/feed', {
+        initialPageParam: 2,
+        pageParamKey: 'cursor',
+        getNextPageParam: lastPage => lastPage.nextCursor,
+        getPreviousPageParam: firstPage => firstPage.previousCursor,
+      })
+    );
+
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+    expect(result.current.hasPreviousPage).toBe(true);
+
+    await act(() => result.current.fetchPreviousPage());
+
+    expect(result.current.pageParams).toEqual([0, 2]);
+    expect(result.current.hasPreviousPage).toBe(false);
+  });
+
+  it('getPageOptions自定义每一页的请求选项，refetch清空后重新加载第一页', async () => {
+    const request = jest.fn(
+      async (_url: string, options?: FetchOptions): Promise<any> => ({
+        page: options?.params?.p,
+      })
+    );
+    const { result } = renderHook(() =>
+      useClientInfiniteFetch(request, '/api/items', {
+        initialPageParam: 1,
+        getPageOptions: page => ({ params: { p: page, size: 10 } }),
+        getNextPageParam: lastPage => lastPage.page + 1,
+      })
+    );
+
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+    await act(() => result.current.fetchNextPage());
+    expect(result.current.pages).toEqual([{ page: 1 }, { page: 2 }]);
+    expect(request.mock.calls[1][1]?.params).toEqual({ p: 2, size: 10 });
+
+    await act(() => result.current.refetch());
+
+    expect(result.current.pages).toEqual([{ page: 1 }]);
+  });
+
+  it('immediate为false时不会自动加载第一页', async () => {
+    const request = createCursorRequest();
+    const { result } = renderHook(() =>
+      useClientInfiniteFetch<Page, number>(request, '/api/feed', {
+        immediate: false,
+        getNextPageParam: lastPage => lastPage.nextCursor,
+      })
+    );
+
+    await act(() => Promise.resolve());
+
+    expect(request).not.toHaveBeenCalled();
+    expect(result.current.pages).toEqual([]);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+});
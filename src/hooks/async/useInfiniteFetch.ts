@@ -0,0 +1,279 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAsync, UseAsyncReturn, AsyncContext } from './useAsync';
+import { FetchOptions, RequestFunction, omitKeys } from './request';
+import { resolveFetchRetry, defaultRequest } from './useFetch';
+import {
+  useIntersectionObserver,
+  UseIntersectionObserverOptions,
+} from '../dom/useIntersectionObserver';
+
+/**
+ * 加载分页的方向
+ */
+type PageDirection = 'initial' | 'next' | 'previous';
+
+/**
+ * useInfiniteFetch Hook的配置选项
+ */
+export interface UseInfiniteFetchOptions<
+  TPage,
+  TPageParam = any,
+> extends FetchOptions {
+  /** 第一页的页参数 */
+  initialPageParam?: TPageParam;
+  /** 根据最后一页计算下一页的页参数，返回undefined或null表示没有下一页 */
+  getNextPageParam: (
+    lastPage: TPage,
+    allPages: TPage[]
+  ) => TPageParam | undefined | null;
+  /** 根据第一页计算上一页的页参数，返回undefined或null表示没有上一页 */
+  getPreviousPageParam?: (
+    firstPage: TPage,
+    allPages: TPage[]
+  ) => TPageParam | undefined | null;
+  /** 页参数在查询参数中的名称，默认为page */
+  pageParamKey?: string;
+  /** 自定义每一页的请求选项，设置后忽略pageParamKey */
+  getPageOptions?: (pageParam: TPageParam) => FetchOptions;
+  /** 是否立即加载第一页，默认为true */
+  immediate?: boolean;
+  /** 是否在哨兵元素进入视口时自动加载下一页，可传入观察器配置 */
+  infiniteScroll?: boolean | UseIntersectionObserverOptions;
+}
+
+/**
+ * useInfiniteFetch Hook的返回类型
+ */
+export interface UseInfiniteFetchReturn<TPage, TPageParam = any> extends Omit<
+  UseAsyncReturn<TPage>,
+  'data' | 'execute'
+> {
+  /** 已加载的所有页 */
+  pages: TPage[];
+  /** 每一页对应的页参数 */
+  pageParams: TPageParam[];
+  /** 加载下一页 */
+  fetchNextPage: () => Promise<TPage | undefined>;
+  /** 加载上一页 */
+  fetchPreviousPage: () => Promise<TPage | undefined>;
+  /** 是否还有下一页 */
+  hasNextPage: boolean;
+  /** 是否还有上一页 */
+  hasPreviousPage: boolean;
+  /** 是否正在加载下一页 */
+  isFetchingNextPage: boolean;
+  /** 是否正在加载上一页 */
+  isFetchingPreviousPage: boolean;
+  /** 清空已加载的页并重新加载第一页 */
+  refetch: () => Promise<TPage>;
+  /** 无限滚动的哨兵元素引用 */
+  sentinelRef: (node: Element | null) => void;
+}
+
+/**
+ * 分页相关、不属于请求的选项
+ */
+const PAGINATION_OPTION_KEYS = [
+  'initialPageParam',
+  'getNextPageParam',
+  'getPreviousPageParam',
+  'pageParamKey',
+  'getPageOptions',
+  'immediate',
+  'infiniteScroll',
+] as const;
+
+/**
+ * 判断页参数是否有效
+ */
+function hasPageParam<TPageParam>(
+  pageParam: TPageParam | undefined | null
+): pageParam is TPageParam {
+  return pageParam !== undefined && pageParam !== null;
+}
+
+/**
+ * 使用指定请求函数和客户端配置的useInfiniteFetch实现
+ * @param request - 请求函数
+ * @param url - 请求URL
+ * @param options - 分页和请求选项
+ * @returns 包含分页数据和控制函数的对象
+ */
+function useClientInfiniteFetch<TPage = any, TPageParam = any>(
+  request: RequestFunction,
+  url: string,
+  options: UseInfiniteFetchOptions<TPage, TPageParam>
+): UseInfiniteFetchReturn<TPage, TPageParam> {
+  const {
+    getNextPageParam,
+    getPreviousPageParam,
+    immediate = true,
+    infiniteScroll = false,
+    enabled = true,
+  } = options;
+  const fetchOptions: FetchOptions = omitKeys(options, PAGINATION_OPTION_KEYS);
+
+  const [pages, setPages] = useState<TPage[]>([]);
+  const [pageParams, setPageParams] = useState<TPageParam[]>([]);
+  const [direction, setDirection] = useState<PageDirection | null>(null);
+
+  // 分页函数和请求选项通过ref读取，避免内联配置导致重复请求
+  const optionsRef = useRef(options);
+  const fetchOptionsRef = useRef(fetchOptions);
+  optionsRef.current = options;
+  fetchOptionsRef.current = fetchOptions;
+  const pagesRef = useRef<{ pages: TPage[]; pageParams: TPageParam[] }>({
+    pages: [],
+    pageParams: [],
+  });
+
+  // 加载指定方向的一页
+  const loadPage = useCallback(
+    async (
+      pageDirection: PageDirection,
+      pageParam: TPageParam,
+      context: AsyncContext
+    ): Promise<TPage> => {
+      const { pageParamKey = 'page', getPageOptions } = optionsRef.current;
+      const baseOptions = fetchOptionsRef.current;
+      const pageOptions: FetchOptions = getPageOptions
+        ? { ...baseOptions, ...getPageOptions(pageParam) }
+        : {
+            ...baseOptions,
+            params: hasPageParam(pageParam)
+              ? { ...baseOptions.params, [pageParamKey]: String(pageParam) }
+              : baseOptions.params,
+          };
+
+      setDirection(pageDirection);
+      const page = await request<TPage>(url, pageOptions, context.signal);
+
+      // 按方向合并页数据
+      const current =
+        pageDirection === 'initial'
+          ? { pages: [], pageParams: [] }
+          : pagesRef.current;
+      pagesRef.current =
+        pageDirection === 'previous'
+          ? {
+              pages: [page, ...current.pages],
+              pageParams: [pageParam, ...current.pageParams],
+            }
+          : {
+              pages: [...current.pages, page],
+              pageParams: [...current.pageParams, pageParam],
+            };
+      setPages(pagesRef.current.pages);
+      setPageParams(pagesRef.current.pageParams);
+
+      return page;
+    },
+    [request, url]
+  );
+
+  // 同一时间只加载一页，滚动触发的重复加载会被合并
+  const {
+    execute,
+    cancel,
+    reset: resetAsync,
+    ...asyncResult
+  } = useAsync(loadPage, {
+    concurrency: 'first',
+    ...resolveFetchRetry(fetchOptions),
+  });
+
+  // 计算前后页参数
+  const lastPage = pages[pages.length - 1];
+  const firstPage = pages[0];
+  const nextPageParam =
+    pages.length > 0 ? getNextPageParam(lastPage, pages) : undefined;
+  const previousPageParam =
+    pages.length > 0 && getPreviousPageParam
+      ? getPreviousPageParam(firstPage, pages)
+      : undefined;
+  const hasNextPage = hasPageParam(nextPageParam);
+  const hasPreviousPage = hasPageParam(previousPageParam);
+
+  const fetchNextPage = useCallback(async () => {
+    if (!hasPageParam(nextPageParam)) return undefined;
+    return execute('next', nextPageParam);
+  }, [execute, nextPageParam]);
+
+  const fetchPreviousPage = useCallback(async () => {
+    if (!hasPageParam(previousPageParam)) return undefined;
+    return execute('previous', previousPageParam);
+  }, [execute, previousPageParam]);
+
+  // 清空已加载的页并重新加载第一页
+  const refetch = useCallback(() => {
+    cancel();
+    return execute('initial', optionsRef.current.initialPageParam);
+  }, [cancel, execute]);
+
+  const reset = useCallback(() => {
+    cancel();
+    resetAsync();
+    pagesRef.current = { pages: [], pageParams: [] };
+    setPages([]);
+    setPageParams([]);
+    setDirection(null);
+  }, [cancel, resetAsync]);
+
+  // 立即加载第一页，重新启用时同样加载
+  useEffect(() => {
+    if (immediate && enabled) {
+      execute('initial', optionsRef.current.initialPageParam).catch(() => {
+        // 错误已记录在状态中
+      });
+    }
+  }, [execute, immediate, enabled]);
+
+  // 哨兵元素进入视口时加载下一页
+  const { ref: sentinelRef, isIntersecting } = useIntersectionObserver({
+    ...(typeof infiniteScroll === 'object' ? infiniteScroll : {}),
+    skip: !infiniteScroll || !enabled,
+  });
+  const { isLoading } = asyncResult;
+  useEffect(() => {
+    if (infiniteScroll && isIntersecting && hasNextPage && !isLoading) {
+      fetchNextPage().catch(() => {
+        // 错误已记录在状态中
+      });
+    }
+  }, [infiniteScroll, isIntersecting, hasNextPage, isLoading, fetchNextPage]);
+
+  return {
+    ...asyncResult,
+    cancel,
+    reset,
+    pages,
+    pageParams,
+    fetchNextPage,
+    fetchPreviousPage,
+    hasNextPage,
+    hasPreviousPage,
+    isFetchingNextPage: isLoading && direction === 'next',
+    isFetchingPreviousPage: isLoading && direction === 'previous',
+    refetch,
+    sentinelRef,
+  };
+}
+
+/**
+ * useInfiniteFetch - 无限加载和游标分页的React Hook
+ * @param url - 请求URL
+ * @param options - 分页和请求选项
+ * @returns 包含分页数据和控制函数的对象
+ */
+function useInfiniteFetch<TPage = any, TPageParam = any>(
+  url: string,
+  options: UseInfiniteFetchOptions<TPage, TPageParam>
+): UseInfiniteFetchReturn<TPage, TPageParam> {
+  return useClientInfiniteFetch<TPage, TPageParam>(
+    defaultRequest,
+    url,
+    options
+  );
+}
+
+export { useInfiniteFetch, useClientInfiniteFetch };
@@ -0,0 +1,141 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act } from '@testing-library/react';
+import { useMutation } from './useMutation';
+
+describe('useMutation', () => {
+  it('按顺序执行生命周期回调，并把onMutate的返回值作为上下文', async () => {
+    const calls: string[] = [];
+    const mutationFn = jest.fn(async (name: string) => {
+      calls.push('mutate');
+      return { name };
+    });
+    const { result } = renderHook(() =>
+      useMutation(mutationFn, {
+        onMutate: name => {
+          calls.push('onMutate');
+          return { previous: `old ${name}` };
+        },
+        onSuccess: (data, variables, context) => {
+          calls.push('onSuccess');
+          expect(data).toEqual({ name: 'Alice' });
+          expect(variables).toBe('Alice');
+          expect(context).toEqual({ previous: 'old Alice' });
+        },
+        onSettled: (data, error) => {
+          calls.push('onSettled');
+          expect(data).toEqual({ name: 'Alice' });
+          expect(error).toBeNull();
+        },
+      })
+    );
+
+    await act(() => result.current.mutateAsync('Alice'));
+
+    expect(calls).toEqual(['onMutate', 'mutate', 'onSuccess', 'onSettled']);
+    expect(result.current.status).toBe('success');
+    expect(result.current.data).toEqual({ name: 'Alice' });
+    expect(result.current.variables).toBe('Alice');
+  });
+
+  it('变更失败时通过上下文回滚乐观更新', async () => {
+    let items = ['a'];
+    const onSettled = jest.fn();
+    const { result } = renderHook(() =>
+      useMutation(
+        async () => {
+          throw new Error('Save failed');
+        },
+        {
+          onMutate: (item: string) => {
+            const previous = items;
+            items = [...items, item];
+            return previous;
+          },
+          onError: (_error, _item, previous) => {
+            items = previous!;
+          },
+          onSettled,
+        }
+      )
+    );
+
+    act(() => result.current.mutate('b'));
+    expect(items).toEqual(['a', 'b']);
+
+    await act(() => Promise.resolve());
+
+    expect(items).toEqual(['a']);
+    expect(result.current.status).toBe('error');
+    expect(result.current.error?.message).toBe('Save failed');
+    expect(onSettled).toHaveBeenCalledWith(
+      null,
+      expect.objectContaining({ message: 'Save failed' }),
+      'b',
+      ['a']
+    );
+  });
+
+  it('onError抛出错误时仍调用onSettled，并保留变更本身的错误', async () => {
+    const onSettled = jest.fn();
+    const { result } = renderHook(() =>
+      useMutation(
+        async () => {
+          throw new Error('Save failed');
+        },
+        {
+          onError: () => {
+            throw new Error('Rollback failed');
+          },
+          onSettled,
+        }
+      )
+    );
+
+    let error: Error | undefined;
+    await act(async () => {
+      error = await result.current.mutateAsync().catch(err => err);
+    });
+
+    expect(error?.message).toBe('Save failed');
+    expect(result.current.error?.message).toBe('Save failed');
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+
+  it('onSuccess抛出错误时仍调用onSettled，变更以回调的错误结束', async () => {
+    const onSettled = jest.fn();
+    const { result } = renderHook(() =>
+      useMutation(async () => 'saved', {
+        onSuccess: () => {
+          throw new Error('Invalidate failed');
+        },
+        onSettled,
+      })
+    );
+
+    let error: Error | undefined;
+    await act(async () => {
+      error = await result.current.mutateAsync().catch(err => err);
+    });
+
+    expect(error?.message).toBe('Invalidate failed');
+    expect(onSettled).toHaveBeenCalledWith('saved', null, undefined, undefined);
+    expect(result.current.status).toBe('error');
+  });
+
+  it('reset清空状态和变量', async () => {
+    const { result } = renderHook(() =>
+      useMutation(async (id: number) => id * 2)
+    );
+
+    await act(() => result.current.mutateAsync(2));
+    expect(result.current.data).toBe(4);
+
+    act(() => result.current.reset());
+
+    expect(result.current.status).toBe('idle');
+    expect(result.current.data).toBeNull();
+    expect(result.current.variables).toBeNull();
+  });
+});
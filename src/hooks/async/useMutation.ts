@@ -0,0 +1,168 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  useAsync,
+  UseAsyncReturn,
+  AsyncConcurrency,
+  AsyncContext,
+} from './useAsync';
+
+/**
+ * useMutation Hook的配置选项
+ */
+export interface UseMutationOptions<TData, TVariables, TContext = unknown> {
+  /** 执行变更前调用，返回值作为上下文传给后续回调，可用于乐观更新 */
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+  /** 变更成功后调用 */
+  onSuccess?: (
+    data: TData,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>;
+  /** 变更失败或被取消后调用，可根据上下文回滚乐观更新 */
+  onError?: (
+    error: Error,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>;
+  /** 无论成功或失败都会调用 */
+  onSettled?: (
+    data: TData | null,
+    error: Error | null,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>;
+  /** 并发执行策略，默认为parallel，变更不会被后续调用取消 */
+  concurrency?: AsyncConcurrency;
+}
+
+/**
+ * useMutation Hook的返回类型
+ */
+export interface UseMutationReturn<TData, TVariables> extends Omit<
+  UseAsyncReturn<TData>,
+  'execute'
+> {
+  /** 执行变更，错误只记录在状态中，不会抛出 */
+  mutate: (variables: TVariables) => void;
+  /** 执行变更并返回Promise */
+  mutateAsync: (variables: TVariables) => Promise<TData>;
+  /** 最近一次调用的变量 */
+  variables: TVariables | null;
+}
+
+/**
+ * 依次执行生命周期回调，某个回调抛出错误时仍会执行后续回调
+ * @param callbacks - 回调列表
+ * @returns Promise，有回调出错时以第一个错误结束
+ */
+async function runCallbacks(callbacks: Array<() => unknown>): Promise<void> {
+  let failed = false;
+  let firstError: unknown;
+  for (const callback of callbacks) {
+    try {
+      await callback();
+    } catch (err) {
+      if (!failed) {
+        failed = true;
+        firstError = err;
+      }
+    }
+  }
+  if (failed) {
+    throw firstError;
+  }
+}
+
+/**
+ * useMutation - 管理数据变更（写操作）的React Hook
+ * @param mutationFn - 执行变更的异步函数
+ * @param options - 生命周期回调和配置选项
+ * @returns 包含变更状态和控制函数的对象
+ */
+function useMutation<TData = any, TVariables = void, TContext = unknown>(
+  mutationFn: (variables: TVariables, context: AsyncContext) => Promise<TData>,
+  options: UseMutationOptions<TData, TVariables, TContext> = {}
+): UseMutationReturn<TData, TVariables> {
+  const [variables, setVariables] = useState<TVariables | null>(null);
+
+  // 回调可能是内联函数，通过ref读取以保持mutate引用稳定
+  const mutationFnRef = useRef(mutationFn);
+  const optionsRef = useRef(options);
+  mutationFnRef.current = mutationFn;
+  optionsRef.current = options;
+
+  // 按生命周期执行一次变更
+  const runMutation = useCallback(
+    async (vars: TVariables, asyncContext: AsyncContext): Promise<TData> => {
+      const { onMutate, onSuccess, onError, onSettled } = optionsRef.current;
+      let context: TContext | undefined;
+      let data: TData;
+
+      try {
+        if (onMutate) {
+          context = await onMutate(vars);
+        }
+        data = await mutationFnRef.current(vars, asyncContext);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        try {
+          await runCallbacks([
+            () => onError?.(error, vars, context),
+            () => onSettled?.(null, error, vars, context),
+          ]);
+        } catch {
+          // 回调的错误不覆盖变更本身的错误
+        }
+        throw error;
+      }
+
+      // onSuccess出错时仍调用onSettled，变更以回调的错误结束
+      await runCallbacks([
+        () => onSuccess?.(data, vars, context),
+        () => onSettled?.(data, null, vars, context),
+      ]);
+      return data;
+    },
+    []
+  );
+
+  const { execute, ...asyncResult } = useAsync(runMutation, {
+    concurrency: options.concurrency ?? 'parallel',
+  });
+
+  // 执行变更并返回Promise
+  const mutateAsync = useCallback(
+    (vars: TVariables) => {
+      setVariables(() => vars);
+      return execute(vars);
+    },
+    [execute]
+  );
+
+  // 执行变更，忽略返回的Promise
+  const mutate = useCallback(
+    (vars: TVariables) => {
+      mutateAsync(vars).catch(() => {
+        // 错误已记录在状态中
+      });
+    },
+    [mutateAsync]
+  );
+
+  // 重置状态和变量
+  const { reset: resetAsync } = asyncResult;
+  const reset = useCallback(() => {
+    resetAsync();
+    setVariables(null);
+  }, [resetAsync]);
+
+  return {
+    ...asyncResult,
+    reset,
+    mutate,
+    mutateAsync,
+    variables,
+  };
+}
+
+export { useMutation };
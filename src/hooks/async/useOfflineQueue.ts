@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OfflineQueue, QueuedMutation } from './offlineQueue';
+
+/**
+ * useOfflineQueue Hook的返回类型
+ */
+export interface UseOfflineQueueReturn {
+  /** 等待发送的变更，按加入顺序排列 */
+  pending: QueuedMutation[];
+  /** 是否正在重放 */
+  isReplaying: boolean;
+  /** 最近一次重放中断的错误 */
+  replayError: Error | null;
+  /** 手动重放队列 */
+  replay: () => Promise<void>;
+  /** 从队列中移除变更 */
+  remove: (id: string) => void;
+  /** 清空队列 */
+  clear: () => void;
+}
+
+/**
+ * useOfflineQueue - 订阅离线队列状态的React Hook，用于展示等待同步的变更
+ * @param queue - createOfflineQueue创建的离线队列
+ * @returns 包含等待发送的变更和控制函数的对象
+ */
+function useOfflineQueue(queue: OfflineQueue): UseOfflineQueueReturn {
+  const [pending, setPending] = useState<QueuedMutation[]>(() =>
+    queue.getPending()
+  );
+  const [isReplaying, setIsReplaying] = useState(() => queue.isReplaying());
+  const [replayError, setReplayError] = useState(() => queue.getReplayError());
+
+  useEffect(() => {
+    const syncState = () => {
+      setPending(queue.getPending());
+      setIsReplaying(queue.isReplaying());
+      setReplayError(queue.getReplayError());
+    };
+
+    syncState();
+    return queue.subscribe(syncState);
+  }, [queue]);
+
+  const replay = useCallback(() => queue.replay(), [queue]);
+  const remove = useCallback((id: string) => queue.remove(id), [queue]);
+  const clear = useCallback(() => queue.clear(), [queue]);
+
+  return {
+    pending,
+    isReplaying,
+    replayError,
+    replay,
+    remove,
+    clear,
+  };
+}
+
+export { useOfflineQueue };
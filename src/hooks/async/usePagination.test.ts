@@ -0,0 +1,107 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act, waitFor, cleanup } from '@testing-library/react';
+import { useClientPagination } from './usePagination';
+import { createQueryCache, QueryCache } from './queryCache';
+import { FetchClientConfig, FetchOptions } from './request';
+
+/**
+ * 创建按页码手动结束的请求函数
+ */
+function createControlledRequest() {
+  const pending = new Map<number, () => void>();
+  const request = jest.fn(
+    (_url: string, options?: FetchOptions): Promise<any> =>
+      new Promise(resolve => {
+        const page = Number(options?.params?.page);
+        pending.set(page, () => resolve({ page, total: 3 }));
+      })
+  );
+  const resolvePage = (page: number) =>
+    act(async () => {
+      pending.get(page)?.();
+    });
+  return { request, resolvePage };
+}
+
+describe('usePagination', () => {
+  let queryCache: QueryCache;
+  let config: FetchClientConfig;
+
+  beforeEach(() => {
+    queryCache = createQueryCache();
+    config = { queryCache };
+  });
+
+  // 先卸载组件再清空缓存，避免清空时更新已结束测试的组件
+  afterEach(() => {
+    cleanup();
+    queryCache.clear();
+  });
+
+  it('翻页时保留上一页数据，新页面加载完成后替换', async () => {
+    const { request, resolvePage } = createControlledRequest();
+    const { result } = renderHook(() =>
+      useClientPagination(request, config, '/api/users', {
+        getTotalPages: data => data.total,
+      })
+    );
+
+    await resolvePage(1);
+    expect(result.current.data).toEqual({ page: 1, total: 3 });
+    expect(result.current.totalPages).toBe(3);
+    expect(result.current.hasPreviousPage).toBe(false);
+
+    act(() => result.current.nextPage());
+
+    expect(result.current.page).toBe(2);
+    expect(result.current.data).toEqual({ page: 1, total: 3 });
+    expect(result.current.isPlaceholderData).toBe(true);
+    expect(result.current.totalPages).toBeUndefined();
+
+    await resolvePage(2);
+
+    expect(result.current.data).toEqual({ page: 2, total: 3 });
+    expect(result.current.isPlaceholderData).toBe(false);
+    expect(result.current.hasPreviousPage).toBe(true);
+  });
+
+  it('到达最后一页后nextPage不再翻页，setPage不小于1', async () => {
+    const { request, resolvePage } = createControlledRequest();
+    const { result } = renderHook(() =>
+      useClientPagination(request, config, '/api/users', {
+        initialPage: 3,
+        pageParamKey: 'page',
+        getTotalPages: data => data.total,
+      })
+    );
+
+    await resolvePage(3);
+    expect(result.current.hasNextPage).toBe(false);
+
+    act(() => result.current.nextPage());
+    expect(result.current.page).toBe(3);
+
+    act(() => result.current.setPage(0));
+    expect(result.current.page).toBe(1);
+  });
+
+  it('已缓存的页面直接展示，不是占位数据', async () => {
+    const { request, resolvePage } = createControlledRequest();
+    const { result } = renderHook(() =>
+      useClientPagination(request, config, '/api/users', { staleTime: 60000 })
+    );
+
+    await resolvePage(1);
+    act(() => result.current.nextPage());
+    await resolvePage(2);
+    act(() => result.current.previousPage());
+
+    await waitFor(() =>
+      expect(result.current.data).toEqual({ page: 1, total: 3 })
+    );
+    expect(result.current.isPlaceholderData).toBe(false);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQueryCache } from './queryCacheContext';
+import {
+  FetchOptions,
+  FetchClientConfig,
+  RequestFunction,
+  getQueryKey,
+  omitKeys,
+} from './request';
+import {
+  useClientFetch,
+  UseFetchReturn,
+  defaultRequest,
+  DEFAULT_CLIENT_CONFIG,
+} from './useFetch';
+
+/**
+ * usePagination Hook的配置选项
+ */
+export interface UsePaginationOptions<T> extends FetchOptions {
+  /** 初始页码，默认为1 */
+  initialPage?: number;
+  /** 页码在查询参数中的名称，默认为page */
+  pageParamKey?: string;
+  /** 根据响应数据计算总页数，未提供时总是认为有下一页 */
+  getTotalPages?: (data: T) => number;
+}
+
+/**
+ * usePagination Hook的返回类型
+ */
+export interface UsePaginationReturn<T> extends Omit<
+  UseFetchReturn<T>,
+  'execute'
+> {
+  /** 当前页码 */
+  page: number;
+  /** 总页数，未知时为undefined */
+  totalPages: number | undefined;
+  /** 跳转到指定页 */
+  setPage: (page: number) => void;
+  /** 下一页 */
+  nextPage: () => void;
+  /** 上一页 */
+  previousPage: () => void;
+  /** 是否有下一页 */
+  hasNextPage: boolean;
+  /** 是否有上一页 */
+  hasPreviousPage: boolean;
+  /** 当前展示的是否为上一页的数据（新页面仍在加载） */
+  isPlaceholderData: boolean;
+}
+
+/**
+ * 分页相关、不属于请求的选项
+ */
+const PAGINATION_OPTION_KEYS = [
+  'initialPage',
+  'pageParamKey',
+  'getTotalPages',
+] as const;
+
+/**
+ * 使用指定请求函数和客户端配置的usePagination实现
+ * @param request - 请求函数
+ * @param clientConfig - 客户端配置
+ * @param url - 请求URL
+ * @param options - 分页和请求选项
+ * @returns 包含当前页数据和翻页函数的对象
+ */
+function useClientPagination<T = any>(
+  request: RequestFunction,
+  clientConfig: FetchClientConfig,
+  url: string,
+  options: UsePaginationOptions<T> = {}
+): UsePaginationReturn<T> {
+  const {
+    initialPage = 1,
+    pageParamKey = 'page',
+    getTotalPages,
+    enabled = true,
+  } = options;
+  const fetchOptions: FetchOptions = omitKeys(options, PAGINATION_OPTION_KEYS);
+
+  const [page, setPageState] = useState(initialPage);
+
+  // 请求选项通过ref读取，避免内联配置导致重复请求
+  const fetchOptionsRef = useRef(fetchOptions);
+  fetchOptionsRef.current = fetchOptions;
+
+  // 生成指定页的请求选项
+  const getPageOptions = useCallback(
+    (targetPage: number): FetchOptions => ({
+      ...fetchOptionsRef.current,
+      params: {
+        ...fetchOptionsRef.current.params,
+        [pageParamKey]: targetPage,
+      },
+    }),
+    [pageParamKey]
+  );
+
+  // 切换页码时不清空数据，新页面加载完成前继续展示上一页
+  const { execute, ...fetchResult } = useClientFetch<T>(
+    request,
+    clientConfig,
+    undefined,
+    fetchOptions
+  );
+
+  useEffect(() => {
+    if (enabled) {
+      execute(url, getPageOptions(page)).catch(() => {
+        // 错误已记录在状态中
+      });
+    }
+  }, [enabled, execute, url, page, getPageOptions]);
+
+  // 当前页没有缓存数据时，展示的是上一页的数据
+  const queryCache = useQueryCache(clientConfig.queryCache);
+  const pageKey = getQueryKey(url, {
+    baseURL: clientConfig.baseURL,
+    ...getPageOptions(page),
+  });
+  const isPlaceholderData =
+    fetchResult.data !== null &&
+    (pageKey
+      ? queryCache.getQueryState(pageKey).updatedAt === 0
+      : fetchResult.isFetching);
+
+  const totalPages =
+    fetchResult.data !== null && getTotalPages && !isPlaceholderData
+      ? getTotalPages(fetchResult.data)
+      : undefined;
+  const hasNextPage = totalPages === undefined || page < totalPages;
+  const hasPreviousPage = page > 1;
+
+  const setPage = useCallback((nextPage: number) => {
+    setPageState(Math.max(1, nextPage));
+  }, []);
+
+  const nextPage = useCallback(() => {
+    if (hasNextPage) {
+      setPageState(prev => prev + 1);
+    }
+  }, [hasNextPage]);
+
+  const previousPage = useCallback(() => {
+    setPageState(prev => Math.max(1, prev - 1));
+  }, []);
+
+  // 重新请求当前页
+  const refetch = useCallback(() => {
+    return execute(url, { ...getPageOptions(page), staleTime: 0 });
+  }, [execute, url, page, getPageOptions]);
+
+  return {
+    ...fetchResult,
+    refetch,
+    page,
+    totalPages,
+    setPage,
+    nextPage,
+    previousPage,
+    hasNextPage,
+    hasPreviousPage,
+    isPlaceholderData,
+  };
+}
+
+/**
+ * usePagination - 页码分页的React Hook，翻页时保留上一页数据直到新页面加载完成
+ * @param url - 请求URL
+ * @param options - 分页和请求选项
+ * @returns 包含当前页数据和翻页函数的对象
+ */
+function usePagination<T = any>(
+  url: string,
+  options?: UsePaginationOptions<T>
+): UsePaginationReturn<T> {
+  return useClientPagination<T>(
+    defaultRequest,
+    DEFAULT_CLIENT_CONFIG,
+    url,
+    options
+  );
+}
+
+export { usePagination, useClientPagination };
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment jsdom
+ * @jest-environment-options {"customExportConditions": ["node"]}
+ */
+import { AddressInfo } from 'net';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import WebSocket, { WebSocketServer } from 'ws';
+import { useWebSocket } from './useWebSocket';
+
+describe('useWebSocket', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let sockets: WebSocket[];
+
+  // 本地的ws测试服务器，回显收到的消息
+  beforeEach(async () => {
+    sockets = [];
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    server.on('connection', socket => {
+      sockets.push(socket);
+      socket.on('message', data => socket.send(data.toString()));
+    });
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('连接后收发消息，JSON消息自动解析', async () => {
+    const onOpen = jest.fn();
+    const { result, unmount } = renderHook(() =>
+      useWebSocket<{ text: string }>(url, {
+        WebSocket: WebSocket as any,
+        onOpen,
+      })
+    );
+
+    act(() => {
+      result.current.send({ text: 'hello' });
+    });
+    await waitFor(() =>
+      expect(result.current.lastMessage).toEqual({ text: 'hello' })
+    );
+
+    expect(result.current.readyState).toBe('open');
+    expect(onOpen).toHaveBeenCalledTimes(1);
+    unmount();
+  });
+
+  it('多个组件共享连接，按filter接收各自的消息', async () => {
+    const options = { WebSocket: WebSocket as any };
+    const a = renderHook(() =>
+      useWebSocket<{ room: string }>(url, {
+        ...options,
+        filter: message => message.room === 'a',
+      })
+    );
+    const b = renderHook(() =>
+      useWebSocket<{ room: string }>(url, {
+        ...options,
+        filter: message => message.room === 'b',
+      })
+    );
+
+    act(() => {
+      a.result.current.send({ room: 'b' });
+    });
+    await waitFor(() =>
+      expect(b.result.current.lastMessage).toEqual({ room: 'b' })
+    );
+
+    expect(a.result.current.lastMessage).toBeNull();
+    expect(sockets).toHaveLength(1);
+
+    a.unmount();
+    expect(b.result.current.readyState).toBe('open');
+    b.unmount();
+    await waitFor(() => expect(sockets[0].readyState).toBe(WebSocket.CLOSED));
+  });
+
+  it('每次断开都调用onError，重连后恢复连接', async () => {
+    const onError = jest.fn();
+    const { result, unmount } = renderHook(() =>
+      useWebSocket(url, { WebSocket: WebSocket as any, retryDelay: 0, onError })
+    );
+    await waitFor(() => expect(result.current.readyState).toBe('open'));
+
+    sockets[0].close(4001);
+    await waitFor(() => expect(sockets).toHaveLength(2));
+    await waitFor(() => expect(result.current.readyState).toBe('open'));
+    sockets[1].close(4002);
+    await waitFor(() => expect(sockets).toHaveLength(3));
+    await waitFor(() => expect(result.current.readyState).toBe('open'));
+
+    expect(onError.mock.calls.map(([error]) => error.message)).toEqual([
+      'WebSocket closed with code 4001',
+      'WebSocket closed with code 4002',
+    ]);
+    unmount();
+  });
+
+  it('close后open重新建立连接', async () => {
+    const onClose = jest.fn();
+    const { result, unmount } = renderHook(() =>
+      useWebSocket(url, { WebSocket: WebSocket as any, onClose })
+    );
+    await waitFor(() => expect(result.current.readyState).toBe('open'));
+
+    act(() => {
+      result.current.close();
+    });
+    expect(result.current.readyState).toBe('closed');
+    expect(onClose).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.open();
+    });
+    await waitFor(() => expect(result.current.readyState).toBe('open'));
+    expect(sockets).toHaveLength(2);
+    unmount();
+  });
+
+  it('未启用时不连接，send返回false', () => {
+    const { result } = renderHook(() =>
+      useWebSocket(url, { WebSocket: WebSocket as any, enabled: false })
+    );
+
+    expect(result.current.readyState).toBe('closed');
+    expect(result.current.send('x')).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  WebSocketReadyState,
+  WebSocketConnection,
+  WebSocketConnectionConfig,
+  getSharedConnection,
+} from './webSocketConnection';
+
+/**
+ * useWebSocket Hook的配置选项
+ * @template TMessage - 解析后的消息类型
+ */
+export interface UseWebSocketOptions<
+  TMessage = any,
+> extends WebSocketConnectionConfig {
+  /** 是否建立连接，默认为true */
+  enabled?: boolean;
+  /** 解析收到的消息，默认尝试将文本解析为JSON，失败时返回原始数据 */
+  parse?: (data: unknown) => TMessage;
+  /** 只接收满足条件的消息，共享连接时用于区分各组件关心的消息 */
+  filter?: (message: TMessage) => boolean;
+  /** 收到消息时调用 */
+  onMessage?: (message: TMessage, event: MessageEvent) => void;
+  /** 连接建立时调用 */
+  onOpen?: () => void;
+  /** 连接关闭且不再重连时调用 */
+  onClose?: () => void;
+  /** 连接断开时调用，之后可能会自动重连 */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * useWebSocket Hook的返回类型
+ */
+export interface UseWebSocketReturn<TMessage = any, TSend = any> {
+  /** 连接状态 */
+  readyState: WebSocketReadyState;
+  /** 最近一次收到的消息 */
+  lastMessage: TMessage | null;
+  /** 最近一次连接错误 */
+  error: Error | null;
+  /** 发送消息，未连接时放入队列；没有可用连接（例如未启用）时返回false */
+  send: (data: TSend) => boolean;
+  /** 关闭共享的连接，不再重连 */
+  close: () => void;
+  /** 重新建立连接 */
+  open: () => void;
+}
+
+/**
+ * 默认的消息解析：文本尝试解析为JSON，失败时返回原始文本，二进制数据原样返回
+ * @param data - 原始消息
+ * @returns 解析后的消息
+ */
+function defaultParse(data: unknown): any {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * useWebSocket - 管理WebSocket连接的React Hook，相同URL的组件共享一个连接
+ * @param url - WebSocket地址，为null时不连接
+ * @param options - 配置选项
+ * @returns 包含连接状态、最新消息和控制函数的对象
+ */
+function useWebSocket<TMessage = any, TSend = any>(
+  url: string | null,
+  options: UseWebSocketOptions<TMessage> = {}
+): UseWebSocketReturn<TMessage, TSend> {
+  const { enabled = true } = options;
+
+  const [readyState, setReadyState] = useState<WebSocketReadyState>('closed');
+  const [lastMessage, setLastMessage] = useState<TMessage | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 回调可能是内联函数，通过ref读取，只有URL或子协议变化时才重新订阅
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const connectionRef = useRef<WebSocketConnection | null>(null);
+  const protocolsSignature = JSON.stringify(options.protocols ?? null);
+
+  useEffect(() => {
+    if (!enabled || !url) {
+      setReadyState('closed');
+      return;
+    }
+
+    const { protocols, retry, retryDelay, heartbeat, WebSocket } =
+      optionsRef.current;
+    const connection = getSharedConnection(url, {
+      protocols,
+      retry,
+      retryDelay,
+      heartbeat,
+      WebSocket,
+    });
+    connectionRef.current = connection;
+
+    let previousState: WebSocketReadyState | null = null;
+    let previousError = connection.error;
+    const unsubscribe = connection.subscribe({
+      onMessage: event => {
+        const { parse = defaultParse, filter, onMessage } = optionsRef.current;
+        const message = parse(event.data) as TMessage;
+        if (filter && !filter(message)) return;
+        setLastMessage(() => message);
+        onMessage?.(message, event);
+      },
+      onStateChange: (state, stateError) => {
+        setReadyState(state);
+        setError(stateError);
+
+        // 每次出现新的错误都通知，包括重连过程中的连续失败
+        const { onOpen, onClose, onError } = optionsRef.current;
+        if (stateError && stateError !== previousError) {
+          onError?.(stateError);
+        }
+        previousError = stateError;
+        if (state === previousState) return;
+
+        previousState = state;
+        if (state === 'open') {
+          onOpen?.();
+        }
+        if (state === 'closed') {
+          onClose?.();
+        }
+      },
+    });
+    previousState = connection.readyState;
+    setReadyState(connection.readyState);
+    setError(connection.error);
+
+    return () => {
+      unsubscribe();
+      connectionRef.current = null;
+    };
+  }, [url, enabled, protocolsSignature]);
+
+  const send = useCallback((data: TSend) => {
+    if (!connectionRef.current) {
+      return false;
+    }
+    connectionRef.current.send(data);
+    return true;
+  }, []);
+
+  const close = useCallback(() => {
+    connectionRef.current?.close();
+  }, []);
+
+  const open = useCallback(() => {
+    connectionRef.current?.open();
+  }, []);
+
+  return {
+    readyState,
+    lastMessage,
+    error,
+    send,
+    close,
+    open,
+  };
+}
+
+export { useWebSocket };
@@ -0,0 +1,221 @@
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  WebSocketConnection,
+  WebSocketReadyState,
+  createWebSocketConnection,
+  getSharedConnection,
+} from './webSocketConnection';
+
+/**
+ * 记录连接状态变化和收到的消息的订阅者
+ */
+function createSubscriber() {
+  const states: WebSocketReadyState[] = [];
+  const errors: Array<Error | null> = [];
+  const messages: unknown[] = [];
+  return {
+    states,
+    errors,
+    messages,
+    onMessage: (event: MessageEvent) => messages.push(event.data),
+    onStateChange: (state: WebSocketReadyState, error: Error | null) => {
+      states.push(state);
+      errors.push(error);
+    },
+  };
+}
+
+/**
+ * 轮询直到条件成立
+ */
+async function waitUntil(condition: () => boolean, timeout = 2000) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('webSocketConnection', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let sockets: WebSocket[];
+  const unsubscribes: Array<() => void> = [];
+
+  // 本地的ws测试服务器，回显收到的消息
+  beforeEach(async () => {
+    sockets = [];
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    server.on('connection', socket => {
+      sockets.push(socket);
+      socket.on('message', data => {
+        if (data.toString() !== 'ping') {
+          socket.send(data.toString());
+        }
+      });
+    });
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    unsubscribes.splice(0).forEach(unsubscribe => unsubscribe());
+    sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  /**
+   * 订阅连接，测试结束时自动取消订阅
+   */
+  function subscribe(connection: WebSocketConnection) {
+    const subscriber = createSubscriber();
+    const unsubscribe = connection.subscribe(subscriber);
+    unsubscribes.push(unsubscribe);
+    return { subscriber, unsubscribe };
+  }
+
+  it('相同URL的订阅者共享一个连接，最后一个订阅者离开时关闭连接', async () => {
+    const connection = getSharedConnection(url, {
+      WebSocket: WebSocket as any,
+    });
+    expect(getSharedConnection(url)).toBe(connection);
+
+    const first = subscribe(connection);
+    const second = subscribe(connection);
+    await waitUntil(() => connection.readyState === 'open');
+    connection.send({ text: 'hi' });
+    await waitUntil(() => second.subscriber.messages.length === 1);
+
+    expect(sockets).toHaveLength(1);
+    expect(first.subscriber.messages).toEqual(['{"text":"hi"}']);
+
+    first.unsubscribe();
+    expect(connection.readyState).toBe('open');
+    second.unsubscribe();
+    expect(connection.readyState).toBe('closed');
+    expect(getSharedConnection(url, { WebSocket: WebSocket as any })).not.toBe(
+      connection
+    );
+    await waitUntil(() => sockets[0].readyState === WebSocket.CLOSED);
+  });
+
+  it('连接前发送的消息放入队列，连接后按顺序发送', async () => {
+    const connection = createWebSocketConnection(url, {
+      WebSocket: WebSocket as any,
+    });
+    const { subscriber } = subscribe(connection);
+
+    connection.send('a');
+    connection.send('b');
+    await waitUntil(() => subscriber.messages.length === 2);
+
+    expect(subscriber.messages).toEqual(['a', 'b']);
+  });
+
+  it('服务端断开后按重连策略重新连接', async () => {
+    const connection = createWebSocketConnection(url, {
+      WebSocket: WebSocket as any,
+      retryDelay: 10,
+    });
+    const { subscriber } = subscribe(connection);
+    await waitUntil(() => connection.readyState === 'open');
+
+    sockets[0].close(4000, 'bye');
+    await waitUntil(() => sockets.length === 2);
+    await waitUntil(() => connection.readyState === 'open');
+
+    expect(subscriber.states).toEqual([
+      'connecting',
+      'open',
+      'connecting',
+      'connecting',
+      'open',
+    ]);
+    expect(subscriber.errors[2]?.message).toBe(
+      'WebSocket closed with code 4000: bye'
+    );
+  });
+
+  it('超过重连次数后关闭连接', async () => {
+    const connection = createWebSocketConnection(url, {
+      WebSocket: WebSocket as any,
+      retry: 0,
+    });
+    const { subscriber } = subscribe(connection);
+    await waitUntil(() => connection.readyState === 'open');
+
+    sockets[0].close(4000);
+    await waitUntil(() => connection.readyState === 'closed');
+
+    expect(sockets).toHaveLength(1);
+    expect(subscriber.errors[subscriber.errors.length - 1]?.message).toBe(
+      'WebSocket closed with code 4000'
+    );
+  });
+
+  it('心跳超时后立即重连，不等待断开的连接触发onclose', async () => {
+    const connection = createWebSocketConnection(url, {
+      WebSocket: WebSocket as any,
+      retryDelay: 0,
+      heartbeat: { interval: 20, timeout: 30 },
+    });
+    const { subscriber } = subscribe(connection);
+    await waitUntil(() => connection.readyState === 'open');
+
+    // 服务端停止读取，模拟断开的TCP连接：既不回复心跳，也不回复关闭帧
+    sockets[0].pause();
+    await waitUntil(() => sockets.length === 2, 1000);
+    await waitUntil(() => connection.readyState === 'open');
+
+    expect(sockets[0].readyState).toBe(WebSocket.OPEN);
+    expect(subscriber.errors).toContainEqual(
+      new Error(`WebSocket heartbeat to ${url} timed out`)
+    );
+  });
+
+  it('收到心跳响应时保持连接，心跳响应不分发给订阅者', async () => {
+    server.on('connection', socket => {
+      socket.on('message', data => {
+        if (data.toString() === 'ping') {
+          socket.send('pong');
+        }
+      });
+    });
+    const connection = createWebSocketConnection(url, {
+      WebSocket: WebSocket as any,
+      heartbeat: { interval: 10, timeout: 30 },
+    });
+    const { subscriber } = subscribe(connection);
+    await waitUntil(() => connection.readyState === 'open');
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(sockets).toHaveLength(1);
+    expect(connection.readyState).toBe('open');
+    expect(subscriber.messages).toEqual([]);
+  });
+
+  it('手动关闭后有新的订阅者加入时重新连接', async () => {
+    const connection = createWebSocketConnection(url, {
+      WebSocket: WebSocket as any,
+    });
+    subscribe(connection);
+    await waitUntil(() => connection.readyState === 'open');
+
+    connection.close();
+    expect(connection.readyState).toBe('closed');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(sockets).toHaveLength(1);
+
+    subscribe(connection);
+    await waitUntil(() => connection.readyState === 'open');
+    expect(sockets).toHaveLength(2);
+
+    connection.close();
+    connection.open();
+    await waitUntil(() => sockets.length === 3);
+  });
+});
@@ -0,0 +1,313 @@
+import {
+  RetryOption,
+  RetryDelayOption,
+  defaultRetryDelay,
+  shouldRetry,
+  resolveRetryDelay,
+} from './retry';
+
+/**
+ * WebSocket连接状态
+ */
+export type WebSocketReadyState = 'connecting' | 'open' | 'closed';
+
+/**
+ * 可以通过WebSocket发送的原始数据
+ */
+export type WebSocketData = string | ArrayBufferLike | Blob | ArrayBufferView;
+
+/**
+ * 心跳配置
+ */
+export interface WebSocketHeartbeat {
+  /** 发送心跳的间隔（毫秒），默认为30000 */
+  interval?: number;
+  /** 心跳消息，默认为ping */
+  message?: WebSocketData;
+  /** 判断收到的消息是否为心跳响应，默认比较是否为pong；心跳响应不会分发给订阅者 */
+  isPong?: (data: unknown) => boolean;
+  /** 发送心跳后等待任意消息的时间（毫秒），超时视为连接已断开，默认为10000 */
+  timeout?: number;
+}
+
+/**
+ * 连接级别的配置，多个组件共享连接时以第一个建立连接的组件为准
+ */
+export interface WebSocketConnectionConfig {
+  /** 子协议 */
+  protocols?: string | string[];
+  /** 断开后的重连次数或判断函数，默认无限重连 */
+  retry?: RetryOption;
+  /** 重连前的延迟，默认为带随机抖动的指数退避 */
+  retryDelay?: RetryDelayOption;
+  /** 心跳配置，为true时使用默认配置，默认不发送心跳 */
+  heartbeat?: boolean | WebSocketHeartbeat;
+  /** WebSocket实现，默认为全局WebSocket，可传入兼容的实现（例如测试用的ws） */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * 连接的订阅者
+ */
+export interface WebSocketSubscriber {
+  /** 收到消息时调用 */
+  onMessage: (event: MessageEvent) => void;
+  /** 连接状态变化时调用 */
+  onStateChange: (state: WebSocketReadyState, error: Error | null) => void;
+}
+
+/**
+ * 共享的WebSocket连接
+ */
+export interface WebSocketConnection {
+  /** 当前连接状态 */
+  readonly readyState: WebSocketReadyState;
+  /** 最近一次连接错误 */
+  readonly error: Error | null;
+  /** 发送消息，字符串和二进制数据原样发送，其他数据序列化为JSON；未连接时放入队列，连接后按顺序发送 */
+  send: (data: unknown) => void;
+  /** 关闭连接，不再重连，直到有新的订阅者加入或调用open */
+  close: () => void;
+  /** 重新建立连接 */
+  open: () => void;
+  /** 订阅消息和状态变化 */
+  subscribe: (subscriber: WebSocketSubscriber) => () => void;
+}
+
+const DEFAULT_HEARTBEAT: Required<WebSocketHeartbeat> = {
+  interval: 30000,
+  message: 'ping',
+  isPong: data => data === 'pong',
+  timeout: 10000,
+};
+
+/**
+ * 判断数据是否可以直接通过WebSocket发送
+ * @param data - 数据
+ * @returns 是否为字符串或二进制数据
+ */
+function isRawData(data: unknown): data is WebSocketData {
+  return (
+    typeof data === 'string' ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    (typeof Blob !== 'undefined' && data instanceof Blob)
+  );
+}
+
+/**
+ * 按URL和子协议共享的连接
+ */
+const connections = new Map<string, WebSocketConnection>();
+
+/**
+ * 创建WebSocket连接，最后一个订阅者取消订阅时自动关闭
+ * @param url - WebSocket地址
+ * @param config - 连接配置
+ * @param onDispose - 连接关闭并不再使用时调用
+ * @returns 连接对象
+ */
+function createWebSocketConnection(
+  url: string,
+  config: WebSocketConnectionConfig = {},
+  onDispose?: () => void
+): WebSocketConnection {
+  const {
+    protocols,
+    retry = Infinity,
+    retryDelay = defaultRetryDelay,
+    heartbeat = false,
+    WebSocket: WebSocketImpl = WebSocket,
+  } = config;
+  const heartbeatConfig = heartbeat
+    ? { ...DEFAULT_HEARTBEAT, ...(heartbeat === true ? {} : heartbeat) }
+    : null;
+
+  const subscribers = new Set<WebSocketSubscriber>();
+  const queue: WebSocketData[] = [];
+  let socket: WebSocket | null = null;
+  let readyState: WebSocketReadyState = 'closed';
+  let error: Error | null = null;
+  let failures = 0;
+  let manuallyClosed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let pongTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (state: WebSocketReadyState, nextError = error) => {
+    readyState = state;
+    error = nextError;
+    subscribers.forEach(subscriber => subscriber.onStateChange(state, error));
+  };
+
+  const clearTimers = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    if (pongTimer) clearTimeout(pongTimer);
+    reconnectTimer = heartbeatTimer = pongTimer = null;
+  };
+
+  // 连接断开后按重试策略重连，不再重连时关闭
+  const handleClose = (closeError: Error) => {
+    clearTimers();
+    socket = null;
+
+    failures++;
+    if (
+      manuallyClosed ||
+      subscribers.size === 0 ||
+      !shouldRetry(retry, failures, closeError)
+    ) {
+      setState('closed', manuallyClosed ? error : closeError);
+      return;
+    }
+
+    setState('connecting', closeError);
+    reconnectTimer = setTimeout(
+      connect,
+      resolveRetryDelay(retryDelay, failures, closeError)
+    );
+  };
+
+  // 定时发送心跳，超时未收到任何消息时视为连接已断开并重连；
+  // 断开的TCP连接上close可能很久之后才触发onclose，因此不等待onclose
+  const startHeartbeat = (ws: WebSocket) => {
+    if (!heartbeatConfig) return;
+    heartbeatTimer = setInterval(() => {
+      ws.send(heartbeatConfig.message as string);
+      if (!pongTimer) {
+        pongTimer = setTimeout(() => {
+          pongTimer = null;
+          if (socket !== ws) return;
+          handleClose(new Error(`WebSocket heartbeat to ${url} timed out`));
+          ws.close();
+        }, heartbeatConfig.timeout);
+      }
+    }, heartbeatConfig.interval);
+  };
+
+  const flushQueue = (ws: WebSocket) => {
+    while (queue.length > 0 && ws.readyState === WebSocketImpl.OPEN) {
+      ws.send(queue.shift() as string);
+    }
+  };
+
+  const connect = () => {
+    clearTimers();
+    manuallyClosed = false;
+    setState('connecting');
+
+    const ws = new WebSocketImpl(url, protocols);
+    socket = ws;
+
+    ws.onopen = () => {
+      if (socket !== ws) return;
+      failures = 0;
+      setState('open', null);
+      flushQueue(ws);
+      startHeartbeat(ws);
+    };
+
+    ws.onmessage = (event: MessageEvent) => {
+      if (socket !== ws) return;
+      // 收到任意消息都说明连接正常
+      if (pongTimer) {
+        clearTimeout(pongTimer);
+        pongTimer = null;
+      }
+      if (heartbeatConfig?.isPong(event.data)) return;
+      subscribers.forEach(subscriber => subscriber.onMessage(event));
+    };
+
+    ws.onerror = () => {
+      if (socket !== ws) return;
+      error = new Error(`WebSocket connection to ${url} failed`);
+    };
+
+    ws.onclose = (event: CloseEvent) => {
+      if (socket !== ws) return;
+      handleClose(
+        error ??
+          new Error(
+            `WebSocket closed with code ${event.code}${
+              event.reason ? `: ${event.reason}` : ''
+            }`
+          )
+      );
+    };
+  };
+
+  const disconnect = () => {
+    manuallyClosed = true;
+    clearTimers();
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    setState('closed');
+  };
+
+  return {
+    get readyState() {
+      return readyState;
+    },
+    get error() {
+      return error;
+    },
+    send: data => {
+      const payload = isRawData(data) ? data : JSON.stringify(data);
+      if (socket && socket.readyState === WebSocketImpl.OPEN) {
+        socket.send(payload as string);
+      } else {
+        queue.push(payload);
+      }
+    },
+    close: disconnect,
+    open: () => {
+      if (!socket) {
+        connect();
+      }
+    },
+    subscribe: subscriber => {
+      // 其他订阅者手动关闭的连接在新的订阅者加入时重新建立
+      subscribers.add(subscriber);
+      manuallyClosed = false;
+      if (!socket && readyState === 'closed') {
+        connect();
+      }
+
+      return () => {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0) {
+          disconnect();
+          queue.length = 0;
+          onDispose?.();
+        }
+      };
+    },
+  };
+}
+
+/**
+ * 获取按URL共享的连接，不存在时创建
+ * @param url - WebSocket地址
+ * @param config - 连接配置，只在创建连接时生效
+ * @returns 共享的连接
+ */
+function getSharedConnection(
+  url: string,
+  config: WebSocketConnectionConfig = {}
+): WebSocketConnection {
+  const key = JSON.stringify([url, config.protocols ?? null]);
+  let connection = connections.get(key);
+  if (!connection) {
+    connection = createWebSocketConnection(url, config, () => {
+      if (connections.get(key) === connection) {
+        connections.delete(key);
+      }
+    });
+    connections.set(key, connection);
+  }
+  return connection;
+}
+
+export { createWebSocketConnection, getSharedConnection };
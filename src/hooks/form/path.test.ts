@@ -0,0 +1,97 @@
+import {
+  toPath,
+  normalizePath,
+  getIn,
+  setIn,
+  isPathWithin,
+  omitPath,
+  remapArrayPaths,
+} from './path';
+
+describe('path', () => {
+  it('支持点号和方括号两种写法', () => {
+    expect(toPath('items[2].qty')).toEqual(['items', 2, 'qty']);
+    expect(toPath('items.2.qty')).toEqual(['items', 2, 'qty']);
+    expect(normalizePath('items.2.qty')).toBe('items[2].qty');
+    expect(normalizePath('address.city')).toBe('address.city');
+  });
+
+  it('getIn读取嵌套值，中间层不存在时返回undefined', () => {
+    const values = { items: [{ qty: 1 }, { qty: 2 }], address: null };
+
+    expect(getIn(values, 'items[1].qty')).toBe(2);
+    expect(getIn(values, 'items.0')).toEqual({ qty: 1 });
+    expect(getIn(values, 'address.city')).toBeUndefined();
+    expect(getIn(values, 'missing[0].name')).toBeUndefined();
+  });
+
+  it('setIn不可变地更新，只复制沿途的对象和数组', () => {
+    const values = {
+      items: [{ qty: 1 }, { qty: 2 }],
+      address: { city: 'Shanghai' },
+    };
+
+    const next = setIn(values, 'items[1].qty', 5);
+
+    expect(next.items[1].qty).toBe(5);
+    expect(values.items[1].qty).toBe(2);
+    expect(next).not.toBe(values);
+    expect(next.items).not.toBe(values.items);
+    expect(next.items[0]).toBe(values.items[0]);
+    expect(next.address).toBe(values.address);
+  });
+
+  it('setIn按下一个片段创建缺少的对象或数组', () => {
+    const next = setIn<Record<string, any>>({}, 'contacts[1].phone', '123');
+
+    expect(Array.isArray(next.contacts)).toBe(true);
+    expect(next.contacts[1]).toEqual({ phone: '123' });
+    expect(setIn<Record<string, any>>({}, 'a.b', 1)).toEqual({ a: { b: 1 } });
+  });
+
+  it('isPathWithin和omitPath匹配路径本身及其子路径', () => {
+    expect(isPathWithin('items[0].qty', 'items')).toBe(true);
+    expect(isPathWithin('items', 'items')).toBe(true);
+    expect(isPathWithin('itemsCount', 'items')).toBe(false);
+
+    expect(
+      omitPath(
+        { items: 'a', 'items[0].qty': 'b', itemsCount: 'c', name: 'd' },
+        'items'
+      )
+    ).toEqual({ itemsCount: 'c', name: 'd' });
+  });
+
+  it('remapArrayPaths按新索引移动记录并丢弃被移除的元素', () => {
+    const errors = {
+      'items[0].qty': 'first',
+      'items[1].qty': 'second',
+      'items[2]': 'third',
+      items: 'array',
+      'other[1]': 'other',
+    };
+
+    // 移除索引1的元素
+    expect(
+      remapArrayPaths(errors, 'items', index =>
+        index === 1 ? undefined : index > 1 ? index - 1 : index
+      )
+    ).toEqual({
+      'items[0].qty': 'first',
+      'items[1]': 'third',
+      items: 'array',
+      'other[1]': 'other',
+    });
+
+    // 交换索引0和2
+    expect(
+      remapArrayPaths(errors, 'items', index =>
+        index === 0 ? 2 : index === 2 ? 0 : index
+      )
+    ).toMatchObject({
+      'items[2].qty': 'first',
+      'items[1].qty': 'second',
+      'items[0]': 'third',
+    });
+  });
+});
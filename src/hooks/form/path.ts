@@ -0,0 +1,309 @@
+/**
+ * 字段路径的片段，数字表示数组索引
+ */
+export type PathSegment = string | number;
+
+/**
+ * 判断类型是否为any
+ */
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * 不再展开子路径的值类型
+ */
+type FieldLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | Blob
+  | ((...args: any[]) => any);
+
+/**
+ * 路径类型展开的最大深度，避免递归类型无限展开
+ */
+type MaxPathDepth = 8;
+
+/**
+ * 值类型为V的字段在前缀Prefix之下的子路径
+ */
+type ChildPath<Prefix extends string, V, Depth extends unknown[]> =
+  IsAny<V> extends true
+    ? `${Prefix}.${string}` | `${Prefix}[${number}]${string}`
+    : Depth['length'] extends MaxPathDepth
+      ? never
+      : V extends FieldLeaf
+        ? never
+        : V extends ReadonlyArray<infer Item>
+          ? | `${Prefix}[${number}]`
+            | ChildPath<`${Prefix}[${number}]`, Item, [...Depth, unknown]>
+          : V extends object
+            ? `${Prefix}.${ObjectPath<V, [...Depth, unknown]>}`
+            : never;
+
+/**
+ * 对象所有属性及其子字段的路径
+ */
+type ObjectPath<T, Depth extends unknown[]> = {
+  [K in keyof T & string]: K | ChildPath<K, NonNullable<T[K]>, Depth>;
+}[keyof T & string];
+
+/**
+ * 表单值中所有字段的路径，数组索引使用方括号，例如address.city、items[2].qty；值类型为any时为string
+ */
+export type FieldPath<T> = IsAny<T> extends true ? string : ObjectPath<T, []>;
+
+/**
+ * 将方括号写法转换为点号写法
+ */
+type DotPath<P extends string> = P extends `${infer A}[${infer I}]${infer B}`
+  ? DotPath<`${A}.${I}${B}`>
+  : P;
+
+/**
+ * 按点号拆分路径，与toPath一致地忽略空片段
+ */
+type SplitPath<P extends string> = P extends `${infer H}.${infer R}`
+  ? H extends ''
+    ? SplitPath<R>
+    : [H, ...SplitPath<R>]
+  : P extends ''
+    ? []
+    : [P];
+
+/**
+ * 读取路径片段对应的值类型
+ */
+type SegmentValue<T, S extends string> =
+  IsAny<T> extends true
+    ? any
+    : T extends ReadonlyArray<infer Item>
+      ? S extends `${number}`
+        ? Item
+        : undefined
+      : S extends keyof T
+        ? T[S]
+        : undefined;
+
+/**
+ * 沿路径片段读取值类型
+ */
+type SegmentsValue<T, S extends string[]> = S extends [
+  infer H extends string,
+  ...infer R extends string[],
+]
+  ? SegmentsValue<SegmentValue<NonNullable<T>, H>, R>
+  : T;
+
+/**
+ * 字段路径对应的值类型，支持点号和方括号两种写法
+ */
+export type FieldPathValue<T, P extends string> = SegmentsValue<
+  T,
+  SplitPath<DotPath<P>>
+>;
+
+/**
+ * 值为数组的字段路径
+ */
+export type FieldArrayPath<T> = {
+  [P in FieldPath<T>]: FieldPathValue<T, P> extends ReadonlyArray<any>
+    ? P
+    : never;
+}[FieldPath<T>];
+
+/**
+ * 路径和值类型的条目，例如[['items', '0', 'qty'], number]
+ */
+type PathEntries<TMap> = {
+  [K in keyof TMap & string]: [SplitPath<DotPath<K>>, TMap[K]];
+}[keyof TMap & string];
+
+/**
+ * 路径为空的条目的值类型
+ */
+type LeafValue<E> = E extends [[], infer V] ? V : never;
+
+/**
+ * 条目路径的第一个片段
+ */
+type HeadSegment<E> = E extends [[infer H, ...string[]], unknown] ? H : never;
+
+/**
+ * 第一个片段为H的条目去掉该片段后的条目
+ */
+type ChildEntries<E, H> = E extends [[H, ...infer R], infer V] ? [R, V] : never;
+
+/**
+ * 由条目构建嵌套的值类型，片段全部为数字时构建数组
+ */
+type BuildValues<E> = [LeafValue<E>] extends [never]
+  ? [HeadSegment<E>] extends [`${number}`]
+    ? BuildValues<ChildEntries<E, HeadSegment<E>>>[]
+    : { [H in HeadSegment<E> & string]: BuildValues<ChildEntries<E, H>> }
+  : LeafValue<E>;
+
+/**
+ * 将以字段路径为键的值类型展开为嵌套的对象和数组类型，例如{ 'address.city': string }得到{ address: { city: string } }
+ */
+export type PathValues<TMap> = BuildValues<PathEntries<TMap>>;
+
+/**
+ * 将字段路径拆分为片段，支持点号和方括号两种写法，例如address.city、items[2].qty和items.2.qty
+ * @param path - 字段路径
+ * @returns 路径片段
+ */
+function toPath(path: string): PathSegment[] {
+  return path
+    .replace(/\[([^\]]*)\]/g, '.$1')
+    .split('.')
+    .filter(segment => segment !== '')
+    .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * 将路径片段格式化为规范的字段路径，数组索引使用方括号
+ * @param segments - 路径片段
+ * @returns 字段路径，例如items[2].qty
+ */
+function formatPath(segments: PathSegment[]): string {
+  return segments.reduce<string>(
+    (path, segment) =>
+      typeof segment === 'number'
+        ? `${path}[${segment}]`
+        : path
+          ? `${path}.${segment}`
+          : segment,
+    ''
+  );
+}
+
+/**
+ * 规范化字段路径，不同写法的同一路径得到相同的结果
+ * @param path - 字段路径
+ * @returns 规范的字段路径
+ */
+function normalizePath(path: string): string {
+  return formatPath(toPath(path));
+}
+
+/**
+ * 读取路径对应的值
+ * @param source - 对象
+ * @param path - 字段路径
+ * @returns 路径对应的值，中间层不存在时返回undefined
+ */
+function getIn(source: any, path: string): any {
+  return toPath(path).reduce(
+    (current, segment) =>
+      current === null || current === undefined ? undefined : current[segment],
+    source
+  );
+}
+
+/**
+ * 不可变地设置路径对应的值，沿途复制对象和数组，缺少的中间层按下一个片段创建对象或数组
+ * @param source - 对象
+ * @param path - 字段路径
+ * @param value - 新值
+ * @returns 新对象
+ */
+function setIn<T>(source: T, path: string, value: any): T {
+  const segments = toPath(path);
+
+  const update = (current: any, index: number): any => {
+    if (index === segments.length) {
+      return value;
+    }
+    const segment = segments[index];
+    const copy =
+      current !== null && typeof current === 'object'
+        ? Array.isArray(current)
+          ? [...current]
+          : { ...current }
+        : typeof segment === 'number'
+          ? []
+          : {};
+    copy[segment] = update(copy[segment], index + 1);
+    return copy;
+  };
+
+  return update(source, 0);
+}
+
+/**
+ * 判断字段路径是否为另一路径本身或其子路径
+ * @param path - 规范的字段路径
+ * @param parent - 规范的父路径
+ * @returns 是否匹配
+ */
+function isPathWithin(path: string, parent: string): boolean {
+  return (
+    path === parent ||
+    path.startsWith(`${parent}.`) ||
+    path.startsWith(`${parent}[`)
+  );
+}
+
+/**
+ * 移除路径本身及其子路径对应的记录
+ * @param record - 以规范字段路径为键的记录
+ * @param path - 规范的字段路径
+ * @returns 新记录
+ */
+function omitPath<V>(
+  record: Record<string, V>,
+  path: string
+): Record<string, V> {
+  const result: Record<string, V> = {};
+  Object.keys(record).forEach(key => {
+    if (!isPathWithin(key, path)) {
+      result[key] = record[key];
+    }
+  });
+  return result;
+}
+
+/**
+ * 数组元素位置变化后，更新以元素路径为键的记录，例如错误和触碰状态
+ * @param record - 以规范字段路径为键的记录
+ * @param arrayPath - 规范的数组字段路径
+ * @param remapIndex - 计算元素的新索引，返回undefined表示元素已被移除
+ * @returns 新记录
+ */
+function remapArrayPaths<V>(
+  record: Record<string, V>,
+  arrayPath: string,
+  remapIndex: (index: number) => number | undefined
+): Record<string, V> {
+  const prefix = `${arrayPath}[`;
+  const result: Record<string, V> = {};
+  Object.keys(record).forEach(key => {
+    const end = key.indexOf(']', prefix.length);
+    if (!key.startsWith(prefix) || end === -1) {
+      result[key] = record[key];
+      return;
+    }
+    const index = remapIndex(Number(key.slice(prefix.length, end)));
+    if (index !== undefined) {
+      result[`${prefix}${index}${key.slice(end)}`] = record[key];
+    }
+  });
+  return result;
+}
+
+export {
+  toPath,
+  formatPath,
+  normalizePath,
+  getIn,
+  setIn,
+  isPathWithin,
+  omitPath,
+  remapArrayPaths,
+};
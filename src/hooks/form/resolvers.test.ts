@@ -0,0 +1,154 @@
+import {
+  jsonSchemaResolver,
+  issuesToErrors,
+  JsonSchema,
+  ResolverIssue,
+} from './resolvers';
+
+/**
+ * 使用JSON Schema验证值并转换为表单错误
+ */
+function validate(schema: JsonSchema, values: unknown) {
+  return issuesToErrors(jsonSchemaResolver(schema)(values) as ResolverIssue[]);
+}
+
+describe('jsonSchemaResolver', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['name', 'email'],
+    properties: {
+      name: { type: 'string', minLength: 2 },
+      email: { type: 'string', format: 'email' },
+      age: { type: 'integer', minimum: 18 },
+      address: {
+        type: 'object',
+        required: ['city'],
+        properties: { city: { type: 'string' } },
+      },
+      items: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: { qty: { type: 'number', exclusiveMinimum: 0 } },
+        },
+      },
+    },
+  };
+
+  it('合法的值没有问题', () => {
+    expect(
+      jsonSchemaResolver(schema)({
+        name: 'Alice',
+        email: 'alice@example.com',
+        age: 20,
+        address: { city: 'Paris' },
+        items: [{ qty: 1 }],
+      })
+    ).toEqual([]);
+  });
+
+  it('必填字段为空时报错，空字段不再检查其他规则', () => {
+    expect(validate(schema, { name: '', email: null })).toEqual({
+      name: 'This field is required',
+      email: 'This field is required',
+    });
+  });
+
+  it('按嵌套对象和数组元素的字段路径报告问题', () => {
+    expect(
+      validate(schema, {
+        name: 'A',
+        email: 'not-an-email',
+        age: 16.5,
+        address: {},
+        items: [{ qty: 1 }, { qty: 0 }],
+      })
+    ).toEqual({
+      name: 'Minimum length is 2 characters',
+      email: 'Please enter a valid email address',
+      age: 'Please enter a valid integer',
+      'address.city': 'This field is required',
+      'items[1].qty': 'Must be greater than 0',
+    });
+  });
+
+  it('errorMessage可以覆盖全部或指定关键字的错误信息', () => {
+    expect(
+      validate(
+        {
+          type: 'object',
+          required: ['code'],
+          properties: {
+            code: {
+              type: 'string',
+              pattern: '^[A-Z]+$',
+              errorMessage: {
+                required: '请输入代码',
+                pattern: '只能包含大写字母',
+              },
+            },
+            tags: {
+              type: 'array',
+              uniqueItems: true,
+              errorMessage: '标签不能重复',
+            },
+          },
+        },
+        { code: 'abc', tags: ['a', 'a'] }
+      )
+    ).toEqual({ code: '只能包含大写字母', tags: '标签不能重复' });
+    expect(
+      validate(
+        {
+          type: 'object',
+          required: ['code'],
+          properties: { code: { errorMessage: { required: '请输入代码' } } },
+        },
+        {}
+      )
+    ).toEqual({ code: '请输入代码' });
+  });
+
+  it('支持enum、const、anyOf和additionalProperties', () => {
+    expect(
+      validate(
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            role: { enum: ['admin', 'user'] },
+            agree: { const: true },
+            contact: {
+              anyOf: [
+                { type: 'string', format: 'email' },
+                { type: 'string', pattern: '^\\d+$' },
+              ],
+            },
+          },
+        },
+        { role: 'guest', agree: false, contact: 'abc', extra: 1 }
+      )
+    ).toEqual({
+      role: 'Must be one of: "admin", "user"',
+      agree: 'Must be true',
+      contact: 'Does not match any of the allowed formats',
+      extra: 'Unknown field',
+    });
+  });
+});
+
+describe('issuesToErrors', () => {
+  it('规范化路径，同一字段只保留第一条错误信息', () => {
+    expect(
+      issuesToErrors([
+        { path: ['items', '0', 'qty'], message: '数量必须大于0' },
+        { path: 'items.0.qty', message: '数量必须是整数' },
+        { path: 'address.city', message: '请输入城市' },
+      ])
+    ).toEqual({
+      'items[0].qty': '数量必须大于0',
+      'address.city': '请输入城市',
+    });
+  });
+});
@@ -0,0 +1,389 @@
+import { PathSegment, formatPath, normalizePath } from './path';
+
+/**
+ * 解析器报告的验证问题
+ */
+export interface ResolverIssue {
+  /** 出错字段的路径，可以是路径片段数组（例如Zod的issue.path）或字段路径字符串（例如Yup的error.path） */
+  path: PathSegment[] | string;
+  /** 错误信息 */
+  message: string;
+}
+
+/**
+ * 表单解析器：验证整个表单值并返回所有问题，没有问题时返回空数组
+ */
+export type FormResolver<TValues = any> = (
+  values: TValues
+) => ResolverIssue[] | Promise<ResolverIssue[]>;
+
+/**
+ * 内置解析器支持的JSON Schema类型
+ */
+export type JsonSchemaType =
+  'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * 内置解析器支持的JSON Schema子集
+ */
+export interface JsonSchema {
+  /** 值的类型 */
+  type?: JsonSchemaType | JsonSchemaType[];
+  /** 对象的属性 */
+  properties?: Record<string, JsonSchema>;
+  /** 必填的属性，undefined、null和空字符串都视为未填写 */
+  required?: string[];
+  /** 是否允许properties之外的属性，默认允许 */
+  additionalProperties?: boolean;
+  /** 数组元素的模式 */
+  items?: JsonSchema;
+  /** 数组的最少元素数 */
+  minItems?: number;
+  /** 数组的最多元素数 */
+  maxItems?: number;
+  /** 数组元素是否不能重复 */
+  uniqueItems?: boolean;
+  /** 字符串的最小长度 */
+  minLength?: number;
+  /** 字符串的最大长度 */
+  maxLength?: number;
+  /** 字符串需要匹配的正则表达式 */
+  pattern?: string;
+  /** 字符串格式，支持email、uri、date和date-time，其他格式会被忽略 */
+  format?: string;
+  /** 最小值 */
+  minimum?: number;
+  /** 最大值 */
+  maximum?: number;
+  /** 需要大于的值 */
+  exclusiveMinimum?: number;
+  /** 需要小于的值 */
+  exclusiveMaximum?: number;
+  /** 需要是该值的整数倍 */
+  multipleOf?: number;
+  /** 允许的值 */
+  enum?: any[];
+  /** 唯一允许的值 */
+  const?: any;
+  /** 需要同时满足的模式 */
+  allOf?: JsonSchema[];
+  /** 需要满足其中之一的模式 */
+  anyOf?: JsonSchema[];
+  /** 自定义错误信息：字符串用于所有关键字，对象按关键字指定 */
+  errorMessage?: string | Partial<Record<JsonSchemaKeyword, string>>;
+}
+
+/**
+ * 可以自定义错误信息的关键字
+ */
+export type JsonSchemaKeyword = Exclude<
+  keyof JsonSchema,
+  'properties' | 'items' | 'allOf' | 'errorMessage'
+>;
+
+/**
+ * 各类型不匹配时的默认错误信息
+ */
+const TYPE_MESSAGES: Record<JsonSchemaType, string> = {
+  string: 'Must be a string',
+  number: 'Please enter a valid number',
+  integer: 'Please enter a valid integer',
+  boolean: 'Must be a boolean',
+  object: 'Must be an object',
+  array: 'Must be an array',
+  null: 'Must be null',
+};
+
+/**
+ * 支持的字符串格式及其默认错误信息
+ */
+const FORMATS: Record<
+  string,
+  { test: (value: string) => boolean; message: string }
+> = {
+  email: {
+    test: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+    message: 'Please enter a valid email address',
+  },
+  uri: {
+    test: value => {
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    message: 'Please enter a valid URL',
+  },
+  date: {
+    test: value =>
+      /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+    message: 'Please enter a valid date',
+  },
+  'date-time': {
+    test: value =>
+      /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value)),
+    message: 'Please enter a valid date and time',
+  },
+};
+
+/**
+ * 判断值是否为空，空值不参与必填以外的验证
+ * @param value - 值
+ * @returns 是否为空
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * 比较两个JSON值是否相等
+ * @param a - 值
+ * @param b - 值
+ * @returns 是否相等
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 判断值是否属于指定类型
+ * @param type - JSON Schema类型
+ * @param value - 值
+ * @returns 是否匹配
+ */
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+/**
+ * 读取关键字的错误信息，没有自定义时使用默认信息
+ * @param schema - 模式
+ * @param keyword - 关键字
+ * @param fallback - 默认信息
+ * @returns 错误信息
+ */
+function getMessage(
+  schema: JsonSchema,
+  keyword: JsonSchemaKeyword,
+  fallback: string
+): string {
+  const { errorMessage } = schema;
+  if (typeof errorMessage === 'string') {
+    return errorMessage;
+  }
+  return errorMessage?.[keyword] ?? fallback;
+}
+
+/**
+ * 按模式验证值，问题追加到issues中
+ * @param schema - 模式
+ * @param value - 值
+ * @param path - 值的路径
+ * @param issues - 收集到的问题
+ */
+function validateSchema(
+  schema: JsonSchema,
+  value: any,
+  path: PathSegment[],
+  issues: ResolverIssue[]
+) {
+  const report = (keyword: JsonSchemaKeyword, fallback: string) => {
+    issues.push({ path, message: getMessage(schema, keyword, fallback) });
+  };
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      report(
+        'type',
+        types.length === 1
+          ? TYPE_MESSAGES[types[0]]
+          : `Must be ${types.join(' or ')}`
+      );
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    report('const', `Must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(item => isEqual(item, value))) {
+    report(
+      'enum',
+      `Must be one of: ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`
+    );
+  }
+
+  if (typeof value === 'string') {
+    const { minLength, maxLength, pattern, format } = schema;
+    if (minLength !== undefined && value.length < minLength) {
+      report('minLength', `Minimum length is ${minLength} characters`);
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      report('maxLength', `Maximum length is ${maxLength} characters`);
+    }
+    if (pattern !== undefined && !new RegExp(pattern).test(value)) {
+      report('pattern', 'Invalid format');
+    }
+    if (
+      format !== undefined &&
+      FORMATS[format] &&
+      !FORMATS[format].test(value)
+    ) {
+      report('format', FORMATS[format].message);
+    }
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } =
+      schema;
+    if (minimum !== undefined && value < minimum) {
+      report('minimum', `Minimum value is ${minimum}`);
+    }
+    if (maximum !== undefined && value > maximum) {
+      report('maximum', `Maximum value is ${maximum}`);
+    }
+    if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) {
+      report('exclusiveMinimum', `Must be greater than ${exclusiveMinimum}`);
+    }
+    if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+      report('exclusiveMaximum', `Must be less than ${exclusiveMaximum}`);
+    }
+    // 除法结果取整后比较，避免0.1之类的小数精度问题
+    if (multipleOf !== undefined) {
+      const quotient = value / multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        report('multipleOf', `Must be a multiple of ${multipleOf}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const { minItems, maxItems, uniqueItems, items } = schema;
+    if (minItems !== undefined && value.length < minItems) {
+      report('minItems', `Must contain at least ${minItems} items`);
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      report('maxItems', `Must contain at most ${maxItems} items`);
+    }
+    if (
+      uniqueItems &&
+      value.some((item, index) =>
+        value.slice(0, index).some(other => isEqual(item, other))
+      )
+    ) {
+      report('uniqueItems', 'Items must be unique');
+    }
+    if (items) {
+      value.forEach((item, index) => {
+        if (!isEmpty(item)) {
+          validateSchema(items, item, [...path, index], issues);
+        }
+      });
+    }
+  }
+
+  if (matchesType('object', value)) {
+    const { properties = {}, required = [], additionalProperties } = schema;
+    required.forEach(key => {
+      if (isEmpty(value[key])) {
+        issues.push({
+          path: [...path, key],
+          message: getMessage(
+            properties[key] ?? {},
+            'required',
+            getMessage(schema, 'required', 'This field is required')
+          ),
+        });
+      }
+    });
+    Object.keys(properties).forEach(key => {
+      if (!isEmpty(value[key])) {
+        validateSchema(properties[key], value[key], [...path, key], issues);
+      }
+    });
+    if (additionalProperties === false) {
+      Object.keys(value)
+        .filter(key => !(key in properties))
+        .forEach(key => {
+          issues.push({
+            path: [...path, key],
+            message: getMessage(
+              schema,
+              'additionalProperties',
+              'Unknown field'
+            ),
+          });
+        });
+    }
+  }
+
+  schema.allOf?.forEach(subschema => {
+    validateSchema(subschema, value, path, issues);
+  });
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some(subschema => {
+      const subIssues: ResolverIssue[] = [];
+      validateSchema(subschema, value, path, subIssues);
+      return subIssues.length === 0;
+    });
+    if (!matched) {
+      report('anyOf', 'Does not match any of the allowed formats');
+    }
+  }
+}
+
+/**
+ * 创建使用JSON Schema子集验证表单值的解析器，不依赖第三方库
+ * @param schema - 整个表单值的模式
+ * @returns 表单解析器
+ */
+function jsonSchemaResolver(schema: JsonSchema): FormResolver {
+  return values => {
+    const issues: ResolverIssue[] = [];
+    validateSchema(schema, values, [], issues);
+    return issues;
+  };
+}
+
+/**
+ * 将解析器报告的问题转换为表单错误，同一字段只保留第一条错误信息
+ * @param issues - 验证问题
+ * @returns 以规范字段路径为键的表单错误
+ */
+function issuesToErrors(
+  issues: ResolverIssue[]
+): Record<string, string | undefined> {
+  const errors: Record<string, string | undefined> = {};
+  issues.forEach(({ path, message }) => {
+    // 片段数组中的数字字符串同样视为数组索引
+    const name = normalizePath(
+      typeof path === 'string' ? path : formatPath(path)
+    );
+    if (!errors[name]) {
+      errors[name] = message;
+    }
+  });
+  return errors;
+}
+
+export { jsonSchemaResolver, issuesToErrors };
@@ -0,0 +1,200 @@
+import { useCallback, useRef } from 'react';
+import { UseFormReturn, FormValues } from './useForm';
+import { FieldArrayPath, FieldPathValue, normalizePath } from './path';
+
+/**
+ * 数组字段中的一项
+ */
+export interface FieldArrayItem<TItem = any, TName extends string = string> {
+  /** 稳定的标识，元素移动时保持不变，用作列表渲染的key */
+  key: string;
+  /** 当前索引 */
+  index: number;
+  /** 元素的字段路径，例如items[2]，可以拼接子字段，例如`${name}.qty` */
+  name: `${TName}[${number}]`;
+  /** 元素的值 */
+  value: TItem;
+}
+
+/**
+ * useFieldArray Hook的返回类型
+ */
+export interface UseFieldArrayReturn<
+  TItem = any,
+  TName extends string = string,
+> {
+  /** 数组中的所有元素 */
+  fields: FieldArrayItem<TItem, TName>[];
+  /** 在末尾添加元素 */
+  append: (value: TItem) => void;
+  /** 移除指定位置的元素 */
+  remove: (index: number) => void;
+  /** 在指定位置插入元素 */
+  insert: (index: number, value: TItem) => void;
+  /** 将元素移动到新位置 */
+  move: (from: number, to: number) => void;
+  /** 交换两个元素 */
+  swap: (indexA: number, indexB: number) => void;
+}
+
+/**
+ * 数组字段的元素类型
+ */
+export type FieldArrayItemValue<
+  TValues extends FormValues,
+  TName extends string,
+> =
+  NonNullable<FieldPathValue<TValues, TName>> extends ReadonlyArray<infer Item>
+    ? Item
+    : any;
+
+/**
+ * 生成元素标识的计数器
+ */
+let keyCounter = 0;
+
+/**
+ * 生成新的元素标识
+ * @returns 元素标识
+ */
+function createKey(): string {
+  return `field-${++keyCounter}`;
+}
+
+/**
+ * useFieldArray - 管理表单中的数组字段，增删和移动元素时错误和触碰状态随元素移动
+ * @param form - useForm返回的表单
+ * @param name - 数组字段的路径，元素类型由表单值类型推断
+ * @returns 数组元素和操作函数
+ */
+function useFieldArray<
+  TValues extends FormValues,
+  TName extends FieldArrayPath<TValues>,
+>(
+  form: UseFormReturn<TValues>,
+  name: TName
+): UseFieldArrayReturn<FieldArrayItemValue<TValues, TName>, TName>;
+function useFieldArray(form: UseFormReturn, name: string): UseFieldArrayReturn {
+  const path = normalizePath(name);
+  const value = form.getFieldValue(path);
+  const items: any[] = Array.isArray(value) ? value : [];
+
+  // 元素标识与数组同步修改；数组在外部被替换（例如重置表单）导致长度变化时补齐或截断
+  const keysRef = useRef<string[]>([]);
+  if (keysRef.current.length !== items.length) {
+    keysRef.current = items.map(
+      (_, index) => keysRef.current[index] ?? createKey()
+    );
+  }
+
+  const { updateFieldArray } = form;
+
+  // 以相同的方式修改元素标识和数组，created为新增元素时分别对应的值
+  const update = useCallback(
+    (
+      transform: <T>(list: T[], created: T) => T[],
+      remapIndex: (index: number) => number | undefined,
+      createdValue?: any
+    ) => {
+      keysRef.current = transform(keysRef.current, createKey());
+      updateFieldArray(path, list => transform(list, createdValue), remapIndex);
+    },
+    [updateFieldArray, path]
+  );
+
+  const append = useCallback(
+    (item: any) => {
+      update(
+        (list, created) => [...list, created],
+        index => index,
+        item
+      );
+    },
+    [update]
+  );
+
+  const insert = useCallback(
+    (index: number, item: any) => {
+      const target = Math.max(0, Math.min(index, keysRef.current.length));
+      update(
+        (list, created) => [
+          ...list.slice(0, target),
+          created,
+          ...list.slice(target),
+        ],
+        current => (current >= target ? current + 1 : current),
+        item
+      );
+    },
+    [update]
+  );
+
+  const remove = useCallback(
+    (index: number) => {
+      if (index < 0 || index >= keysRef.current.length) return;
+      update(
+        list => list.filter((_, current) => current !== index),
+        current =>
+          current === index
+            ? undefined
+            : current > index
+              ? current - 1
+              : current
+      );
+    },
+    [update]
+  );
+
+  const move = useCallback(
+    (from: number, to: number) => {
+      const length = keysRef.current.length;
+      if (from < 0 || from >= length || to < 0 || to >= length || from === to) {
+        return;
+      }
+      update(
+        list => {
+          const next = [...list];
+          next.splice(to, 0, ...next.splice(from, 1));
+          return next;
+        },
+        current => {
+          if (current === from) return to;
+          if (from < to && current > from && current <= to) return current - 1;
+          if (from > to && current >= to && current < from) return current + 1;
+          return current;
+        }
+      );
+    },
+    [update]
+  );
+
+  const swap = useCallback(
+    (indexA: number, indexB: number) => {
+      const length = keysRef.current.length;
+      if (indexA < 0 || indexA >= length || indexB < 0 || indexB >= length) {
+        return;
+      }
+      update(
+        list => {
+          const next = [...list];
+          [next[indexA], next[indexB]] = [next[indexB], next[indexA]];
+          return next;
+        },
+        current =>
+          current === indexA ? indexB : current === indexB ? indexA : current
+      );
+    },
+    [update]
+  );
+
+  const fields = items.map((item, index): FieldArrayItem => ({
+    key: keysRef.current[index],
+    index,
+    name: `${path}[${index}]`,
+    value: item,
+  }));
+
+  return { fields, append, remove, insert, move, swap };
+}
+
+export { useFieldArray };
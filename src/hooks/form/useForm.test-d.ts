@@ -0,0 +1,106 @@
+/**
+ * useForm和useFieldArray的类型测试，由type-check检查，不会被Jest执行
+ */
+import { useForm } from './useForm';
+import { useFieldArray } from './useFieldArray';
+
+/**
+ * 两个类型完全相同时为true
+ */
+type Equal<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+    ? true
+    : false;
+
+/**
+ * 类型断言，类型参数不为true时type-check报错
+ */
+function expectType<T extends true>(): T | void {}
+
+interface OrderValues {
+  customer: { name: string; email: string };
+  items: { sku: string; qty: number }[];
+  note?: string;
+}
+
+function useTypedFormTypes() {
+  const form = useForm<OrderValues>({
+    fields: {
+      'customer.name': { required: true },
+      'items[0].qty': {
+        validate: value => {
+          expectType<Equal<typeof value, number>>();
+          return value > 0 ? undefined : '数量必须大于0';
+        },
+      },
+    },
+    onSubmit: values => {
+      expectType<Equal<typeof values, OrderValues>>();
+    },
+  });
+
+  expectType<Equal<typeof form.formState.values, OrderValues>>();
+  expectType<
+    Equal<ReturnType<typeof form.getFieldValue<'customer.email'>>, string>
+  >();
+  expectType<
+    Equal<ReturnType<typeof form.getFieldValue<`items[${number}].qty`>>, number>
+  >();
+
+  form.setFieldValue('items[1].sku', 'A-1');
+  form.setFieldValue('customer', { name: 'Alice', email: 'a@example.com' });
+  form.setFieldError('note', undefined);
+
+  // @ts-expect-error 字段路径不存在
+  form.setFieldValue('customer.phone', '123');
+  // @ts-expect-error 值类型与字段不匹配
+  form.setFieldValue('items[0].qty', '2');
+  // @ts-expect-error 字段配置的键必须是表单中的字段路径
+  useForm<OrderValues>({ fields: { address: {} } });
+  // @ts-expect-error 验证函数的参数类型由字段决定
+  useForm<OrderValues>({ fields: { note: { validate: (v: number) => v } } });
+
+  const items = useFieldArray(form, 'items');
+  expectType<
+    Equal<(typeof items.fields)[number]['value'], { sku: string; qty: number }>
+  >();
+  items.append({ sku: 'B-2', qty: 1 });
+  // @ts-expect-error 新元素缺少字段
+  items.append({ sku: 'B-2' });
+  // @ts-expect-error 只能用于数组字段
+  useFieldArray(form, 'customer');
+
+  const [first] = items.fields;
+  form.setFieldValue(`${first.name}.qty`, 3);
+}
+
+function useInferredFormTypes() {
+  const form = useForm({
+    fields: {
+      username: {},
+      age: { initialValue: 18 },
+      'address.city': { initialValue: 'Paris' },
+      tags: { initialValue: [] as string[] },
+    },
+  });
+
+  expectType<
+    Equal<
+      typeof form.formState.values,
+      {
+        username: string;
+        age: number;
+        address: { city: string };
+        tags: string[];
+      }
+    >
+  >();
+
+  form.setFieldValue('address.city', 'Berlin');
+  // @ts-expect-error 推断的字段类型为number
+  form.setFieldValue('age', 'eighteen');
+  // @ts-expect-error 推断的表单值中没有该字段
+  form.getFieldValue('email');
+}
+
+export { useTypedFormTypes, useInferredFormTypes };
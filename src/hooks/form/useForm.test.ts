@@ -0,0 +1,381 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act } from '@testing-library/react';
+import { useForm, FieldConfig } from './useForm';
+import { JsonSchema } from './resolvers';
+import { validationRules } from './useValidation';
+
+/**
+ * 创建按调用顺序手动结束的异步验证函数
+ */
+function createControlledValidate() {
+  const calls: Array<{
+    value: string;
+    signal: AbortSignal;
+    resolve: (error: string | undefined) => void;
+  }> = [];
+  const validate = jest.fn(
+    (value: string, _values: unknown, signal: AbortSignal) =>
+      new Promise<string | undefined>(resolve => {
+        calls.push({ value, signal, resolve });
+      })
+  );
+  return { validate, calls };
+}
+
+/**
+ * 等待已排队的微任务执行完毕
+ */
+function flush() {
+  return act(() => Promise.resolve());
+}
+
+describe('useForm async validation', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('值改变时按防抖时间验证，防抖期间的修改只验证最后一次', async () => {
+    jest.useFakeTimers();
+    const validate = jest.fn((value: string) =>
+      value.length < 3 ? '太短' : undefined
+    );
+    const fields: Record<string, FieldConfig> = {
+      username: { validate, debounce: 300 },
+    };
+    const { result } = renderHook(() =>
+      useForm({ fields, validateOnChange: true })
+    );
+
+    act(() => {
+      result.current.setFieldValue('username', 'a');
+    });
+    await act(() => jest.advanceTimersByTimeAsync(100));
+    act(() => {
+      result.current.setFieldValue('username', 'ab');
+    });
+
+    expect(result.current.getFieldState('username').validating).toBe(true);
+    expect(result.current.formState.isValidating).toBe(true);
+
+    await act(() => jest.advanceTimersByTimeAsync(299));
+    expect(validate).not.toHaveBeenCalled();
+
+    await act(() => jest.advanceTimersByTimeAsync(1));
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(validate.mock.calls[0][0]).toBe('ab');
+    expect(result.current.formState.errors.username).toBe('太短');
+    expect(result.current.formState.isValidating).toBe(false);
+  });
+
+  it('新的验证取消进行中的验证，旧结果不会覆盖新结果', async () => {
+    const { validate, calls } = createControlledValidate();
+    const fields: Record<string, FieldConfig> = { username: { validate } };
+    const { result } = renderHook(() =>
+      useForm({ fields, validateOnChange: true })
+    );
+
+    act(() => {
+      result.current.setFieldValue('username', 'old');
+    });
+    await flush();
+    act(() => {
+      result.current.setFieldValue('username', 'new');
+    });
+    await flush();
+
+    expect(calls.map(call => call.value)).toEqual(['old', 'new']);
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(calls[1].signal.aborted).toBe(false);
+
+    // 被取代的验证即使之后返回也不生效
+    await act(async () => {
+      calls[0].resolve('已被占用');
+    });
+    expect(result.current.formState.errors.username).toBeUndefined();
+    expect(result.current.getFieldState('username').validating).toBe(true);
+
+    await act(async () => {
+      calls[1].resolve(undefined);
+    });
+    expect(result.current.formState.errors.username).toBeUndefined();
+    expect(result.current.getFieldState('username').validating).toBe(false);
+  });
+
+  it('validateField在验证被取代时返回最新一次验证的结果', async () => {
+    const { validate, calls } = createControlledValidate();
+    const fields: Record<string, FieldConfig> = { username: { validate } };
+    const { result } = renderHook(() => useForm({ fields }));
+
+    let first!: Promise<string | undefined>;
+    act(() => {
+      first = result.current.validateField('username');
+    });
+    await flush();
+    act(() => {
+      result.current.validateField('username');
+    });
+    await flush();
+
+    await act(async () => {
+      calls[1].resolve('最新错误');
+    });
+    await expect(first).resolves.toBe('最新错误');
+  });
+
+  it('提交时等待进行中的验证，有错误时不调用onSubmit', async () => {
+    const { validate, calls } = createControlledValidate();
+    const onSubmit = jest.fn();
+    const fields: Record<string, FieldConfig> = {
+      username: { validate, initialValue: 'taken' },
+    };
+    const { result } = renderHook(() => useForm({ fields, onSubmit }));
+
+    let submitting!: Promise<void>;
+    act(() => {
+      submitting = result.current.handleSubmit();
+    });
+    await flush();
+
+    expect(result.current.formState.isSubmitting).toBe(true);
+    expect(result.current.formState.isValidating).toBe(true);
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    await act(async () => {
+      calls[calls.length - 1].resolve('已被占用');
+      await submitting;
+    });
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.formState.errors.username).toBe('已被占用');
+    expect(result.current.formState.isSubmitting).toBe(false);
+  });
+
+  it('验证通过后提交最新的表单值', async () => {
+    const { validate, calls } = createControlledValidate();
+    const onSubmit = jest.fn();
+    const fields: Record<string, FieldConfig> = { username: { validate } };
+    const { result } = renderHook(() => useForm({ fields, onSubmit }));
+
+    let submitting!: Promise<void>;
+    act(() => {
+      result.current.setFieldValue('username', 'alice');
+      submitting = result.current.handleSubmit();
+    });
+    await flush();
+
+    await act(async () => {
+      calls[calls.length - 1].resolve(undefined);
+      await submitting;
+    });
+
+    expect(onSubmit).toHaveBeenCalledWith({ username: 'alice' });
+  });
+
+  it('重置表单取消进行中的验证', async () => {
+    const { validate, calls } = createControlledValidate();
+    const fields: Record<string, FieldConfig> = { username: { validate } };
+    const { result } = renderHook(() =>
+      useForm({ fields, validateOnChange: true })
+    );
+
+    act(() => {
+      result.current.setFieldValue('username', 'bob');
+    });
+    await flush();
+    act(() => {
+      result.current.resetForm();
+    });
+
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(result.current.formState.isValidating).toBe(false);
+
+    await act(async () => {
+      calls[0].resolve('错误');
+    });
+    expect(result.current.formState.errors.username).toBeUndefined();
+  });
+});
+
+describe('useForm schema and resolver validation', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['email'],
+    properties: {
+      email: { type: 'string', format: 'email' },
+      address: {
+        type: 'object',
+        properties: { city: { type: 'string', minLength: 2 } },
+      },
+    },
+  };
+
+  it('提交时使用schema验证整个表单，按字段路径记录错误', async () => {
+    const onSubmit = jest.fn();
+    const { result } = renderHook(() =>
+      useForm({
+        fields: { email: {}, 'address.city': { initialValue: 'P' } },
+        schema,
+        onSubmit,
+      })
+    );
+
+    await act(() => result.current.handleSubmit());
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.formState.errors).toEqual({
+      email: 'This field is required',
+      'address.city': 'Minimum length is 2 characters',
+    });
+  });
+
+  it('字段配置的错误优先于schema和resolver的错误', async () => {
+    const { result } = renderHook(() =>
+      useForm({
+        fields: { email: { required: true, requiredMessage: '请输入邮箱' } },
+        schema,
+        resolver: () => [{ path: ['email'], message: '邮箱已被注册' }],
+      })
+    );
+
+    let errors: Record<string, string | undefined> = {};
+    await act(async () => {
+      errors = await result.current.validateForm();
+    });
+    expect(errors.email).toBe('请输入邮箱');
+
+    act(() => {
+      result.current.setFieldValue('email', 'alice@example.com');
+    });
+    await act(async () => {
+      errors = await result.current.validateForm();
+    });
+    expect(errors.email).toBe('邮箱已被注册');
+  });
+
+  it('validateField使用最新的表单值执行异步resolver', async () => {
+    const resolver = jest.fn(
+      async (values: { password: string; confirm: string }) =>
+        values.password === values.confirm
+          ? []
+          : [{ path: 'confirm', message: '两次输入的密码不一致' }]
+    );
+    const { result } = renderHook(() =>
+      useForm({
+        fields: { password: {}, confirm: {} },
+        resolver,
+      })
+    );
+
+    act(() => {
+      result.current.setFieldValue('password', 'secret');
+      result.current.setFieldValue('confirm', 'secre');
+    });
+    let error: string | undefined;
+    await act(async () => {
+      error = await result.current.validateField('confirm');
+    });
+    expect(error).toBe('两次输入的密码不一致');
+    expect(resolver).toHaveBeenLastCalledWith({
+      password: 'secret',
+      confirm: 'secre',
+    });
+
+    act(() => {
+      result.current.setFieldValue('confirm', 'secret');
+    });
+    await act(async () => {
+      error = await result.current.validateField('confirm');
+    });
+    expect(error).toBeUndefined();
+  });
+});
+
+describe('useForm rule chains', () => {
+  it('按顺序执行规则链，默认返回第一个错误，规则抛出的错误视为验证失败', async () => {
+    const { result } = renderHook(() =>
+      useForm({
+        fields: {
+          username: {
+            initialValue: 'a',
+            rules: [
+              validationRules.minLength(3, '至少3个字符'),
+              () => {
+                throw new Error('用户名已存在');
+              },
+            ],
+          },
+        },
+      })
+    );
+
+    let error: string | undefined;
+    await act(async () => {
+      error = await result.current.validateField('username');
+    });
+    expect(error).toBe('至少3个字符');
+
+    act(() => {
+      result.current.setFieldValue('username', 'alice');
+    });
+    await act(async () => {
+      error = await result.current.validateField('username');
+    });
+    expect(error).toBe('用户名已存在');
+  });
+
+  it('stopOnFirstError为false时合并规则链和validate的所有错误', async () => {
+    const { result } = renderHook(() =>
+      useForm({
+        fields: {
+          password: {
+            initialValue: 'abc',
+            rules: [
+              validationRules.minLength(8, '至少8个字符'),
+              value => (/\d/.test(value) ? undefined : '必须包含数字'),
+            ],
+            validate: () => '不能与用户名相同',
+            stopOnFirstError: false,
+          },
+        },
+      })
+    );
+
+    let error: string | undefined;
+    await act(async () => {
+      error = await result.current.validateField('password');
+    });
+    expect(error).toBe('至少8个字符; 必须包含数字; 不能与用户名相同');
+  });
+
+  it('字段的validateTrigger覆盖表单的验证时机', async () => {
+    const rule = jest.fn((value: string) => (value ? undefined : '必填'));
+    const { result } = renderHook(() =>
+      useForm({
+        validateOnChange: false,
+        validateOnBlur: true,
+        fields: {
+          code: { rules: [rule], validateTrigger: 'change' },
+          name: { rules: [rule], validateTrigger: 'submit' },
+        },
+      })
+    );
+
+    await act(async () => {
+      await result.current.setFieldValue('code', '');
+    });
+    expect(result.current.formState.errors.code).toBe('必填');
+
+    await act(async () => {
+      await result.current.setFieldTouched('code');
+      await result.current.setFieldTouched('name');
+      await result.current.setFieldValue('name', '');
+    });
+    expect(rule).toHaveBeenCalledTimes(1);
+    expect(result.current.formState.errors.name).toBeUndefined();
+
+    await act(() => result.current.handleSubmit());
+    expect(result.current.formState.errors.name).toBe('必填');
+  });
+});
@@ -1,51 +1,129 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import {
+  FieldPath,
+  FieldPathValue,
+  FieldArrayPath,
+  PathValues,
+  normalizePath,
+  getIn,
+  setIn,
+  omitPath,
+  remapArrayPaths,
+  isPathWithin,
+} from './path';
+import {
+  FormResolver,
+  JsonSchema,
+  jsonSchemaResolver,
+  issuesToErrors,
+} from './resolvers';
+import { ValidationRule, runValidationRules } from './useValidation';
+import { isAbortError, raceWithSignal, sleep } from '../async/abort';
 
 /**
- * 表单字段值类型
+ * 表单字段值类型，可以包含嵌套对象和数组
  */
 export type FormValues = Record<string, any>;
 
 /**
- * 表单错误类型
+ * 表单错误类型，键为规范的字段路径，例如address.city、items[2].qty
  */
-export type FormErrors = Record<string, string | undefined>;
+export type FormErrors<TValues extends FormValues = FormValues> = {
+  [P in FieldPath<TValues>]?: string;
+};
+
+/**
+ * 字段触碰状态，键为规范的字段路径
+ */
+export type FormTouched<TValues extends FormValues = FormValues> = {
+  [P in FieldPath<TValues>]?: boolean;
+};
+
+/**
+ * 触发字段验证的时机，提交时总会验证所有字段
+ */
+export type ValidateTrigger = 'change' | 'blur' | 'submit';
 
 /**
  * 表单字段配置
  */
-export interface FieldConfig {
+export interface FieldConfig<
+  TValue = any,
+  TValues extends FormValues = FormValues,
+> {
   /** 初始值 */
-  initialValue?: any;
-  /** 验证规则 */
-  validate?: (value: any, values: FormValues) => string | undefined;
+  initialValue?: TValue;
+  /** 验证规则，可以是异步函数；验证被新的验证取代时signal会被取消 */
+  validate?: (
+    value: TValue,
+    values: TValues,
+    signal: AbortSignal
+  ) => string | undefined | Promise<string | undefined>;
   /** 是否必填 */
   required?: boolean;
   /** 必填错误信息 */
   requiredMessage?: string;
+  /** 验证规则链，可以组合validationRules中的内置规则，在validate之前执行 */
+  rules?: ValidationRule<TValue>[];
+  /** 是否在第一个错误时停止验证，默认为true；为false时所有错误信息以分号分隔 */
+  stopOnFirstError?: boolean;
+  /** 触发验证的时机，设置后覆盖表单的validateOnChange和validateOnBlur */
+  validateTrigger?: ValidateTrigger | ValidateTrigger[];
+  /** 值改变触发验证的防抖时间（毫秒），默认使用表单的validateDebounce */
+  debounce?: number;
 }
 
+/**
+ * 字段配置表，键为字段路径，值类型由路径决定
+ */
+export type FormFields<TValues extends FormValues = FormValues> = {
+  [P in FieldPath<TValues>]?: FieldConfig<FieldPathValue<TValues, P>, TValues>;
+};
+
 /**
  * 表单配置
  */
-export interface FormConfig {
-  /** 字段配置 */
-  fields?: Record<string, FieldConfig>;
+export interface FormConfig<TValues extends FormValues = FormValues> {
+  /** 字段配置，键为字段路径，支持点号和方括号写法，例如address.city、items[0].qty */
+  fields?: FormFields<TValues>;
   /** 表单级验证 */
-  validate?: (values: FormValues) => FormErrors;
+  validate?: (values: TValues) => FormErrors<TValues>;
+  /** 整个表单值的JSON Schema，使用内置的JSON Schema子集解析器验证 */
+  schema?: JsonSchema;
+  /** 验证整个表单值的解析器，用于适配Zod、Yup等第三方库，与schema同时设置时两者都会执行 */
+  resolver?: FormResolver<TValues>;
   /** 提交处理函数 */
-  onSubmit?: (values: FormValues) => void | Promise<void>;
+  onSubmit?: (values: TValues) => void | Promise<void>;
   /** 是否在值改变时验证 */
   validateOnChange?: boolean;
   /** 是否在失焦时验证 */
   validateOnBlur?: boolean;
+  /** 值改变触发验证的防抖时间（毫秒），默认为0 */
+  validateDebounce?: number;
 }
 
+/**
+ * 字段配置的值类型，没有初始值时字段初始化为空字符串
+ */
+type InitialValueOf<TConfig> = TConfig extends { initialValue: infer V }
+  ? V extends null | undefined
+    ? string
+    : V
+  : string;
+
+/**
+ * 由字段配置的初始值推断表单值类型
+ */
+export type InferFormValues<TFields> = PathValues<{
+  [K in keyof TFields]: InitialValueOf<TFields[K]>;
+}>;
+
 /**
  * 字段状态
  */
-export interface FieldState {
+export interface FieldState<TValue = any> {
   /** 字段值 */
-  value: any;
+  value: TValue;
   /** 错误信息 */
   error?: string;
   /** 是否已被触碰 */
@@ -54,18 +132,36 @@ export interface FieldState {
   validating: boolean;
 }
 
+/**
+ * 字段属性，可以直接传给输入组件
+ */
+export interface FieldProps<TValue = any> {
+  /** 字段值 */
+  value: TValue;
+  /** 值改变时调用 */
+  onChange: (value: TValue) => void;
+  /** 失焦时调用 */
+  onBlur: () => void;
+  /** 错误信息 */
+  error?: string;
+  /** 是否已被触碰 */
+  touched: boolean;
+}
+
 /**
  * 表单状态
  */
-export interface FormState {
+export interface FormState<TValues extends FormValues = FormValues> {
   /** 所有字段值 */
-  values: FormValues;
+  values: TValues;
   /** 所有错误信息 */
-  errors: FormErrors;
-  /** 已触碰的字段 */
-  touched: Record<string, boolean>;
+  errors: FormErrors<TValues>;
+  /** 已触碰的字段，键为规范的字段路径 */
+  touched: FormTouched<TValues>;
   /** 是否正在提交 */
   isSubmitting: boolean;
+  /** 是否有字段正在验证 */
+  isValidating: boolean;
   /** 是否有效 */
   isValid: boolean;
   /** 是否为初始状态 */
@@ -75,84 +171,163 @@ export interface FormState {
 /**
  * useForm Hook的返回类型
  */
-export interface UseFormReturn {
+export interface UseFormReturn<TValues extends FormValues = FormValues> {
   /** 表单状态 */
-  formState: FormState;
+  formState: FormState<TValues>;
+  /** 获取字段值，name为字段路径 */
+  getFieldValue: <P extends FieldPath<TValues>>(
+    name: P
+  ) => FieldPathValue<TValues, P>;
   /** 获取字段状态 */
-  getFieldState: (name: string) => FieldState;
+  getFieldState: <P extends FieldPath<TValues>>(
+    name: P
+  ) => FieldState<FieldPathValue<TValues, P>>;
   /** 获取字段属性 */
-  getFieldProps: (name: string) => {
-    value: any;
-    onChange: (value: any) => void;
-    onBlur: () => void;
-    error?: string;
-    touched: boolean;
-  };
+  getFieldProps: <P extends FieldPath<TValues>>(
+    name: P
+  ) => FieldProps<FieldPathValue<TValues, P>>;
   /** 设置字段值 */
-  setFieldValue: (name: string, value: any) => void;
+  setFieldValue: <P extends FieldPath<TValues>>(
+    name: P,
+    value: FieldPathValue<TValues, P>
+  ) => void;
   /** 设置字段错误 */
-  setFieldError: (name: string, error: string | undefined) => void;
+  setFieldError: (name: FieldPath<TValues>, error: string | undefined) => void;
   /** 设置字段触碰状态 */
-  setFieldTouched: (name: string, touched?: boolean) => void;
+  setFieldTouched: (name: FieldPath<TValues>, touched?: boolean) => void;
   /** 设置多个字段值 */
-  setValues: (values: Partial<FormValues>) => void;
+  setValues: (values: Partial<TValues>) => void;
   /** 设置多个字段错误 */
-  setErrors: (errors: Partial<FormErrors>) => void;
+  setErrors: (errors: FormErrors<TValues>) => void;
   /** 验证字段 */
-  validateField: (name: string) => Promise<string | undefined>;
+  validateField: (name: FieldPath<TValues>) => Promise<string | undefined>;
   /** 验证表单 */
-  validateForm: () => Promise<FormErrors>;
+  validateForm: () => Promise<FormErrors<TValues>>;
   /** 提交表单 */
   handleSubmit: (event?: React.FormEvent) => Promise<void>;
   /** 重置表单 */
-  resetForm: (values?: Partial<FormValues>) => void;
+  resetForm: (values?: Partial<TValues>) => void;
   /** 重置字段 */
-  resetField: (name: string) => void;
+  resetField: (name: FieldPath<TValues>) => void;
+  /** 修改数组字段，同时按remapIndex迁移数组元素的错误和触碰状态，供useFieldArray使用 */
+  updateFieldArray: <P extends FieldArrayPath<TValues>>(
+    name: P,
+    updater: (items: FieldPathValue<TValues, P>) => FieldPathValue<TValues, P>,
+    remapIndex: (index: number) => number | undefined
+  ) => void;
 }
 
 /**
- * useForm - 表单状态管理的React Hook
+ * 字段验证的结果，current为false表示验证已被新的验证取代或被取消
+ */
+interface FieldValidationResult {
+  error: string | undefined;
+  current: boolean;
+}
+
+/**
+ * 正在进行的字段验证
+ */
+interface PendingValidation {
+  id: number;
+  controller: AbortController;
+  promise: Promise<FieldValidationResult>;
+}
+
+/**
+ * 取代已有验证时的结果
+ */
+const SUPERSEDED: FieldValidationResult = { error: undefined, current: false };
+
+/**
+ * useForm - 表单状态管理的React Hook，不指定TValues时由字段配置的初始值推断表单值类型
  * @param config - 表单配置
  * @returns 表单状态和操作函数
  */
+function useForm<TFields extends Record<string, FieldConfig>>(
+  config: Omit<FormConfig<InferFormValues<TFields>>, 'fields'> & {
+    fields: TFields;
+  }
+): UseFormReturn<InferFormValues<TFields>>;
+/**
+ * useForm - 表单状态管理的React Hook
+ * @param config - 表单配置，字段路径和值类型由TValues检查
+ * @returns 表单状态和操作函数
+ */
+function useForm<TValues extends FormValues = FormValues>(
+  config?: FormConfig<TValues>
+): UseFormReturn<TValues>;
 function useForm(config: FormConfig = {}): UseFormReturn {
   const {
     fields = {},
     validate: formValidate,
+    schema,
+    resolver,
     onSubmit,
     validateOnChange = false,
     validateOnBlur = true,
+    validateDebounce = 0,
   } = config;
 
-  // 初始化表单值
+  // 字段配置以规范的字段路径为键，不同写法的路径指向同一个字段
+  const fieldConfigs = useMemo(() => {
+    const configs: Record<string, FieldConfig> = {};
+    Object.keys(fields).forEach(name => {
+      configs[normalizePath(name)] = fields[name] ?? {};
+    });
+    return configs;
+  }, [fields]);
+
+  // 初始化表单值，字段路径展开为嵌套对象和数组
   const initialValues = useMemo(() => {
-    const values: FormValues = {};
-    Object.entries(fields).forEach(([name, fieldConfig]) => {
-      values[name] = fieldConfig.initialValue ?? '';
+    let values: FormValues = {};
+    Object.keys(fieldConfigs).forEach(name => {
+      values = setIn(values, name, fieldConfigs[name].initialValue ?? '');
     });
     return values;
-  }, [fields]);
+  }, [fieldConfigs]);
 
   // 表单状态
   const [values, setValues] = useState<FormValues>(initialValues);
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [validating, setValidating] = useState<Record<string, boolean>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // 最新的表单值，值改变后立即触发的验证和提交读取它，而不是渲染时的旧值
+  const valuesRef = useRef(values);
+  const pendingRef = useRef(new Map<string, PendingValidation>());
+  const validationIdRef = useRef(0);
+
   // 计算派生状态
   const isValid = useMemo(() => {
-    return Object.keys(errors).length === 0;
+    return Object.keys(errors).every(name => !errors[name]);
   }, [errors]);
 
+  const isValidating = Object.keys(validating).length > 0;
+
   const isPristine = useMemo(() => {
     return JSON.stringify(values) === JSON.stringify(initialValues);
   }, [values, initialValues]);
 
-  // 验证单个字段
-  const validateField = useCallback(
-    async (name: string): Promise<string | undefined> => {
-      const fieldConfig = fields[name];
-      const value = values[name];
+  // 同步修改表单值和valuesRef
+  const updateValues = useCallback(
+    (updater: (prev: FormValues) => FormValues) => {
+      valuesRef.current = updater(valuesRef.current);
+      setValues(valuesRef.current);
+    },
+    []
+  );
+
+  // 按字段配置验证单个字段
+  const validateFieldConfig = useCallback(
+    async (
+      name: string,
+      formValues: FormValues,
+      signal: AbortSignal
+    ): Promise<string | undefined> => {
+      const fieldConfig = fieldConfigs[normalizePath(name)];
+      const value = getIn(formValues, name);
 
       // 必填验证
       if (fieldConfig?.required && (!value || value === '')) {
@@ -160,66 +335,267 @@ function useForm(config: FormConfig = {}): UseFormReturn {
         return error;
       }
 
-      // 自定义验证
+      // 规则链和自定义验证，验证函数忽略signal时同样在取消后立即结束
+      const rules: ValidationRule[] = [...(fieldConfig?.rules ?? [])];
       if (fieldConfig?.validate) {
-        try {
-          const error = await fieldConfig.validate(value, values);
-          return error;
-        } catch (err) {
-          return err instanceof Error ? err.message : 'Validation error';
+        const { validate } = fieldConfig;
+        rules.push(current => validate(current, formValues, signal));
+      }
+      if (rules.length === 0) {
+        return undefined;
+      }
+
+      return raceWithSignal(
+        runValidationRules(rules, value, name, fieldConfig?.stopOnFirstError),
+        signal
+      );
+    },
+    [fieldConfigs]
+  );
+
+  // 使用schema和resolver验证整个表单值，返回以规范字段路径为键的错误
+  const resolveErrors = useCallback(
+    async (formValues: FormValues): Promise<FormErrors> => {
+      const resolvers: FormResolver[] = [];
+      if (schema) {
+        resolvers.push(jsonSchemaResolver(schema));
+      }
+      if (resolver) {
+        resolvers.push(resolver);
+      }
+      if (resolvers.length === 0) {
+        return {};
+      }
+
+      try {
+        const issues = await Promise.all(
+          resolvers.map(item => item(formValues))
+        );
+        return issuesToErrors(
+          issues.reduce((all, current) => all.concat(current), [])
+        );
+      } catch (err) {
+        console.error('Form validation error:', err);
+        return {};
+      }
+    },
+    [schema, resolver]
+  );
+
+  // 取消符合条件的字段验证，被取消的验证不会写入错误
+  const cancelValidations = useCallback((match: (path: string) => boolean) => {
+    const pending = pendingRef.current;
+    const cancelled = Array.from(pending.keys()).filter(match);
+    if (cancelled.length === 0) {
+      return;
+    }
+    cancelled.forEach(path => {
+      pending.get(path)?.controller.abort();
+      pending.delete(path);
+    });
+    setValidating(prev => {
+      const next = { ...prev };
+      cancelled.forEach(path => delete next[path]);
+      return next;
+    });
+  }, []);
+
+  // 开始字段验证：取消该字段上一次验证，防抖后执行；只有最新一次验证的结果标记为current
+  const trackValidation = useCallback(
+    (
+      path: string,
+      task: (signal: AbortSignal) => Promise<string | undefined>,
+      delay = 0
+    ): Promise<FieldValidationResult> => {
+      const pending = pendingRef.current;
+      pending.get(path)?.controller.abort();
+
+      const id = ++validationIdRef.current;
+      const controller = new AbortController();
+      const settle = (result: FieldValidationResult) => {
+        if (pending.get(path)?.id !== id) {
+          return SUPERSEDED;
+        }
+        pending.delete(path);
+        setValidating(prev => {
+          const next = { ...prev };
+          delete next[path];
+          return next;
+        });
+        return result;
+      };
+
+      // 没有防抖时同样在下一个微任务开始，期间被取代的验证不会执行
+      const promise = (
+        delay > 0
+          ? sleep(delay, controller.signal)
+          : raceWithSignal(Promise.resolve(), controller.signal)
+      )
+        .then(() => task(controller.signal))
+        .then(
+          error => settle({ error, current: true }),
+          err => {
+            if (!isAbortError(err)) {
+              console.error('Form validation error:', err);
+            }
+            return settle(SUPERSEDED);
+          }
+        );
+
+      pending.set(path, { id, controller, promise });
+      setValidating(prev => ({ ...prev, [path]: true }));
+      return promise;
+    },
+    []
+  );
+
+  // 验证被取代时等待最新一次验证的结果
+  const resolveLatest = useCallback(
+    async (
+      path: string,
+      result: FieldValidationResult
+    ): Promise<string | undefined> => {
+      let latest = result;
+      while (!latest.current) {
+        const pending = pendingRef.current.get(path);
+        if (!pending) {
+          return undefined;
         }
+        latest = await pending.promise;
       }
+      return latest.error;
+    },
+    []
+  );
+
+  // 使用最新的表单值验证单个字段，字段配置的验证优先于schema和resolver
+  const runFieldValidation = useCallback(
+    (path: string, delay = 0) =>
+      trackValidation(
+        path,
+        async signal => {
+          const formValues = valuesRef.current;
+          const error = await validateFieldConfig(path, formValues, signal);
+          if (error || (!schema && !resolver)) {
+            return error;
+          }
+          const resolvedErrors = await resolveErrors(formValues);
+          return resolvedErrors[path];
+        },
+        delay
+      ),
+    [trackValidation, validateFieldConfig, resolveErrors, schema, resolver]
+  );
 
-      return undefined;
+  // 验证单个字段
+  const validateField = useCallback(
+    async (name: string): Promise<string | undefined> => {
+      const path = normalizePath(name);
+      return resolveLatest(path, await runFieldValidation(path));
     },
-    [fields, values]
+    [runFieldValidation, resolveLatest]
   );
 
-  // 验证整个表单
+  // 验证整个表单，取代各字段正在进行的验证
   const validateForm = useCallback(async (): Promise<FormErrors> => {
+    const formValues = valuesRef.current;
     const newErrors: FormErrors = {};
 
     // 验证所有字段
-    const fieldValidationPromises = Object.keys(fields).map(async name => {
-      const error = await validateField(name);
-      if (error) {
-        newErrors[name] = error;
+    const fieldValidationPromises = Object.keys(fieldConfigs).map(
+      async name => {
+        const result = await trackValidation(name, signal =>
+          validateFieldConfig(name, formValues, signal)
+        );
+        const error = await resolveLatest(name, result);
+        if (error) {
+          newErrors[name] = error;
+        }
       }
-    });
+    );
 
     await Promise.all(fieldValidationPromises);
 
+    // schema和resolver验证，只补充字段配置没有报错的字段
+    const resolvedErrors = await resolveErrors(formValues);
+    Object.keys(resolvedErrors).forEach(name => {
+      if (!newErrors[name]) {
+        newErrors[name] = resolvedErrors[name];
+      }
+    });
+
     // 表单级验证
     if (formValidate) {
       try {
-        const formErrors = await formValidate(values);
-        Object.assign(newErrors, formErrors);
+        const formErrors = await formValidate(formValues);
+        Object.keys(formErrors).forEach(name => {
+          newErrors[normalizePath(name)] = formErrors[name];
+        });
       } catch (err) {
         console.error('Form validation error:', err);
       }
     }
 
     return newErrors;
-  }, [fields, values, formValidate, validateField]);
+  }, [
+    fieldConfigs,
+    formValidate,
+    trackValidation,
+    validateFieldConfig,
+    resolveLatest,
+    resolveErrors,
+  ]);
+
+  // 等待所有正在进行的字段验证结束
+  const waitForValidations = useCallback(async () => {
+    const pending = pendingRef.current;
+    while (pending.size > 0) {
+      await Promise.all(Array.from(pending.values()).map(item => item.promise));
+    }
+  }, []);
+
+  // 判断字段是否在值改变或失焦时验证，字段的validateTrigger优先于表单配置
+  const shouldValidateOn = useCallback(
+    (path: string, trigger: Exclude<ValidateTrigger, 'submit'>) => {
+      const fieldTrigger = fieldConfigs[path]?.validateTrigger;
+      if (fieldTrigger === undefined) {
+        return trigger === 'change' ? validateOnChange : validateOnBlur;
+      }
+      return Array.isArray(fieldTrigger)
+        ? fieldTrigger.includes(trigger)
+        : fieldTrigger === trigger;
+    },
+    [fieldConfigs, validateOnChange, validateOnBlur]
+  );
 
   // 设置字段值
   const setFieldValue = useCallback(
     async (name: string, value: any) => {
-      setValues(prev => ({ ...prev, [name]: value }));
-
-      // 如果启用了onChange验证
-      if (validateOnChange) {
-        const error = await validateField(name);
-        setErrors(prev => ({ ...prev, [name]: error }));
+      const path = normalizePath(name);
+      updateValues(prev => setIn(prev, path, value));
+
+      // 如果启用了onChange验证，连续修改时只有最后一次验证的结果生效
+      if (shouldValidateOn(path, 'change')) {
+        const delay = fieldConfigs[path]?.debounce ?? validateDebounce;
+        const { error, current } = await runFieldValidation(path, delay);
+        if (current) {
+          setErrors(prev => ({ ...prev, [path]: error }));
+        }
       }
     },
-    [validateOnChange, validateField]
+    [
+      shouldValidateOn,
+      validateDebounce,
+      fieldConfigs,
+      updateValues,
+      runFieldValidation,
+    ]
   );
 
   // 设置字段错误
   const setFieldError = useCallback(
     (name: string, error: string | undefined) => {
-      setErrors(prev => ({ ...prev, [name]: error }));
+      setErrors(prev => ({ ...prev, [normalizePath(name)]: error }));
     },
     []
   );
@@ -227,28 +603,38 @@ function useForm(config: FormConfig = {}): UseFormReturn {
   // 设置字段触碰状态
   const setFieldTouched = useCallback(
     async (name: string, isTouched = true) => {
-      setTouched(prev => ({ ...prev, [name]: isTouched }));
-
-      // 如果启用了onBlur验证且字段被触碰
-      if (validateOnBlur && isTouched) {
-        const error = await validateField(name);
-        setErrors(prev => ({ ...prev, [name]: error }));
+      const path = normalizePath(name);
+      setTouched(prev => ({ ...prev, [path]: isTouched }));
+
+      // 如果启用了onBlur验证且字段被触碰，立即验证，取代防抖中的验证
+      if (isTouched && shouldValidateOn(path, 'blur')) {
+        const { error, current } = await runFieldValidation(path);
+        if (current) {
+          setErrors(prev => ({ ...prev, [path]: error }));
+        }
       }
     },
-    [validateOnBlur, validateField]
+    [shouldValidateOn, runFieldValidation]
+  );
+
+  // 获取字段值
+  const getFieldValue = useCallback(
+    (name: string) => getIn(values, name),
+    [values]
   );
 
   // 获取字段状态
   const getFieldState = useCallback(
     (name: string): FieldState => {
+      const path = normalizePath(name);
       return {
-        value: values[name] ?? '',
-        error: errors[name],
-        touched: touched[name] ?? false,
-        validating: false, // 可以根据需要扩展
+        value: getIn(values, path) ?? '',
+        error: errors[path],
+        touched: touched[path] ?? false,
+        validating: validating[path] ?? false,
       };
     },
-    [values, errors, touched]
+    [values, errors, touched, validating]
   );
 
   // 获取字段属性
@@ -276,18 +662,19 @@ function useForm(config: FormConfig = {}): UseFormReturn {
       setIsSubmitting(true);
 
       try {
-        // 验证表单
+        // 验证表单，并等待其他正在进行的字段验证结束
         const formErrors = await validateForm();
+        await waitForValidations();
         setErrors(formErrors);
 
         // 如果有错误，不提交
-        if (Object.keys(formErrors).length > 0) {
+        if (Object.keys(formErrors).some(name => formErrors[name])) {
           return;
         }
 
         // 执行提交
         if (onSubmit) {
-          await onSubmit(values);
+          await onSubmit(valuesRef.current);
         }
       } catch (err) {
         console.error('Form submission error:', err);
@@ -295,40 +682,79 @@ function useForm(config: FormConfig = {}): UseFormReturn {
         setIsSubmitting(false);
       }
     },
-    [values, validateForm, onSubmit]
+    [validateForm, waitForValidations, onSubmit]
   );
 
   // 重置表单
   const resetForm = useCallback(
     (newValues?: Partial<FormValues>) => {
-      const resetValues = { ...initialValues, ...newValues };
-      setValues(resetValues);
+      cancelValidations(() => true);
+      updateValues(() => ({ ...initialValues, ...newValues }));
       setErrors({});
       setTouched({});
       setIsSubmitting(false);
     },
-    [initialValues]
+    [initialValues, cancelValidations, updateValues]
   );
 
-  // 重置字段
+  // 重置字段，嵌套字段的错误和触碰状态一并清除
   const resetField = useCallback(
     (name: string) => {
-      const initialValue = fields[name]?.initialValue ?? '';
-      setValues(prev => ({ ...prev, [name]: initialValue }));
-      setErrors(prev => ({ ...prev, [name]: undefined }));
-      setTouched(prev => ({ ...prev, [name]: false }));
+      const path = normalizePath(name);
+      const initialValue = getIn(initialValues, path) ?? '';
+      cancelValidations(key => isPathWithin(key, path));
+      updateValues(prev => setIn(prev, path, initialValue));
+      setErrors(prev => omitPath(prev, path));
+      setTouched(prev => omitPath(prev, path));
+    },
+    [initialValues, cancelValidations, updateValues]
+  );
+
+  // 修改数组字段，数组元素的错误和触碰状态随元素移动，元素上进行中的验证被取消
+  const updateFieldArray = useCallback(
+    (
+      name: string,
+      updater: (items: any) => any,
+      remapIndex: (index: number) => number | undefined
+    ) => {
+      const path = normalizePath(name);
+      cancelValidations(key => isPathWithin(key, path) && key !== path);
+      updateValues(prev => {
+        const items = getIn(prev, path);
+        return setIn(prev, path, updater(Array.isArray(items) ? items : []));
+      });
+      setErrors(prev => remapArrayPaths(prev, path, remapIndex));
+      setTouched(prev => remapArrayPaths(prev, path, remapIndex));
     },
-    [fields]
+    [cancelValidations, updateValues]
   );
 
   // 批量设置值
-  const setValuesCallback = useCallback((newValues: Partial<FormValues>) => {
-    setValues(prev => ({ ...prev, ...newValues }));
-  }, []);
+  const setValuesCallback = useCallback(
+    (newValues: Partial<FormValues>) => {
+      updateValues(prev => ({ ...prev, ...newValues }));
+    },
+    [updateValues]
+  );
 
   // 批量设置错误
   const setErrorsCallback = useCallback((newErrors: Partial<FormErrors>) => {
-    setErrors(prev => ({ ...prev, ...newErrors }));
+    setErrors(prev => {
+      const next = { ...prev };
+      Object.keys(newErrors).forEach(name => {
+        next[normalizePath(name)] = newErrors[name];
+      });
+      return next;
+    });
+  }, []);
+
+  // 组件卸载时取消所有验证
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      pending.forEach(item => item.controller.abort());
+      pending.clear();
+    };
   }, []);
 
   const formState: FormState = {
@@ -336,12 +762,14 @@ function useForm(config: FormConfig = {}): UseFormReturn {
     errors,
     touched,
     isSubmitting,
+    isValidating,
     isValid,
     isPristine,
   };
 
   return {
     formState,
+    getFieldValue,
     getFieldState,
     getFieldProps,
     setFieldValue,
@@ -354,6 +782,7 @@ function useForm(config: FormConfig = {}): UseFormReturn {
     handleSubmit,
     resetForm,
     resetField,
+    updateFieldArray,
   };
 }
 
@@ -0,0 +1,32 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook } from '@testing-library/react';
+import { useValidation, validationRules } from './useValidation';
+
+describe('useValidation', () => {
+  it('createValidator返回第一个错误，规则抛出的错误视为验证失败', async () => {
+    const { result } = renderHook(() => useValidation());
+    const validator = result.current.createValidator([
+      validationRules.required('必填'),
+      () => {
+        throw new Error('格式错误');
+      },
+    ]);
+
+    await expect(validator('')).resolves.toBe('必填');
+    await expect(validator('abc')).resolves.toBe('格式错误');
+  });
+
+  it('createValidator的stopOnFirstError为false时执行所有规则并忽略错误', async () => {
+    const { result } = renderHook(() => useValidation());
+    const rule = jest.fn(() => '错误');
+    const validator = result.current.createValidator(
+      [validationRules.required('必填'), rule],
+      false
+    );
+
+    await expect(validator('', 'name')).resolves.toBeUndefined();
+    expect(rule).toHaveBeenCalledWith('', 'name');
+  });
+});
@@ -279,6 +279,39 @@ export interface UseValidationReturn {
   ) => ValidationRule;
 }
 
+/**
+ * 依次执行验证规则，规则抛出的错误视为验证失败，供useForm的字段配置使用
+ * 与createValidator不同，stopOnFirstError为false时不会忽略错误，而是合并所有错误信息
+ * @param rules - 验证规则数组
+ * @param value - 要验证的值
+ * @param fieldName - 字段名称
+ * @param stopOnFirstError - 是否在第一个错误时停止验证，为false时返回所有错误信息，以分号分隔
+ * @returns 错误信息，验证通过时为undefined
+ */
+async function runValidationRules(
+  rules: ValidationRule[],
+  value: any,
+  fieldName?: string,
+  stopOnFirstError = true
+): Promise<string | undefined> {
+  const messages: string[] = [];
+  for (const rule of rules) {
+    let error: string | undefined;
+    try {
+      error = await rule(value, fieldName);
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Validation error';
+    }
+    if (error) {
+      if (stopOnFirstError) {
+        return error;
+      }
+      messages.push(error);
+    }
+  }
+  return messages.length > 0 ? messages.join('; ') : undefined;
+}
+
 /**
  * useValidation - 表单验证的React Hook
  * @param config - 验证器配置
@@ -353,4 +386,4 @@ function useValidation(config?: ValidatorConfig): UseValidationReturn {
   };
 }
 
-export { useValidation };
+export { useValidation, runValidationRules };
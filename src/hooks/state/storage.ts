@@ -0,0 +1,74 @@
+/**
+ * 同步存储接口，与localStorage和sessionStorage兼容
+ */
+export type StorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * 获取默认存储，非浏览器环境或存储不可用时返回null
+ * @returns localStorage或null
+ */
+function getDefaultStorage(): StorageLike | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // 部分浏览器在禁用存储时访问localStorage会抛出错误
+    return null;
+  }
+}
+
+/**
+ * 读取并解析JSON格式的存储值
+ * @param key - 键名
+ * @param fallback - 不存在或解析失败时返回的值
+ * @param storage - 存储，默认为localStorage
+ * @returns 存储的值
+ */
+function readStorage<T>(
+  key: string,
+  fallback: T,
+  storage: StorageLike | null = getDefaultStorage()
+): T {
+  try {
+    const item = storage?.getItem(key);
+    return item ? JSON.parse(item) : fallback;
+  } catch (error) {
+    console.warn(`Error reading localStorage key "${key}":`, error);
+    return fallback;
+  }
+}
+
+/**
+ * 将值序列化为JSON后写入存储
+ * @param key - 键名
+ * @param value - 值
+ * @param storage - 存储，默认为localStorage
+ */
+function writeStorage<T>(
+  key: string,
+  value: T,
+  storage: StorageLike | null = getDefaultStorage()
+) {
+  try {
+    storage?.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Error setting localStorage key "${key}":`, error);
+  }
+}
+
+/**
+ * 移除存储值
+ * @param key - 键名
+ * @param storage - 存储，默认为localStorage
+ */
+function removeStorage(
+  key: string,
+  storage: StorageLike | null = getDefaultStorage()
+) {
+  try {
+    storage?.removeItem(key);
+  } catch (error) {
+    console.warn(`Error removing localStorage key "${key}":`, error);
+  }
+}
+
+export { getDefaultStorage, readStorage, writeStorage, removeStorage };
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { readStorage, writeStorage, removeStorage } from './storage';
 
 /**
  * useLocalStorage Hook的返回类型
@@ -23,39 +24,23 @@ function useLocalStorage<T>(
   initialValue: T
 ): UseLocalStorageReturn<T> {
   // 从localStorage读取初始值
-  const [value, setValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.warn(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
-    }
-  });
+  const [value, setValue] = useState<T>(() => readStorage(key, initialValue));
 
   // 设置值到localStorage和state
   const setStoredValue = useCallback(
     (newValue: T | ((prevValue: T) => T)) => {
-      try {
-        const valueToStore =
-          newValue instanceof Function ? newValue(value) : newValue;
-        setValue(valueToStore);
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
-      } catch (error) {
-        console.warn(`Error setting localStorage key "${key}":`, error);
-      }
+      const valueToStore =
+        newValue instanceof Function ? newValue(value) : newValue;
+      setValue(valueToStore);
+      writeStorage(key, valueToStore);
     },
     [key, value]
   );
 
   // 移除localStorage中的值
   const removeStoredValue = useCallback(() => {
-    try {
-      window.localStorage.removeItem(key);
-      setValue(initialValue);
-    } catch (error) {
-      console.warn(`Error removing localStorage key "${key}":`, error);
-    }
+    removeStorage(key);
+    setValue(initialValue);
   }, [key, initialValue]);
 
   // 监听localStorage变化（其他标签页的变化）
@@ -4,13 +4,159 @@ export { useToggle } from './hooks/state/useToggle';
 
 // Async hooks
 export { useAsync } from './hooks/async/useAsync';
-export { useFetch } from './hooks/async/useFetch';
-export type { AsyncStatus, UseAsyncReturn } from './hooks/async/useAsync';
 export type {
-  HttpMethod,
-  FetchOptions,
+  AsyncTaskStatus,
+  AsyncTaskFunction,
+  AsyncQueueTask,
+  AsyncTaskOptions,
+  AsyncQueueProgress,
+  UseAsyncQueueOptions,
+  UseAsyncQueueReturn,
+} from './hooks/async/useAsyncQueue';
+export { useAsyncQueue } from './hooks/async/useAsyncQueue';
+export { useFetch, useSuspenseFetch } from './hooks/async/useFetch';
+export { useFetchAll } from './hooks/async/useFetchAll';
+export { getQueryKey, setDefaultTransport } from './hooks/async/request';
+export { createMockTransport } from './hooks/async/mockTransport';
+export { createFetchClient } from './hooks/async/createFetchClient';
+export { defineApi, typed } from './hooks/async/defineApi';
+export { useMutation } from './hooks/async/useMutation';
+export { createOfflineQueue } from './hooks/async/offlineQueue';
+export { useOfflineQueue } from './hooks/async/useOfflineQueue';
+export { useInfiniteFetch } from './hooks/async/useInfiniteFetch';
+export { usePagination } from './hooks/async/usePagination';
+export { useEventSource } from './hooks/async/useEventSource';
+export { useWebSocket } from './hooks/async/useWebSocket';
+export { useGraphQL, getGraphQLQueryKey } from './hooks/async/useGraphQL';
+export { createQueryCache, queryCache } from './hooks/async/queryCache';
+export {
+  QueryCacheProvider,
+  useQueryCache,
+} from './hooks/async/queryCacheContext';
+export { prefetch, dehydrate, hydrate } from './hooks/async/hydration';
+export { isAbortError } from './hooks/async/abort';
+export {
+  HttpError,
+  TimeoutError,
+  GraphQLError,
+  AbortError,
+} from './hooks/async/errors';
+export type { GraphQLErrorItem } from './hooks/async/errors';
+export type {
+  AsyncStatus,
+  AsyncConcurrency,
+  AsyncContext,
+  UseAsyncOptions,
+  UseAsyncReturn,
+} from './hooks/async/useAsync';
+export type { RetryOption, RetryDelayOption } from './hooks/async/retry';
+export type {
   UseFetchReturn,
+  UseSuspenseFetchReturn,
 } from './hooks/async/useFetch';
+export type {
+  FetchAllRequest,
+  FetchAllResult,
+  UseFetchAllReturn,
+} from './hooks/async/useFetchAll';
+export type { FetchProgress, ProgressCallback } from './hooks/async/progress';
+export type {
+  HttpMethod,
+  FetchOptions,
+  FetchResponseType,
+  FetchError,
+  RequestConfig,
+  RequestFunction,
+  RequestInterceptor,
+  ResponseInterceptor,
+  InterceptorContext,
+  FetchInterceptors,
+  FetchClientConfig,
+  FetchTransport,
+} from './hooks/async/request';
+export type {
+  MockRequest,
+  MockResponseInit,
+  MockHandler,
+  MockPattern,
+  MockRouteOptions,
+  MockTransportOptions,
+  MockTransport,
+} from './hooks/async/mockTransport';
+export type { FetchClient } from './hooks/async/createFetchClient';
+export type {
+  TypeMarker,
+  ResponseValidator,
+  RouteDefinition,
+  PathParams,
+  ApiResponse,
+  ApiVariables,
+  ApiRequestOptions,
+  ApiPrefetchOptions,
+  ApiEndpoint,
+  Api,
+  ApiClient,
+} from './hooks/async/defineApi';
+export type {
+  UseMutationOptions,
+  UseMutationReturn,
+} from './hooks/async/useMutation';
+export type {
+  OfflineRequestOptions,
+  QueuedMutation,
+  ConflictResolution,
+  OfflineMutationResult,
+  OfflineQueueOptions,
+  OfflineQueue,
+} from './hooks/async/offlineQueue';
+export type { UseOfflineQueueReturn } from './hooks/async/useOfflineQueue';
+export type {
+  UseInfiniteFetchOptions,
+  UseInfiniteFetchReturn,
+} from './hooks/async/useInfiniteFetch';
+export type {
+  UsePaginationOptions,
+  UsePaginationReturn,
+} from './hooks/async/usePagination';
+export type {
+  EventSourceReadyState,
+  EventSourceTransport,
+  EventSourceMessage,
+  EventSourceHandlers,
+  UseEventSourceOptions,
+  UseEventSourceReturn,
+} from './hooks/async/useEventSource';
+export type {
+  UseWebSocketOptions,
+  UseWebSocketReturn,
+} from './hooks/async/useWebSocket';
+export type {
+  WebSocketReadyState,
+  WebSocketData,
+  WebSocketHeartbeat,
+  WebSocketConnectionConfig,
+} from './hooks/async/webSocketConnection';
+export type {
+  GraphQLOperationType,
+  GraphQLRequestBody,
+  GraphQLResponse,
+  UseGraphQLOptions,
+  UseGraphQLReturn,
+} from './hooks/async/useGraphQL';
+export type {
+  QueryKey,
+  QueryState,
+  QueryFilter,
+  FetchQueryOptions,
+  QueryFetcher,
+  QueryCache,
+  DehydratedState,
+} from './hooks/async/queryCache';
+export type { QueryCacheProviderProps } from './hooks/async/queryCacheContext';
+export type {
+  PrefetchOptions,
+  PrefetchFunction,
+} from './hooks/async/hydration';
 
 // DOM 操作类 Hooks
 export { useIntersectionObserver } from './hooks/dom/useIntersectionObserver';
@@ -51,16 +197,40 @@ export type { UseThrottleOptions } from './hooks/performance/useThrottle';
 
 // Form hooks
 export { useForm } from './hooks/form/useForm';
+export type {
+  FieldArrayItem,
+  FieldArrayItemValue,
+  UseFieldArrayReturn,
+} from './hooks/form/useFieldArray';
+export { useFieldArray } from './hooks/form/useFieldArray';
 export { useValidation, validationRules } from './hooks/form/useValidation';
+export { jsonSchemaResolver } from './hooks/form/resolvers';
+export type {
+  ResolverIssue,
+  FormResolver,
+  JsonSchema,
+  JsonSchemaType,
+  JsonSchemaKeyword,
+} from './hooks/form/resolvers';
 export type {
   FormValues,
   FormErrors,
+  FormTouched,
   FieldConfig,
+  ValidateTrigger,
+  FormFields,
   FormConfig,
+  InferFormValues,
   FieldState,
+  FieldProps,
   FormState,
   UseFormReturn,
 } from './hooks/form/useForm';
+export type {
+  FieldPath,
+  FieldPathValue,
+  FieldArrayPath,
+} from './hooks/form/path';
 export type {
   ValidationRule,
   ValidatorConfig,
@@ -72,4 +242,5 @@ export { usePrevious } from './hooks/utils/usePrevious';
 
 // 导出类型定义
 export type { UseLocalStorageReturn } from './hooks/state/useLocalStorage';
+export type { StorageLike } from './hooks/state/storage';
 export type { UseToggleReturn } from './hooks/state/useToggle';